@@ -0,0 +1,86 @@
+"use client"
+
+import { useId, useState, type ReactNode } from "react"
+
+import { getCurrencySymbol, type CurrencyCode } from "@/lib/currency"
+import { parseAmountInput } from "@/lib/number-utils"
+import { cn } from "@/lib/utils"
+
+interface CurrencyInputProps {
+  value: string
+  onValueChange: (value: string) => void
+  currency: CurrencyCode
+  minorUnitDigits: number
+  locale?: string
+  placeholder?: string
+  "aria-label"?: string
+  /** Rendered inside the field on the right, e.g. the scan button. */
+  endAdornment?: ReactNode
+}
+
+export const formatAmountInput = (amount: number, minorUnitDigits: number, locale?: string) =>
+  new Intl.NumberFormat(locale, {
+    minimumFractionDigits: minorUnitDigits,
+    maximumFractionDigits: minorUnitDigits,
+  }).format(amount)
+
+export default function CurrencyInput({
+  value,
+  onValueChange,
+  currency,
+  minorUnitDigits,
+  locale,
+  placeholder,
+  "aria-label": ariaLabel,
+  endAdornment,
+}: CurrencyInputProps) {
+  const [isFocused, setIsFocused] = useState(false)
+  const errorId = useId()
+  const currencySymbol = getCurrencySymbol(currency, locale)
+  // Half-typed values such as "12," are not valid yet, so only complain once the field is left
+  const showError = !isFocused && value.trim() !== "" && parseAmountInput(value, locale) === null
+
+  const handleBlur = () => {
+    setIsFocused(false)
+
+    const amount = parseAmountInput(value, locale)
+    if (amount !== null) {
+      onValueChange(formatAmountInput(amount, minorUnitDigits, locale))
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-base font-medium text-muted-foreground">
+          {currencySymbol}
+        </span>
+        <input
+          type="text"
+          inputMode="decimal"
+          autoComplete="off"
+          value={value}
+          onChange={(e) => onValueChange(e.target.value)}
+          onFocus={() => setIsFocused(true)}
+          onBlur={handleBlur}
+          placeholder={placeholder ?? formatAmountInput(0, minorUnitDigits, locale)}
+          aria-label={ariaLabel}
+          aria-invalid={showError}
+          aria-describedby={showError ? errorId : undefined}
+          className={cn(
+            "w-full rounded-md border bg-background py-2.5 text-base font-medium tabular-nums focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+            currencySymbol.length > 1 ? "pl-14" : "pl-10",
+            endAdornment ? "pr-12" : "pr-4",
+            showError ? "border-destructive" : "border-input"
+          )}
+        />
+        {endAdornment}
+      </div>
+      {showError ? (
+        <p id={errorId} className="text-sm text-destructive" role="alert">
+          Enter an amount like {formatAmountInput(1234.5, minorUnitDigits, locale)}
+        </p>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { memo } from "react"
+import { Plus, Trash2 } from "lucide-react"
+
+import type { LineItem } from "@/lib/bill-split"
+import { parseAmountInput } from "@/lib/number-utils"
+import { cn } from "@/lib/utils"
+
+import { formatAmountInput } from "./currency-input"
+
+export interface LineItemDraft {
+  id: string
+  description: string
+  price: string
+  assignedTo: string[]
+}
+
+interface LineItemEditorProps {
+  items: LineItemDraft[]
+  participants: { id: string; name: string }[]
+  /** Decimals of the bill's currency, e.g. 0 for JPY. */
+  minorUnitDigits: number
+  onUpdate: (id: string, changes: Partial<Omit<LineItemDraft, "id">>) => void
+  onRemove: (id: string) => void
+  onAdd: () => void
+}
+
+export const toLineItem = (draft: LineItemDraft): LineItem => ({
+  id: draft.id,
+  description: draft.description,
+  price: parseAmountInput(draft.price) ?? 0,
+  assignedTo: draft.assignedTo,
+})
+
+const LineItemEditor = memo(({ items, participants, minorUnitDigits, onUpdate, onRemove, onAdd }: LineItemEditorProps) => {
+  const toggleAssignee = (item: LineItemDraft, participantId: string) => {
+    const assignedTo = item.assignedTo.includes(participantId)
+      ? item.assignedTo.filter((id) => id !== participantId)
+      : [...item.assignedTo, participantId]
+
+    onUpdate(item.id, { assignedTo })
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground">
+          Scan a receipt or add items to split by what everyone ordered.
+        </p>
+      ) : null}
+
+      {items.map((item, index) => (
+        <div key={item.id} className="space-y-2 rounded-md border border-border bg-background p-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={item.description}
+              onChange={(e) => onUpdate(item.id, { description: e.target.value })}
+              placeholder={`Item ${index + 1}`}
+              aria-label={`Description of item ${index + 1}`}
+              className="min-w-0 flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm font-medium focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            />
+            <input
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              value={item.price}
+              onChange={(e) => onUpdate(item.id, { price: e.target.value })}
+              placeholder={formatAmountInput(0, minorUnitDigits)}
+              aria-label={`Price of item ${index + 1}`}
+              className="w-24 rounded-md border border-input bg-background px-2 py-2 text-sm font-medium tabular-nums focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            />
+            <button
+              onClick={() => onRemove(item.id)}
+              className="rounded-md border border-border bg-background p-2 transition-colors hover:bg-accent"
+              type="button"
+              aria-label={`Remove item ${index + 1}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {participants.map((participant) => {
+              const isAssigned = item.assignedTo.includes(participant.id)
+
+              return (
+                <button
+                  key={participant.id}
+                  onClick={() => toggleAssignee(item, participant.id)}
+                  className={cn(
+                    "rounded-full border px-3 py-1 text-xs font-semibold transition-colors",
+                    isAssigned
+                      ? "border-primary bg-primary text-primary-foreground"
+                      : "border-border bg-secondary text-secondary-foreground hover:bg-accent"
+                  )}
+                  type="button"
+                  aria-pressed={isAssigned}
+                >
+                  {participant.name}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={onAdd}
+        className="flex w-full items-center justify-center gap-1 rounded-md border border-border bg-secondary py-2 text-sm font-medium transition-colors hover:bg-accent"
+        type="button"
+      >
+        <Plus className="h-4 w-4" />
+        Add item
+      </button>
+    </div>
+  )
+})
+
+LineItemEditor.displayName = "LineItemEditor"
+
+export default LineItemEditor
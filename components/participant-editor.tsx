@@ -0,0 +1,122 @@
+"use client"
+
+import { memo } from "react"
+import { Plus, Trash2 } from "lucide-react"
+
+import type { Participant, ShareKind } from "@/lib/bill-split"
+import { parseAmountInput, parseNumberInput } from "@/lib/number-utils"
+
+import { formatAmountInput } from "./currency-input"
+
+export interface ParticipantDraft {
+  id: string
+  name: string
+  shareKind: ShareKind
+  shareValue: string
+}
+
+interface ParticipantEditorProps {
+  participants: ParticipantDraft[]
+  /** Hide the share controls when shares come from somewhere else, e.g. line items. */
+  showShares?: boolean
+  /** Decimals of the bill's currency, for the fixed amount placeholder. */
+  minorUnitDigits: number
+  onUpdate: (id: string, changes: Partial<Omit<ParticipantDraft, "id">>) => void
+  onRemove: (id: string) => void
+  onAdd: () => void
+}
+
+const SHARE_KIND_LABELS: Record<ShareKind, string> = {
+  weight: "Weight",
+  percent: "% of bill",
+  fixed: "Fixed amount",
+}
+
+export const toParticipant = (draft: ParticipantDraft, index: number): Participant => ({
+  id: draft.id,
+  name: draft.name.trim() || `Person ${index + 1}`,
+  shareKind: draft.shareKind,
+  // Only fixed shares are amounts; weights and percentages are plain numbers
+  shareValue:
+    (draft.shareKind === "fixed" ? parseAmountInput(draft.shareValue) : parseNumberInput(draft.shareValue)) ?? 0,
+})
+
+const ParticipantEditor = memo(({
+  participants,
+  showShares = true,
+  minorUnitDigits,
+  onUpdate,
+  onRemove,
+  onAdd,
+}: ParticipantEditorProps) => {
+  return (
+    <div className="space-y-2">
+      {participants.map((participant, index) => (
+        <div key={participant.id} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={participant.name}
+            onChange={(e) => onUpdate(participant.id, { name: e.target.value })}
+            placeholder={`Person ${index + 1}`}
+            aria-label={`Name of person ${index + 1}`}
+            className="min-w-0 flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm font-medium focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          {showShares ? (
+            <>
+              <select
+                value={participant.shareKind}
+                onChange={(e) => onUpdate(participant.id, { shareKind: e.target.value as ShareKind })}
+                aria-label={`Share type for person ${index + 1}`}
+                className="rounded-md border border-input bg-background px-2 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                {(Object.keys(SHARE_KIND_LABELS) as ShareKind[]).map((kind) => (
+                  <option key={kind} value={kind}>
+                    {SHARE_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                inputMode="decimal"
+                autoComplete="off"
+                value={participant.shareValue}
+                onChange={(e) => onUpdate(participant.id, { shareValue: e.target.value })}
+                placeholder={
+                  participant.shareKind === "weight"
+                    ? "1"
+                    : participant.shareKind === "fixed"
+                      ? formatAmountInput(0, minorUnitDigits)
+                      : "0"
+                }
+                aria-label={`Share value for person ${index + 1}`}
+                className="w-20 rounded-md border border-input bg-background px-2 py-2 text-sm font-medium tabular-nums focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              />
+            </>
+          ) : null}
+          <button
+            onClick={() => onRemove(participant.id)}
+            className="rounded-md border border-border bg-background p-2 transition-colors hover:bg-accent disabled:cursor-not-allowed disabled:opacity-40"
+            type="button"
+            aria-label={`Remove person ${index + 1}`}
+            disabled={participants.length <= 1}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={onAdd}
+        className="flex w-full items-center justify-center gap-1 rounded-md border border-border bg-secondary py-2 text-sm font-medium transition-colors hover:bg-accent"
+        type="button"
+      >
+        <Plus className="h-4 w-4" />
+        Add person
+      </button>
+    </div>
+  )
+})
+
+ParticipantEditor.displayName = "ParticipantEditor"
+
+export default ParticipantEditor
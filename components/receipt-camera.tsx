@@ -0,0 +1,235 @@
+"use client"
+
+import { memo, useCallback, useEffect, useRef, useState } from "react"
+import { Camera } from "lucide-react"
+
+import {
+  assessFrame,
+  isReadyToCapture,
+  trackSteadiness,
+  type FrameIssue,
+} from "@/lib/frame-quality"
+import { toGrayscale, type GrayImage } from "@/lib/image-preprocessing"
+import type { OcrBox } from "@/lib/ocr-layout"
+import { cn } from "@/lib/utils"
+
+interface ReceiptCameraProps {
+  onCapture: (photo: File) => void
+  onCancel: () => void
+  /** Called when there is no camera or access to it is denied. */
+  onUnavailable: () => void
+}
+
+const CAMERA_CONSTRAINTS: MediaStreamConstraints = {
+  audio: false,
+  video: { facingMode: "environment", width: { ideal: 1920 }, height: { ideal: 1080 } },
+}
+
+// Receipt-shaped guide, as fractions of the viewfinder
+const GUIDE: OcrBox = { x0: 0.2, y0: 0.06, x1: 0.8, y1: 0.94 }
+const ANALYSIS_WIDTH = 240
+const ANALYSIS_INTERVAL_MS = 150
+const CAPTURE_QUALITY = 0.92
+
+const FEEDBACK: Record<FrameIssue, string> = {
+  "too-dark": "More light",
+  glare: "Too much glare, tilt the receipt",
+  moving: "Hold steady",
+  blurry: "Move closer to focus",
+}
+
+/** The guide's area on the video frame, allowing for the crop from `object-cover`. */
+function guideOnVideo(video: HTMLVideoElement, container: HTMLElement) {
+  const { clientWidth, clientHeight } = container
+  const scale = Math.max(clientWidth / video.videoWidth, clientHeight / video.videoHeight)
+  const offsetX = (video.videoWidth - clientWidth / scale) / 2
+  const offsetY = (video.videoHeight - clientHeight / scale) / 2
+
+  return {
+    x: offsetX + (GUIDE.x0 * clientWidth) / scale,
+    y: offsetY + (GUIDE.y0 * clientHeight) / scale,
+    width: ((GUIDE.x1 - GUIDE.x0) * clientWidth) / scale,
+    height: ((GUIDE.y1 - GUIDE.y0) * clientHeight) / scale,
+  }
+}
+
+const ReceiptCamera = memo(({ onCapture, onCancel, onUnavailable }: ReceiptCameraProps) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const previousFrameRef = useRef<GrayImage | null>(null)
+  const steadySinceRef = useRef<number | null>(null)
+  const isCapturingRef = useRef(false)
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [issue, setIssue] = useState<FrameIssue | null>("moving")
+
+  useEffect(() => {
+    let stream: MediaStream | null = null
+    let isCancelled = false
+
+    const start = async () => {
+      try {
+        const nextStream = await navigator.mediaDevices.getUserMedia(CAMERA_CONSTRAINTS)
+        if (isCancelled) {
+          nextStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+
+        stream = nextStream
+        const video = videoRef.current
+        if (!video) {
+          return
+        }
+
+        video.srcObject = nextStream
+        await video.play()
+        if (!isCancelled) {
+          setIsStreaming(true)
+        }
+      } catch (cameraError) {
+        console.error("Camera Error:", cameraError)
+        if (!isCancelled) {
+          onUnavailable()
+        }
+      }
+    }
+
+    start()
+
+    return () => {
+      isCancelled = true
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [onUnavailable])
+
+  const capture = useCallback(() => {
+    const video = videoRef.current
+    if (!video || isCapturingRef.current || video.videoWidth === 0) {
+      return
+    }
+
+    isCapturingRef.current = true
+    setIsCapturing(true)
+
+    // The whole frame is kept; the scan finds the receipt on it
+    const canvas = document.createElement("canvas")
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    canvas.getContext("2d")?.drawImage(video, 0, 0)
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          isCapturingRef.current = false
+          setIsCapturing(false)
+          return
+        }
+
+        onCapture(new File([blob], `receipt-${Date.now()}.jpg`, { type: blob.type }))
+      },
+      "image/jpeg",
+      CAPTURE_QUALITY
+    )
+  }, [onCapture])
+
+  useEffect(() => {
+    if (!isStreaming) {
+      return
+    }
+
+    const canvas = document.createElement("canvas")
+    const context = canvas.getContext("2d", { willReadFrequently: true })
+
+    const analyzeFrame = () => {
+      const video = videoRef.current
+      const container = containerRef.current
+      if (!context || !video || !container || isCapturingRef.current || video.videoWidth === 0) {
+        return
+      }
+
+      const guide = guideOnVideo(video, container)
+      canvas.width = ANALYSIS_WIDTH
+      canvas.height = Math.max(1, Math.round((guide.height * ANALYSIS_WIDTH) / guide.width))
+      context.drawImage(video, guide.x, guide.y, guide.width, guide.height, 0, 0, canvas.width, canvas.height)
+
+      const frame = toGrayscale(context.getImageData(0, 0, canvas.width, canvas.height))
+      const quality = assessFrame(frame, previousFrameRef.current)
+      const now = performance.now()
+      previousFrameRef.current = frame
+      steadySinceRef.current = trackSteadiness(steadySinceRef.current, quality, now)
+      setIssue(quality.issue)
+
+      if (isReadyToCapture(steadySinceRef.current, now)) {
+        capture()
+      }
+    }
+
+    const interval = window.setInterval(analyzeFrame, ANALYSIS_INTERVAL_MS)
+    return () => window.clearInterval(interval)
+  }, [capture, isStreaming])
+
+  const feedback = !isStreaming
+    ? "Starting camera..."
+    : isCapturing
+      ? "Capturing..."
+      : issue
+        ? FEEDBACK[issue]
+        : "Looks good, keep still"
+
+  return (
+    <div className="space-y-4">
+      <div
+        ref={containerRef}
+        className="relative mx-auto aspect-[3/4] max-h-[60vh] w-full max-w-sm overflow-hidden rounded-lg bg-black"
+      >
+        <video ref={videoRef} autoPlay muted playsInline className="h-full w-full object-cover" />
+
+        <div
+          className={cn(
+            "pointer-events-none absolute rounded-md border-2 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] transition-colors",
+            isStreaming && !issue ? "border-green-500" : "border-white/80"
+          )}
+          style={{
+            left: `${GUIDE.x0 * 100}%`,
+            top: `${GUIDE.y0 * 100}%`,
+            width: `${(GUIDE.x1 - GUIDE.x0) * 100}%`,
+            height: `${(GUIDE.y1 - GUIDE.y0) * 100}%`,
+          }}
+        />
+
+        <p
+          className="absolute inset-x-0 bottom-3 mx-auto w-fit rounded-full bg-black/60 px-3 py-1 text-sm font-medium text-white"
+          aria-live="polite"
+        >
+          {feedback}
+        </p>
+      </div>
+
+      <p className="text-center text-sm text-muted-foreground">
+        Fit the receipt inside the frame. It is captured as soon as the picture is sharp.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onCancel}
+          className="rounded-md border border-border bg-background py-3 font-medium transition-colors hover:bg-secondary"
+          type="button"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={capture}
+          disabled={!isStreaming || isCapturing}
+          className="flex items-center justify-center gap-2 rounded-md border border-primary bg-primary py-3 font-semibold text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+          type="button"
+        >
+          <Camera className="h-5 w-5" />
+          Capture Now
+        </button>
+      </div>
+    </div>
+  )
+})
+
+ReceiptCamera.displayName = "ReceiptCamera"
+
+export default ReceiptCamera
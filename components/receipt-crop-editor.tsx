@@ -0,0 +1,207 @@
+"use client"
+
+import { memo, useEffect, useRef, useState } from "react"
+import { Maximize, RotateCcw, RotateCw } from "lucide-react"
+import NextImage from "next/image"
+
+import type { Point } from "@/lib/image-preprocessing"
+import {
+  FULL_PHOTO,
+  MIN_CROP_SIZE,
+  isFullRegion,
+  normalizeQuarterTurns,
+  regionFromDrag,
+  turnRegion,
+  type ReceiptCrop,
+} from "@/lib/receipt-crop"
+import { cn } from "@/lib/utils"
+
+interface ReceiptCropEditorProps {
+  src: string
+  /** Selection to start from, e.g. the one used for the previous scan. */
+  initialCrop: ReceiptCrop | null
+  onConfirm: (crop: ReceiptCrop) => void
+  onCancel: () => void
+}
+
+interface Size {
+  width: number
+  height: number
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+const ReceiptCropEditor = memo(({ src, initialCrop, onConfirm, onCancel }: ReceiptCropEditorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragStartRef = useRef<Point | null>(null)
+  const [containerSize, setContainerSize] = useState<Size | null>(null)
+  const [imageSize, setImageSize] = useState<Size | null>(null)
+  const [quarterTurns, setQuarterTurns] = useState(initialCrop?.quarterTurns ?? 0)
+  const [region, setRegion] = useState(initialCrop?.region ?? FULL_PHOTO)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) {
+      return
+    }
+
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(container)
+
+    return () => observer.disconnect()
+  }, [])
+
+  const isSideways = quarterTurns % 2 === 1
+  const turnedSize = imageSize
+    ? isSideways
+      ? { width: imageSize.height, height: imageSize.width }
+      : imageSize
+    : null
+  const fitScale =
+    containerSize && turnedSize
+      ? Math.min(containerSize.width / turnedSize.width, containerSize.height / turnedSize.height)
+      : null
+  const stageSize =
+    fitScale !== null && turnedSize
+      ? { width: turnedSize.width * fitScale, height: turnedSize.height * fitScale }
+      : null
+
+  const turn = (quarters: number) => {
+    setQuarterTurns(normalizeQuarterTurns(quarterTurns + quarters))
+    setRegion(turnRegion(region, quarters))
+  }
+
+  const pointFromEvent = (event: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragStartRef.current = pointFromEvent(event)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current
+    if (!start) {
+      return
+    }
+
+    // A tap or a shaky touch keeps the current selection
+    const point = pointFromEvent(event)
+    if (Math.abs(point.x - start.x) < MIN_CROP_SIZE && Math.abs(point.y - start.y) < MIN_CROP_SIZE) {
+      return
+    }
+
+    setRegion(regionFromDrag(start, point))
+  }
+
+  const endDrag = () => {
+    dragStartRef.current = null
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-center text-sm text-muted-foreground">
+        Drag a box around the total to scan only that part, and turn the photo upright if needed.
+      </p>
+
+      <div ref={containerRef} className="flex h-96 w-full items-center justify-center rounded-lg bg-secondary">
+        <div
+          className={cn("relative touch-none select-none overflow-hidden", !stageSize && "h-full w-full")}
+          style={stageSize ?? undefined}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          <div
+            className="absolute left-1/2 top-1/2"
+            style={{
+              width: stageSize ? (isSideways ? stageSize.height : stageSize.width) : "100%",
+              height: stageSize ? (isSideways ? stageSize.width : stageSize.height) : "100%",
+              transform: `translate(-50%, -50%) rotate(${quarterTurns * 90}deg)`,
+            }}
+          >
+            <NextImage
+              src={src}
+              alt="Receipt to crop"
+              fill
+              draggable={false}
+              className="object-contain"
+              onLoad={(event) => {
+                const { naturalWidth, naturalHeight } = event.currentTarget
+                setImageSize({ width: naturalWidth, height: naturalHeight })
+              }}
+            />
+          </div>
+
+          {stageSize ? (
+            <div
+              className="pointer-events-none absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+              style={{
+                left: `${region.x0 * 100}%`,
+                top: `${region.y0 * 100}%`,
+                width: `${(region.x1 - region.x0) * 100}%`,
+                height: `${(region.y1 - region.y0) * 100}%`,
+              }}
+            />
+          ) : null}
+        </div>
+      </div>
+
+      <div className="flex justify-center gap-2">
+        <button
+          onClick={() => turn(-1)}
+          className="flex items-center gap-1 rounded-md border border-border bg-background px-3 py-2 text-sm font-medium transition-colors hover:bg-secondary"
+          type="button"
+        >
+          <RotateCcw className="h-4 w-4" />
+          Left
+        </button>
+        <button
+          onClick={() => turn(1)}
+          className="flex items-center gap-1 rounded-md border border-border bg-background px-3 py-2 text-sm font-medium transition-colors hover:bg-secondary"
+          type="button"
+        >
+          <RotateCw className="h-4 w-4" />
+          Right
+        </button>
+        <button
+          onClick={() => setRegion(FULL_PHOTO)}
+          className="flex items-center gap-1 rounded-md border border-border bg-background px-3 py-2 text-sm font-medium transition-colors hover:bg-secondary"
+          type="button"
+        >
+          <Maximize className="h-4 w-4" />
+          Whole photo
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onCancel}
+          className="rounded-md border border-border bg-background py-3 font-medium transition-colors hover:bg-secondary"
+          type="button"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm({ region, quarterTurns })}
+          className="rounded-md border border-primary bg-primary py-3 font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+          type="button"
+        >
+          Scan {isFullRegion(region) ? "Photo" : "Selection"}
+        </button>
+      </div>
+    </div>
+  )
+})
+
+ReceiptCropEditor.displayName = "ReceiptCropEditor"
+
+export default ReceiptCropEditor
@@ -0,0 +1,162 @@
+"use client"
+
+import { memo, useEffect, useRef, useState } from "react"
+import { ZoomIn, ZoomOut } from "lucide-react"
+import NextImage from "next/image"
+
+import type { OcrBox } from "@/lib/ocr-layout"
+import type { ReceiptAmountOption } from "@/lib/receipt-ocr"
+import { cn } from "@/lib/utils"
+
+interface ReceiptPreviewProps {
+  src: string
+  /** The amount picked as the total, boxed prominently. */
+  totalAmount: ReceiptAmountOption | null
+  alternativeAmounts: ReceiptAmountOption[]
+  /** The amount the view is zoomed to; tapping a box selects it. */
+  selectedAmount: ReceiptAmountOption | null
+  formatAmount: (value: number) => string
+  onAmountSelect: (amount: ReceiptAmountOption) => void
+}
+
+interface Size {
+  width: number
+  height: number
+}
+
+type BoxedAmount = ReceiptAmountOption & { bbox: OcrBox }
+
+const FOCUS_ZOOM = 2.5
+// Keeps boxes around small printed digits large enough to tap
+const BOX_PADDING_PX = 4
+
+const amountKey = (amount: ReceiptAmountOption) => `${amount.value}-${amount.lineIndex}`
+
+const hasBox = (amount: ReceiptAmountOption): amount is BoxedAmount => amount.bbox !== undefined
+
+const ReceiptPreview = memo(({
+  src,
+  totalAmount,
+  alternativeAmounts,
+  selectedAmount,
+  formatAmount,
+  onAmountSelect,
+}: ReceiptPreviewProps) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [containerSize, setContainerSize] = useState<Size | null>(null)
+  const [imageSize, setImageSize] = useState<Size | null>(null)
+  const [zoom, setZoom] = useState(selectedAmount?.bbox ? FOCUS_ZOOM : 1)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) {
+      return
+    }
+
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(container)
+
+    return () => observer.disconnect()
+  }, [])
+
+  const fitScale =
+    containerSize && imageSize
+      ? Math.min(containerSize.width / imageSize.width, containerSize.height / imageSize.height)
+      : null
+  const displayWidth = fitScale !== null && imageSize ? imageSize.width * fitScale * zoom : null
+  const displayHeight = fitScale !== null && imageSize ? imageSize.height * fitScale * zoom : null
+
+  useEffect(() => {
+    const container = containerRef.current
+    const bbox = selectedAmount?.bbox
+    if (!container || !bbox || displayWidth === null || displayHeight === null) {
+      return
+    }
+
+    container.scrollTo({
+      left: ((bbox.x0 + bbox.x1) / 2) * displayWidth - container.clientWidth / 2,
+      top: ((bbox.y0 + bbox.y1) / 2) * displayHeight - container.clientHeight / 2,
+      behavior: "smooth",
+    })
+  }, [selectedAmount, displayWidth, displayHeight])
+
+  const boxedAmounts = [...(totalAmount ? [totalAmount] : []), ...alternativeAmounts]
+    .filter(hasBox)
+    .filter((amount, index, amounts) => amounts.findIndex((other) => amountKey(other) === amountKey(amount)) === index)
+
+  const selectAmount = (amount: ReceiptAmountOption) => {
+    setZoom(FOCUS_ZOOM)
+    onAmountSelect(amount)
+  }
+
+  return (
+    <div className="relative">
+      <div ref={containerRef} className="h-96 w-full overflow-auto rounded-lg border border-border bg-secondary">
+        <div
+          className={cn("relative", displayWidth !== null ? "mx-auto" : "h-full w-full")}
+          style={
+            displayWidth !== null && displayHeight !== null ? { width: displayWidth, height: displayHeight } : undefined
+          }
+        >
+          <NextImage
+            src={src}
+            alt="Receipt preview"
+            fill
+            className="object-contain"
+            onLoad={(event) => {
+              const { naturalWidth, naturalHeight } = event.currentTarget
+              setImageSize({ width: naturalWidth, height: naturalHeight })
+            }}
+          />
+
+          {displayWidth !== null && displayHeight !== null
+            ? boxedAmounts.map((amount) => {
+                const { bbox } = amount
+                const isTotal = amount === totalAmount
+                const isSelected = selectedAmount !== null && amountKey(amount) === amountKey(selectedAmount)
+
+                return (
+                  <button
+                    key={amountKey(amount)}
+                    onClick={() => selectAmount(amount)}
+                    className={cn(
+                      "absolute rounded-sm border-2 transition-colors",
+                      isTotal ? "border-primary bg-primary/15" : "border-dashed border-yellow-500 bg-yellow-500/10",
+                      isSelected && "ring-2 ring-ring ring-offset-1"
+                    )}
+                    style={{
+                      left: bbox.x0 * displayWidth - BOX_PADDING_PX,
+                      top: bbox.y0 * displayHeight - BOX_PADDING_PX,
+                      width: (bbox.x1 - bbox.x0) * displayWidth + BOX_PADDING_PX * 2,
+                      height: (bbox.y1 - bbox.y0) * displayHeight + BOX_PADDING_PX * 2,
+                    }}
+                    title={amount.context}
+                    aria-label={`${isTotal ? "Detected total" : "Select"} ${formatAmount(amount.value)}`}
+                    aria-pressed={isSelected}
+                    type="button"
+                  />
+                )
+              })
+            : null}
+        </div>
+      </div>
+
+      {boxedAmounts.length > 0 ? (
+        <button
+          onClick={() => setZoom(zoom === 1 ? FOCUS_ZOOM : 1)}
+          className="absolute right-2 top-2 flex items-center gap-1 rounded-md border border-border bg-background/90 px-2 py-1 text-xs font-medium shadow-sm transition-colors hover:bg-secondary"
+          type="button"
+        >
+          {zoom === 1 ? <ZoomIn className="h-4 w-4" /> : <ZoomOut className="h-4 w-4" />}
+          {zoom === 1 ? "Zoom to amount" : "Whole receipt"}
+        </button>
+      ) : null}
+    </div>
+  )
+})
+
+ReceiptPreview.displayName = "ReceiptPreview"
+
+export default ReceiptPreview
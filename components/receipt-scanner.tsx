@@ -2,24 +2,44 @@
 
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { motion } from "framer-motion"
-import { AlertCircle, Camera, CheckCircle, Loader2, Upload, X } from "lucide-react"
+import { AlertCircle, Camera, CheckCircle, Crop, ImagePlus, Loader2, Upload, X } from "lucide-react"
 import NextImage from "next/image"
 
+import { formatMoney, type CurrencyCode } from "@/lib/currency"
+import { parseAmountInput } from "@/lib/number-utils"
+import type { ReceiptCrop } from "@/lib/receipt-crop"
+import { cleanReceiptText, htmlToReceiptText, importPdfReceipt, isPdfFile } from "@/lib/receipt-import"
+import type { ReceiptLanguage } from "@/lib/receipt-keywords"
 import {
+  extractAmountsFromText,
   getNoAmountErrorMessage,
   scanReceiptImage,
+  scanReceiptPhotos,
+  warmUpReceiptOcr,
   type ExtractedData,
   type ReceiptAmountOption,
+  type ReviewReason,
+  type ReceiptTotals,
 } from "@/lib/receipt-ocr"
+import { describeScoringSignal, type TotalScore } from "@/lib/total-scoring"
+import { cn } from "@/lib/utils"
+import ReceiptCamera from "./receipt-camera"
+import ReceiptCropEditor from "./receipt-crop-editor"
+import ReceiptPreview from "./receipt-preview"
 
 interface ReceiptScannerProps {
-  onAmountExtracted: (amount: number) => void
+  /** Currency used for display until the receipt suggests its own. */
+  currency: CurrencyCode
+  /** Languages the receipt is likely printed in. */
+  languages: ReceiptLanguage[]
+  onAmountExtracted: (totals: ReceiptTotals) => void
   onClose: () => void
 }
 
 interface AmountChoicesProps {
   title: string
   amounts: ReceiptAmountOption[]
+  formatAmount: (value: number) => string
   onAmountSelect: (amount: number) => void
   onManualEntry: () => void
 }
@@ -27,6 +47,7 @@ interface AmountChoicesProps {
 const AmountChoices = memo(({
   title,
   amounts,
+  formatAmount,
   onAmountSelect,
   onManualEntry,
 }: AmountChoicesProps) => {
@@ -46,7 +67,7 @@ const AmountChoices = memo(({
             title={amount.context}
             type="button"
           >
-            ${amount.value.toFixed(2)}
+            {formatAmount(amount.value)}
           </button>
         ))}
       </div>
@@ -63,159 +84,470 @@ const AmountChoices = memo(({
 
 AmountChoices.displayName = "AmountChoices"
 
-export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptScannerProps) {
+// Enough to say why without listing every small nudge
+const MAX_EXPLAINED_SIGNALS = 5
+
+const ScoreExplanation = memo(({ scoring }: { scoring: TotalScore }) => {
+  const contributions = [...scoring.contributions]
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+    .slice(0, MAX_EXPLAINED_SIGNALS)
+
+  return (
+    <details className="mt-2 text-sm text-muted-foreground">
+      <summary className="cursor-pointer select-none">Why this amount?</summary>
+      <ul className="mt-1 space-y-0.5">
+        {contributions.map((contribution) => (
+          <li key={contribution.signal} className="flex justify-between gap-4">
+            <span>{describeScoringSignal(contribution.signal)}</span>
+            <span
+              className={cn(
+                "font-mono tabular-nums",
+                contribution.points > 0 ? "text-green-600" : "text-yellow-600"
+              )}
+            >
+              {contribution.points > 0 ? "+" : "−"}
+              {Math.abs(contribution.points).toFixed(1)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  )
+})
+
+ScoreExplanation.displayName = "ScoreExplanation"
+
+// One column per amount shown, the total included
+const REVIEW_GRID_COLUMNS = ["grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4"]
+
+const REVIEW_REASON_TEXT: Record<ReviewReason, string> = {
+  "low-confidence": "The total was hard to read.",
+  "does-not-add-up": "The subtotal and tax don't add up to the total.",
+}
+
+interface ReceiptReviewProps {
+  data: ExtractedData
+  formatAmount: (value: number) => string
+  onConfirm: () => void
+  onManualEntry: () => void
+}
+
+const ReceiptReview = memo(({ data, formatAmount, onConfirm, onManualEntry }: ReceiptReviewProps) => {
+  const fields = [
+    { label: "Subtotal", value: data.subtotal },
+    { label: "Tax", value: data.tax },
+    { label: "Service", value: data.serviceCharge },
+    { label: "Total", value: data.amount },
+  ].filter((field): field is { label: string; value: number } => field.value !== null)
+
+  return (
+    <div className="space-y-3 rounded-md border border-yellow-500/50 p-4">
+      <div className="flex items-start gap-2 text-sm">
+        <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-500" />
+        <p>
+          {data.reviewReasons.map((reason) => REVIEW_REASON_TEXT[reason]).join(" ")} Check these against the receipt
+          before using them.
+        </p>
+      </div>
+      <dl className={cn("grid gap-2 text-center", REVIEW_GRID_COLUMNS[fields.length - 1])}>
+        {fields.map((field) => (
+          <div key={field.label} className="rounded-md bg-secondary p-2">
+            <dt className="text-xs text-muted-foreground">{field.label}</dt>
+            <dd className="font-mono text-sm font-semibold tabular-nums">{formatAmount(field.value)}</dd>
+          </div>
+        ))}
+      </dl>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onManualEntry}
+          className="rounded-md border border-border bg-background py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
+          type="button"
+        >
+          Enter a different amount
+        </button>
+        <button
+          onClick={onConfirm}
+          className="rounded-md border border-primary bg-primary py-2 text-sm font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+          type="button"
+        >
+          Matches the receipt
+        </button>
+      </div>
+    </div>
+  )
+})
+
+ReceiptReview.displayName = "ReceiptReview"
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () =>
+      typeof reader.result === "string" ? resolve(reader.result) : reject(new Error("Could not read image"))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error("Could not load image"))
+    img.src = url
+  })
+}
+
+export default function ReceiptScanner({ currency, languages, onAmountExtracted, onClose }: ReceiptScannerProps) {
   const [isProcessing, setIsProcessing] = useState(false)
   const [extractedData, setExtractedData] = useState<ExtractedData | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const [imagePreview, setImagePreview] = useState<string | null>(null)
+  /** One preview per photo of the receipt, top to bottom. */
+  const [imagePreviews, setImagePreviews] = useState<string[]>([])
+  const [previewPage, setPreviewPage] = useState(0)
+  /** Text of a pasted e-receipt or a PDF's text layer, read without OCR. */
+  const [importedText, setImportedText] = useState<string | null>(null)
   const [progress, setProgress] = useState(0)
+  /** Amount tapped on the preview; null means the detected total. */
+  const [selectedAmount, setSelectedAmount] = useState<ReceiptAmountOption | null>(null)
+  /** The scan whose flagged total is being checked against the receipt. */
+  const [reviewedData, setReviewedData] = useState<ExtractedData | null>(null)
+  const [crop, setCrop] = useState<ReceiptCrop | null>(null)
+  const [isCropping, setIsCropping] = useState(false)
+  const [cropBeforeScan, setCropBeforeScan] = useState(false)
+  /** Picking another photo of a long receipt to scan along with the ones before. */
+  const [isAddingPhotos, setIsAddingPhotos] = useState(false)
+  const [isCameraOpen, setIsCameraOpen] = useState(false)
+  /** Set once the live viewfinder fails, so Take Photo falls back to the camera app. */
+  const [isLiveCameraUnavailable, setIsLiveCameraUnavailable] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const cameraInputRef = useRef<HTMLInputElement>(null)
-  const requestIdRef = useRef(0)
+  const scanControllerRef = useRef<AbortController | null>(null)
+  /** The photos being scanned, kept so they can be cropped or added to and scanned again. */
+  const photoFilesRef = useRef<File[]>([])
+
+  useEffect(() => {
+    warmUpReceiptOcr(languages)
+  }, [languages])
 
   useEffect(() => {
     return () => {
-      requestIdRef.current += 1
+      scanControllerRef.current?.abort()
     }
   }, [])
 
   const resetScanState = useCallback(() => {
+    scanControllerRef.current?.abort()
+    photoFilesRef.current = []
+    setCrop(null)
+    setIsCropping(false)
+    setIsAddingPhotos(false)
     setExtractedData(null)
-    setImagePreview(null)
+    setSelectedAmount(null)
+    setImagePreviews([])
+    setPreviewPage(0)
+    setImportedText(null)
     setError(null)
     setProgress(0)
   }, [])
 
   const confirmAmount = useCallback(
     (amount: number) => {
-      onAmountExtracted(amount)
+      // The scanned breakdown only describes the detected total; any other amount is used on its own
+      const isDetectedTotal =
+        extractedData !== null && Math.round(amount * 100) === Math.round(extractedData.amount * 100)
+      onAmountExtracted({
+        total: amount,
+        subtotal: isDetectedTotal ? extractedData.subtotal : null,
+        tax: isDetectedTotal ? extractedData.tax : null,
+        serviceCharge: isDetectedTotal ? extractedData.serviceCharge : null,
+        serviceChargePercent: isDetectedTotal ? extractedData.serviceChargePercent : null,
+        lineItems: extractedData?.lineItems ?? [],
+        currency: extractedData?.currency ?? null,
+      })
       onClose()
     },
-    [onAmountExtracted, onClose]
+    [extractedData, onAmountExtracted, onClose]
   )
 
   const handleManualAmountEntry = useCallback(() => {
     const manualValue = prompt("Enter amount manually:")
-    const manualAmount = Number.parseFloat(manualValue || "0")
-    if (manualAmount > 0) {
+    const manualAmount = parseAmountInput(manualValue || "")
+    if (manualAmount !== null && manualAmount > 0) {
       confirmAmount(manualAmount)
     }
   }, [confirmAmount])
 
-  const processImage = useCallback(async (file: File) => {
-    const requestId = ++requestIdRef.current
-    let imageUrl: string | null = null
+  const processPhotos = useCallback(async (files: File[], nextCrop: ReceiptCrop | null) => {
+    scanControllerRef.current?.abort()
+    const scanController = new AbortController()
+    scanControllerRef.current = scanController
+    const { signal } = scanController
+    const imageUrls = files.map((file) => URL.createObjectURL(file))
 
     setIsProcessing(true)
+    setExtractedData(null)
+    setSelectedAmount(null)
     setError(null)
     setProgress(0)
 
-    const reader = new FileReader()
-    reader.onload = (event) => {
-      if (requestId !== requestIdRef.current) {
-        return
-      }
-
-      const { result } = event.target || {}
-      if (typeof result === "string") {
-        setImagePreview(result)
-      }
-    }
-    reader.readAsDataURL(file)
-
     try {
-      const img = new Image()
-      const localImageUrl = URL.createObjectURL(file)
-      imageUrl = localImageUrl
-
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve()
-        img.onerror = () => reject(new Error("Could not load image"))
-        img.src = localImageUrl
-      })
-
-      const result = await scanReceiptImage(img, {
-        shouldContinue: () => requestId === requestIdRef.current,
-        onProgress: (nextProgress) => {
-          if (requestId !== requestIdRef.current) {
-            return
-          }
+      const imgs = await Promise.all(imageUrls.map(loadImage))
 
-          setProgress(nextProgress)
-        },
-      })
+      const result =
+        imgs.length === 1
+          ? await scanReceiptImage(imgs[0], { languages, crop: nextCrop, signal, onProgress: setProgress })
+          : await scanReceiptPhotos(imgs, { languages, signal, onProgress: setProgress })
 
-      if (!result || requestId !== requestIdRef.current) {
+      if (!result || signal.aborted) {
         return
       }
 
       setExtractedData(result)
+      setSelectedAmount(null)
       setProgress(100)
 
-      const errorMessage = getNoAmountErrorMessage(result)
+      // Long receipts open on the photo with the total
+      const total = result.receipt.total
+      const totalPage = total
+        ? result.allAmounts.find((amount) => amount.lineIndex === total.lineIndex)?.page
+        : undefined
+      setPreviewPage(totalPage ?? 0)
+
+      const errorMessage = getNoAmountErrorMessage(result, result.currency ?? currency)
       if (errorMessage) {
         setError(errorMessage)
       }
     } catch (scanError) {
       console.error("OCR Error:", scanError)
-      if (requestId === requestIdRef.current) {
+      if (!signal.aborted) {
         setError("Could not process image. Try a different photo.")
       }
     } finally {
-      if (imageUrl) {
-        URL.revokeObjectURL(imageUrl)
-      }
+      imageUrls.forEach((url) => URL.revokeObjectURL(url))
 
-      if (requestId === requestIdRef.current) {
+      if (!signal.aborted) {
         setIsProcessing(false)
       }
     }
+  }, [currency, languages])
+
+  const selectPhotos = useCallback(
+    (files: File[]) => {
+      scanControllerRef.current?.abort()
+      photoFilesRef.current = files
+      setIsCameraOpen(false)
+      setIsAddingPhotos(false)
+      setCrop(null)
+      setImagePreviews([])
+      setPreviewPage(0)
+      setImportedText(null)
+
+      Promise.all(files.map(readAsDataUrl))
+        .then((previews) => {
+          // Photos picked in the meantime replace these
+          if (photoFilesRef.current === files) {
+            setImagePreviews(previews)
+          }
+        })
+        .catch((readError) => console.error("Preview Error:", readError))
+
+      // Crop regions belong to a single photo
+      if (cropBeforeScan && files.length === 1) {
+        setIsCropping(true)
+      } else {
+        processPhotos(files, null)
+      }
+    },
+    [cropBeforeScan, processPhotos]
+  )
+
+  const addPhotos = useCallback(
+    (files: File[]) => {
+      if (files.length > 0) {
+        selectPhotos(isAddingPhotos ? [...photoFilesRef.current, ...files] : files)
+      }
+    },
+    [isAddingPhotos, selectPhotos]
+  )
+
+  const readReceiptText = useCallback(
+    (text: string) => {
+      scanControllerRef.current?.abort()
+      photoFilesRef.current = []
+      setIsCameraOpen(false)
+      setIsAddingPhotos(false)
+      setIsCropping(false)
+      setIsProcessing(false)
+      setCrop(null)
+      setImagePreviews([])
+      setPreviewPage(0)
+
+      const result = extractAmountsFromText(text, { languages })
+      setImportedText(text)
+      setExtractedData(result)
+      setSelectedAmount(null)
+      setProgress(100)
+      setError(getNoAmountErrorMessage(result, result.currency ?? currency))
+    },
+    [currency, languages]
+  )
+
+  const importPdf = useCallback(
+    async (file: File) => {
+      scanControllerRef.current?.abort()
+      const importController = new AbortController()
+      scanControllerRef.current = importController
+      const { signal } = importController
+
+      setIsCameraOpen(false)
+      setIsAddingPhotos(false)
+      setImagePreviews([])
+      setImportedText(null)
+      setExtractedData(null)
+      setSelectedAmount(null)
+      setError(null)
+      setProgress(0)
+      setIsProcessing(true)
+
+      try {
+        const imported = await importPdfReceipt(file, signal)
+        if (!imported || signal.aborted) {
+          return
+        }
+
+        if (imported.kind === "text") {
+          readReceiptText(imported.text)
+        } else {
+          selectPhotos(imported.photos)
+        }
+      } catch (importError) {
+        console.error("PDF Error:", importError)
+        if (!signal.aborted) {
+          setIsProcessing(false)
+          setError("Could not read this PDF. Try a photo or screenshot of the receipt instead.")
+        }
+      }
+    },
+    [readReceiptText, selectPhotos]
+  )
+
+  const startAddingPhotos = useCallback(() => {
+    setIsAddingPhotos(true)
+  }, [])
+
+  const cancelAddingPhotos = useCallback(() => {
+    setIsCameraOpen(false)
+    setIsAddingPhotos(false)
   }, [])
 
+  const startCropping = useCallback(() => {
+    scanControllerRef.current?.abort()
+    setIsProcessing(false)
+    setExtractedData(null)
+    setSelectedAmount(null)
+    setError(null)
+    setIsCropping(true)
+  }, [])
+
+  const confirmCrop = useCallback(
+    (nextCrop: ReceiptCrop) => {
+      const files = photoFilesRef.current
+      if (files.length !== 1) {
+        return
+      }
+
+      setCrop(nextCrop)
+      setIsCropping(false)
+      processPhotos(files, nextCrop)
+    },
+    [processPhotos]
+  )
+
   const handleFileSelect = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0]
-      if (!file) {
-        return
+      const files = Array.from(event.target.files ?? [])
+      const pdfFile = files.find(isPdfFile)
+      if (pdfFile) {
+        importPdf(pdfFile)
+      } else {
+        addPhotos(files)
       }
 
-      processImage(file)
       event.target.value = ""
     },
-    [processImage]
+    [addPhotos, importPdf]
   )
 
   const handlePaste = useCallback(
     (event: React.ClipboardEvent) => {
-      const items = event.clipboardData?.items
-      if (!items) {
+      const { clipboardData } = event
+      if (!clipboardData) {
         return
       }
 
-      for (const item of items) {
+      for (const item of clipboardData.items) {
         if (!item.type.startsWith("image/")) {
           continue
         }
 
         const imageFile = item.getAsFile()
         if (imageFile) {
-          processImage(imageFile)
+          addPhotos([imageFile])
         }
 
         return
       }
+
+      // E-receipts copied from an email or web page
+      const html = clipboardData.getData("text/html")
+      const text = html ? htmlToReceiptText(html) : cleanReceiptText(clipboardData.getData("text/plain"))
+      if (text) {
+        readReceiptText(text)
+      }
+    },
+    [addPhotos, readReceiptText]
+  )
+
+  const openCamera = useCallback(() => {
+    if (isLiveCameraUnavailable || !navigator.mediaDevices?.getUserMedia) {
+      cameraInputRef.current?.click()
+      return
+    }
+
+    setIsCameraOpen(true)
+  }, [isLiveCameraUnavailable])
+
+  const handleCameraCapture = useCallback(
+    (photo: File) => {
+      addPhotos([photo])
     },
-    [processImage]
+    [addPhotos]
   )
 
-  const openCameraInput = useCallback(() => {
-    cameraInputRef.current?.click()
+  const closeCamera = useCallback(() => {
+    setIsCameraOpen(false)
+  }, [])
+
+  const handleCameraUnavailable = useCallback(() => {
+    setIsCameraOpen(false)
+    setIsLiveCameraUnavailable(true)
   }, [])
 
   const openFileInput = useCallback(() => {
     fileInputRef.current?.click()
   }, [])
 
+  const imagePreview = imagePreviews[previewPage] ?? null
+  const hasPhotos = imagePreviews.length > 0
+  const hasSeveralPhotos = imagePreviews.length > 1
+
+  const displayCurrency = extractedData?.currency ?? currency
+  const formatAmount = useCallback(
+    (value: number) => formatMoney(value, displayCurrency),
+    [displayCurrency]
+  )
+
   const suggestedAmounts = useMemo(() => {
     if (!extractedData) {
       return []
@@ -224,6 +556,24 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
     return extractedData.allAmounts.slice(0, 8)
   }, [extractedData])
 
+  const totalAmount = useMemo(() => {
+    if (!extractedData?.receipt.total) {
+      return null
+    }
+
+    const { lineIndex, value } = extractedData.receipt.total
+    return extractedData.allAmounts.find((amount) => amount.lineIndex === lineIndex && amount.value === value) ?? null
+  }, [extractedData])
+
+  const chosenAmount = selectedAmount ?? totalAmount
+  // Another amount the user picked themselves needs no review; tapping the detected total's own box still does
+  const picksOtherAmount =
+    selectedAmount !== null &&
+    extractedData !== null &&
+    Math.round(selectedAmount.value * 100) !== Math.round(extractedData.amount * 100)
+  const needsReview = extractedData !== null && extractedData.reviewReasons.length > 0 && !picksOtherAmount
+  const isReviewing = needsReview && reviewedData === extractedData
+
   const alternativeAmounts = useMemo(() => {
     if (!extractedData) {
       return []
@@ -234,6 +584,13 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
       .slice(0, 8)
   }, [extractedData])
 
+  // Boxes are drawn only on the photo they were read from
+  const isOnPreviewPage = (amount: ReceiptAmountOption | null) => amount !== null && (amount.page ?? 0) === previewPage
+  const previewAlternativeAmounts = useMemo(
+    () => alternativeAmounts.filter((amount) => (amount.page ?? 0) === previewPage),
+    [alternativeAmounts, previewPage]
+  )
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -262,10 +619,20 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
         </div>
 
         <div className="max-h-[calc(90vh-80px)] space-y-6 overflow-y-auto p-5 sm:p-6">
-          {!imagePreview && !isProcessing ? (
+          {isCameraOpen ? (
+            <ReceiptCamera
+              onCapture={handleCameraCapture}
+              onCancel={isAddingPhotos ? cancelAddingPhotos : closeCamera}
+              onUnavailable={handleCameraUnavailable}
+            />
+          ) : null}
+
+          {(isAddingPhotos || (!imagePreview && !isProcessing && !isCropping)) && !isCameraOpen ? (
             <div className="space-y-4">
               <p className="text-muted-foreground text-center">
-                Take a photo or upload an image of your receipt
+                {isAddingPhotos
+                  ? `Add the next part of the receipt, overlapping photo ${imagePreviews.length} by a few lines`
+                  : "Take a photo or upload an image of your receipt"}
               </p>
 
               <div className="rounded-md border border-border bg-secondary p-3">
@@ -294,7 +661,7 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
 
               <div className="grid grid-cols-2 gap-4">
                 <motion.button
-                  onClick={openCameraInput}
+                  onClick={openCamera}
                   className="flex flex-col items-center gap-3 rounded-md border border-border bg-background p-6 transition-colors hover:bg-secondary"
                   type="button"
                 >
@@ -308,14 +675,40 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
                   type="button"
                 >
                   <Upload className="h-10 w-10 text-foreground" />
-                  <span className="font-semibold">Upload Image</span>
+                  <span className="font-semibold">Upload Image or PDF</span>
                 </motion.button>
               </div>
 
+              {isLiveCameraUnavailable ? (
+                <p className="text-sm text-muted-foreground text-center">
+                  The live camera isn&apos;t available here, so Take Photo opens your camera app instead.
+                </p>
+              ) : null}
+
               <p className="text-sm text-muted-foreground text-center">
-                or press ⌘V / Ctrl+V to paste an image
+                or press ⌘V / Ctrl+V to paste an image or the text of an e-receipt. Long receipts can be uploaded as several photos.
               </p>
 
+              {isAddingPhotos ? (
+                <button
+                  onClick={cancelAddingPhotos}
+                  className="w-full rounded-md border border-border bg-background py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
+                  type="button"
+                >
+                  Cancel
+                </button>
+              ) : (
+                <label className="flex items-center justify-center gap-2 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={cropBeforeScan}
+                    onChange={(event) => setCropBeforeScan(event.target.checked)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  Crop or rotate before scanning
+                </label>
+              )}
+
               <input
                 ref={cameraInputRef}
                 type="file"
@@ -327,13 +720,23 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
+                accept="image/*,application/pdf"
+                multiple
                 onChange={handleFileSelect}
                 className="hidden"
               />
             </div>
           ) : null}
 
+          {isCropping && imagePreview ? (
+            <ReceiptCropEditor
+              src={imagePreview}
+              initialCrop={crop}
+              onConfirm={confirmCrop}
+              onCancel={resetScanState}
+            />
+          ) : null}
+
           {isProcessing ? (
             <div className="space-y-4">
               <div className="flex flex-col items-center gap-4">
@@ -367,23 +770,50 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
             </div>
           ) : null}
 
-          {extractedData && !isProcessing ? (
+          {extractedData && !isProcessing && !isAddingPhotos ? (
             <div className="space-y-6">
-              {imagePreview ? (
-                <div className="relative w-full h-96">
-                  <NextImage
-                    src={imagePreview}
-                    alt="Receipt preview"
-                    fill
-                    className="object-contain rounded-lg"
-                  />
+              {hasSeveralPhotos ? (
+                <div className="flex justify-center gap-2">
+                  {imagePreviews.map((_, page) => (
+                    <button
+                      key={page}
+                      onClick={() => setPreviewPage(page)}
+                      className={cn(
+                        "rounded-md border px-3 py-1 text-sm font-medium transition-colors",
+                        page === previewPage
+                          ? "border-primary bg-primary text-primary-foreground"
+                          : "border-border bg-background hover:bg-secondary"
+                      )}
+                      type="button"
+                    >
+                      Photo {page + 1}
+                    </button>
+                  ))}
                 </div>
               ) : null}
 
+              {imagePreview ? (
+                <ReceiptPreview
+                  key={previewPage}
+                  src={imagePreview}
+                  totalAmount={isOnPreviewPage(totalAmount) ? totalAmount : null}
+                  alternativeAmounts={previewAlternativeAmounts}
+                  selectedAmount={isOnPreviewPage(chosenAmount) ? chosenAmount : null}
+                  formatAmount={formatAmount}
+                  onAmountSelect={setSelectedAmount}
+                />
+              ) : null}
+
+              {importedText && !imagePreview ? (
+                <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded-md border border-border bg-secondary p-3 font-mono text-xs text-muted-foreground">
+                  {importedText}
+                </pre>
+              ) : null}
+
               <div className="space-y-4">
                 <div className="flex items-center gap-2">
                   <h3 className="text-lg font-semibold">Extracted Amount</h3>
-                  {extractedData.confidence > 0.7 ? (
+                  {extractedData.reviewReasons.length === 0 ? (
                     <CheckCircle className="h-5 w-5 text-green-500" />
                   ) : (
                     <AlertCircle className="h-5 w-5 text-yellow-500" />
@@ -396,21 +826,86 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
                       <p className="text-sm text-muted-foreground mb-1">
                         Detected Total ({Math.round(extractedData.confidence * 100)}% confidence)
                       </p>
-                      <p className="font-mono text-3xl font-semibold tabular-nums">${extractedData.amount.toFixed(2)}</p>
+                      <p className="font-mono text-3xl font-semibold tabular-nums">{formatAmount(extractedData.amount)}</p>
+                      {extractedData.receipt.merchant || extractedData.receipt.date ? (
+                        <p className="mt-1 text-sm text-muted-foreground">
+                          {[extractedData.receipt.merchant?.value, extractedData.receipt.date?.value]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      ) : null}
+                      {extractedData.subtotal !== null ||
+                      extractedData.tax !== null ||
+                      extractedData.serviceCharge !== null ? (
+                        <div className="mt-2 flex gap-4 text-sm text-muted-foreground">
+                          {extractedData.subtotal !== null ? (
+                            <span>
+                              Subtotal{" "}
+                              <span className="font-mono tabular-nums">{formatAmount(extractedData.subtotal)}</span>
+                            </span>
+                          ) : null}
+                          {extractedData.tax !== null ? (
+                            <span>
+                              Tax <span className="font-mono tabular-nums">{formatAmount(extractedData.tax)}</span>
+                            </span>
+                          ) : null}
+                          {extractedData.serviceCharge !== null ? (
+                            <span>
+                              Service{" "}
+                              <span className="font-mono tabular-nums">{formatAmount(extractedData.serviceCharge)}</span>
+                            </span>
+                          ) : null}
+                        </div>
+                      ) : null}
+                      {extractedData.lineItems.length > 0 ? (
+                        <p className="mt-1 text-sm text-muted-foreground">
+                          {extractedData.lineItems.length} line{" "}
+                          {extractedData.lineItems.length === 1 ? "item" : "items"} available for splitting by item
+                        </p>
+                      ) : null}
+                      {extractedData.receipt.reconciliation?.misreads.slice(0, 2).map((misread) => (
+                        <p
+                          key={`${misread.lineIndex}:${misread.correctedValue}`}
+                          className="mt-1 flex items-center gap-1 text-sm text-yellow-600"
+                        >
+                          <AlertCircle className="h-4 w-4 shrink-0" />
+                          Double-check {formatAmount(misread.readValue)}: the receipt adds up if it is{" "}
+                          {formatAmount(misread.correctedValue)}
+                        </p>
+                      ))}
+                      {chosenAmount?.scoring ? <ScoreExplanation scoring={chosenAmount.scoring} /> : null}
                     </div>
 
-                    <motion.button
-                      onClick={() => confirmAmount(extractedData.amount)}
-                      className="w-full rounded-md border border-primary bg-primary py-3 font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
-                      type="button"
-                    >
-                      Use This Amount
-                    </motion.button>
+                    {isReviewing ? (
+                      <ReceiptReview
+                        data={extractedData}
+                        formatAmount={formatAmount}
+                        onConfirm={() => confirmAmount(extractedData.amount)}
+                        onManualEntry={handleManualAmountEntry}
+                      />
+                    ) : (
+                      <motion.button
+                        onClick={() =>
+                          needsReview
+                            ? setReviewedData(extractedData)
+                            : confirmAmount(chosenAmount?.value ?? extractedData.amount)
+                        }
+                        className="w-full rounded-md border border-primary bg-primary py-3 font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+                        type="button"
+                      >
+                        {selectedAmount && picksOtherAmount
+                          ? `Use ${formatAmount(selectedAmount.value)}`
+                          : needsReview
+                            ? "Review Amount"
+                            : "Use This Amount"}
+                      </motion.button>
+                    )}
 
                     {alternativeAmounts.length > 0 ? (
                       <AmountChoices
                         title="Other amounts found:"
                         amounts={alternativeAmounts}
+                        formatAmount={formatAmount}
                         onAmountSelect={confirmAmount}
                         onManualEntry={handleManualAmountEntry}
                       />
@@ -422,21 +917,59 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
                     <p className="text-muted-foreground">
                       Could not detect a total amount. Please try again with a clearer image.
                     </p>
+                    {selectedAmount ? (
+                      <button
+                        onClick={() => confirmAmount(selectedAmount.value)}
+                        className="w-full rounded-md border border-primary bg-primary py-3 font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+                        type="button"
+                      >
+                        Use {formatAmount(selectedAmount.value)}
+                      </button>
+                    ) : extractedData.allAmounts.some((amount) => amount.bbox) ? (
+                      <p className="text-sm text-muted-foreground">Or tap an amount on the receipt.</p>
+                    ) : null}
                   </div>
                 )}
 
-                <button
-                  onClick={resetScanState}
-                  className="w-full rounded-md border border-border bg-background py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
-                  type="button"
+                <div
+                  className={cn(
+                    "grid gap-3",
+                    !hasPhotos ? "grid-cols-1" : hasSeveralPhotos ? "grid-cols-2" : "grid-cols-3"
+                  )}
                 >
-                  Try Another Image
-                </button>
+                  {hasPhotos ? (
+                    <button
+                      onClick={startAddingPhotos}
+                      className="flex items-center justify-center gap-1 rounded-md border border-border bg-background py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
+                      type="button"
+                    >
+                      <ImagePlus className="h-4 w-4" />
+                      Add Photo
+                    </button>
+                  ) : null}
+                  {hasPhotos && !hasSeveralPhotos ? (
+                    <button
+                      onClick={startCropping}
+                      className="flex items-center justify-center gap-1 rounded-md border border-border bg-background py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
+                      type="button"
+                    >
+                      <Crop className="h-4 w-4" />
+                      Crop & Rescan
+                    </button>
+                  ) : null}
+                  <button
+                    onClick={resetScanState}
+                    className="rounded-md border border-border bg-background py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
+                    type="button"
+                  >
+                    Try Another Image
+                  </button>
+                </div>
               </div>
             </div>
           ) : null}
 
-          {error ? (
+          {error && !isAddingPhotos ? (
             <div className="text-center space-y-4">
               <AlertCircle className="h-12 w-12 text-destructive mx-auto" />
               <p className="text-destructive">{error}</p>
@@ -445,18 +978,41 @@ export default function ReceiptScanner({ onAmountExtracted, onClose }: ReceiptSc
                 <AmountChoices
                   title={suggestedAmounts.length === 1 ? "Use this amount:" : "Other amounts found:"}
                   amounts={suggestedAmounts}
+                  formatAmount={formatAmount}
                   onAmountSelect={confirmAmount}
                   onManualEntry={handleManualAmountEntry}
                 />
               ) : null}
 
-              <button
-                onClick={resetScanState}
-                className="rounded-md border border-border bg-background px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
-                type="button"
-              >
-                Try Again
-              </button>
+              <div className="flex flex-wrap justify-center gap-3">
+                {imagePreview ? (
+                  <button
+                    onClick={startAddingPhotos}
+                    className="flex items-center gap-1 rounded-md border border-border bg-background px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
+                    type="button"
+                  >
+                    <ImagePlus className="h-4 w-4" />
+                    Add Photo
+                  </button>
+                ) : null}
+                {imagePreview && !hasSeveralPhotos ? (
+                  <button
+                    onClick={startCropping}
+                    className="flex items-center gap-1 rounded-md border border-border bg-background px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
+                    type="button"
+                  >
+                    <Crop className="h-4 w-4" />
+                    Crop & Rescan
+                  </button>
+                ) : null}
+                <button
+                  onClick={resetScanState}
+                  className="rounded-md border border-border bg-background px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-secondary"
+                  type="button"
+                >
+                  Try Again
+                </button>
+              </div>
             </div>
           ) : null}
         </div>
@@ -1,25 +1,91 @@
 "use client"
 
 import dynamic from "next/dynamic"
-import { useCallback, useEffect, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { DollarSign, Users, Percent, Copy, Moon, Sun, ScanLine, Minus, Plus } from "lucide-react"
+import { Users, Percent, Copy, Moon, Sun, ScanLine, Minus, Plus, X, AlertTriangle } from "lucide-react"
+import {
+  calculateBill,
+  fromCents,
+  ROUNDING_INCREMENTS,
+  summarizeShares,
+  type RoundingMode,
+  type RoundingTarget,
+} from "@/lib/bill-calculator"
+import { splitBill, splitByItems } from "@/lib/bill-split"
+import {
+  DEFAULT_CURRENCY,
+  formatMinorUnits,
+  getMinorUnitDigits,
+  isCurrencyCode,
+  SUPPORTED_CURRENCIES,
+  type CurrencyCode,
+} from "@/lib/currency"
+import { parseAmountInput } from "@/lib/number-utils"
+import type { ReceiptTotals } from "@/lib/receipt-ocr"
+import {
+  DEFAULT_REGION,
+  isRegionCode,
+  MAX_TIP_PRESETS,
+  parseTipPresets,
+  sanitizeTipPresets,
+  TIPPING_CONVENTIONS,
+  type RegionCode,
+} from "@/lib/tipping-conventions"
 import { cn } from "@/lib/utils"
+import LineItemEditor, { toLineItem, type LineItemDraft } from "./line-item-editor"
+import CurrencyInput, { formatAmountInput } from "./currency-input"
+import ParticipantEditor, { toParticipant, type ParticipantDraft } from "./participant-editor"
 
-type RoundingMode = "none" | "up" | "down"
+type SplitMode = "equal" | "custom" | "itemized"
+
+const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: "Equal",
+  custom: "Custom shares",
+  itemized: "By item",
+}
 
-const TIP_PRESETS = [10, 15, 18, 20, 25] as const
 const PEOPLE_PRESETS = [1, 2, 3, 4] as const
 
+interface RoundingPreference {
+  mode: RoundingMode
+  increment: number
+  target: RoundingTarget
+}
+
+const DEFAULT_ROUNDING: RoundingPreference = { mode: "none", increment: 100, target: "per-person" }
+
+const ROUNDING_MODE_OPTIONS: { mode: RoundingMode; label: string; hint: string }[] = [
+  { mode: "none", label: "None", hint: "¢.99" },
+  { mode: "up", label: "Up", hint: "↑" },
+  { mode: "nearest", label: "Nearest", hint: "↕" },
+  { mode: "down", label: "Down", hint: "↓" },
+]
+
+const ROUNDING_TARGET_LABELS: Record<RoundingTarget, string> = {
+  "per-person": "Per person",
+  total: "Total",
+  tip: "Tip only",
+}
+
 const STORAGE_KEYS = {
   darkMode: "tip-calculator:dark-mode",
-  roundingMode: "tip-calculator:rounding-mode:v1",
+  roundingMode: "tip-calculator:rounding-mode:v2",
+  legacyRoundingMode: "tip-calculator:rounding-mode:v1",
+  tipOnPreTax: "tip-calculator:tip-on-pre-tax:v1",
+  currency: "tip-calculator:currency:v1",
+  region: "tip-calculator:region:v1",
+  tipPresets: "tip-calculator:tip-presets:v1",
 } as const
 
-const applyRounding = (amount: number, roundingMode: RoundingMode) => {
-  if (roundingMode === "up") return Math.ceil(amount)
-  if (roundingMode === "down") return Math.floor(amount)
-  return amount
+type CustomTipPresets = Partial<Record<RegionCode, number[]>>
+
+/** A currency offered instead of applied, so a currency the user picked is never replaced. */
+interface CurrencySuggestion {
+  currency: CurrencyCode
+  reason: string
+  /** Scanned amounts, filled in again with the suggested currency's decimals when it is accepted. */
+  totals?: ReceiptTotals
 }
 
 const getStoredDarkMode = () => {
@@ -34,19 +100,114 @@ const getStoredDarkMode = () => {
   return savedValue === "true"
 }
 
-const getStoredRoundingMode = (): RoundingMode => {
+const isRoundingMode = (value: unknown): value is RoundingMode =>
+  ROUNDING_MODE_OPTIONS.some((option) => option.mode === value)
+
+const isRoundingTarget = (value: unknown): value is RoundingTarget =>
+  typeof value === "string" && Object.hasOwn(ROUNDING_TARGET_LABELS, value)
+
+const parseRoundingPreference = (savedValue: string): RoundingPreference | null => {
+  try {
+    const parsed: Partial<RoundingPreference> = JSON.parse(savedValue)
+    if (!isRoundingMode(parsed.mode)) {
+      return null
+    }
+
+    return {
+      mode: parsed.mode,
+      increment: ROUNDING_INCREMENTS.some((increment) => increment === parsed.increment)
+        ? (parsed.increment as number)
+        : DEFAULT_ROUNDING.increment,
+      target: isRoundingTarget(parsed.target) ? parsed.target : DEFAULT_ROUNDING.target,
+    }
+  } catch {
+    return null
+  }
+}
+
+const getStoredRounding = (): RoundingPreference => {
   if (typeof window === "undefined") {
-    return "none"
+    return DEFAULT_ROUNDING
   }
 
-  const savedMode =
-    window.localStorage.getItem(STORAGE_KEYS.roundingMode) ??
+  const savedValue = window.localStorage.getItem(STORAGE_KEYS.roundingMode)
+  const savedPreference = savedValue ? parseRoundingPreference(savedValue) : null
+  if (savedPreference) {
+    return savedPreference
+  }
+
+  // v1 stored only the mode, which always rounded each share to whole units
+  const legacyMode =
+    window.localStorage.getItem(STORAGE_KEYS.legacyRoundingMode) ??
     window.localStorage.getItem("roundingMode")
-  if (savedMode === "none" || savedMode === "up" || savedMode === "down") {
-    return savedMode
+  if (isRoundingMode(legacyMode)) {
+    return { ...DEFAULT_ROUNDING, mode: legacyMode }
+  }
+
+  return DEFAULT_ROUNDING
+}
+
+const getStoredTipOnPreTax = () => {
+  if (typeof window === "undefined") {
+    return false
+  }
+
+  return window.localStorage.getItem(STORAGE_KEYS.tipOnPreTax) === "true"
+}
+
+const formatShareGroups = (shares: number[], formatAmount: (minorUnits: number) => string) =>
+  summarizeShares(shares)
+    .map(({ cents, count }) => `${count} × ${formatAmount(cents)}`)
+    .join(", ")
+
+const createParticipantDraft = (id: number): ParticipantDraft => ({
+  id: `participant-${id}`,
+  name: "",
+  shareKind: "weight",
+  shareValue: "1",
+})
+
+const getStoredCurrency = (): CurrencyCode => {
+  if (typeof window === "undefined") {
+    return DEFAULT_CURRENCY
+  }
+
+  const savedCurrency = window.localStorage.getItem(STORAGE_KEYS.currency)
+  return isCurrencyCode(savedCurrency) ? savedCurrency : DEFAULT_CURRENCY
+}
+
+const getStoredRegion = (): RegionCode => {
+  if (typeof window === "undefined") {
+    return DEFAULT_REGION
+  }
+
+  const savedRegion = window.localStorage.getItem(STORAGE_KEYS.region)
+  return isRegionCode(savedRegion) ? savedRegion : DEFAULT_REGION
+}
+
+const getStoredTipPresets = (): CustomTipPresets => {
+  if (typeof window === "undefined") {
+    return {}
   }
 
-  return "none"
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEYS.tipPresets) ?? "{}")
+    if (typeof parsed !== "object" || parsed === null) {
+      return {}
+    }
+
+    const presets: CustomTipPresets = {}
+    for (const [region, values] of Object.entries(parsed)) {
+      const sanitized = Array.isArray(values) ? sanitizeTipPresets(values) : null
+      if (isRegionCode(region) && sanitized) {
+        presets[region] = sanitized
+      }
+    }
+
+    return presets
+  } catch {
+    return {}
+  }
 }
 
 const ReceiptScanner = dynamic(() => import("./receipt-scanner"), {
@@ -55,24 +216,72 @@ const ReceiptScanner = dynamic(() => import("./receipt-scanner"), {
 
 export default function TipCalculator() {
   const [billAmount, setBillAmount] = useState("")
-  const [tipPercent, setTipPercent] = useState(15)
+  const [subtotalAmount, setSubtotalAmount] = useState("")
+  const [taxAmount, setTaxAmount] = useState("")
+  const [tipOnPreTax, setTipOnPreTax] = useState(getStoredTipOnPreTax)
+  const [hasServiceCharge, setHasServiceCharge] = useState(false)
+  const [serviceChargeAmount, setServiceChargeAmount] = useState("")
+  const [serviceChargePercent, setServiceChargePercent] = useState<number | null>(null)
+  const [tipIncludesServiceCharge, setTipIncludesServiceCharge] = useState(false)
+  const [region, setRegion] = useState<RegionCode>(getStoredRegion)
+  const [customTipPresets, setCustomTipPresets] = useState<CustomTipPresets>(getStoredTipPresets)
+  const [presetDraft, setPresetDraft] = useState<string | null>(null)
+  const [tipPercent, setTipPercent] = useState(() => TIPPING_CONVENTIONS[getStoredRegion()].defaultTip)
   const [customTip, setCustomTip] = useState("")
   const [numberOfPeople, setNumberOfPeople] = useState(1)
+  const [splitMode, setSplitMode] = useState<SplitMode>("equal")
+  const [participants, setParticipants] = useState(() => [createParticipantDraft(1), createParticipantDraft(2)])
+  const nextParticipantIdRef = useRef(3)
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([])
+  const nextLineItemIdRef = useRef(1)
   const [darkMode, setDarkMode] = useState(getStoredDarkMode)
-  const [roundingMode, setRoundingMode] = useState<RoundingMode>(getStoredRoundingMode)
+  const [currency, setCurrency] = useState<CurrencyCode>(getStoredCurrency)
+  const [suggestedCurrency, setSuggestedCurrency] = useState<CurrencySuggestion | null>(null)
+  const [rounding, setRounding] = useState<RoundingPreference>(getStoredRounding)
   const [showScanner, setShowScanner] = useState(false)
 
   // Calculations
-  const bill = parseFloat(billAmount) || 0
-  const tip = customTip ? parseFloat(customTip) : tipPercent
-  const tipAmount = bill * (tip / 100)
-  const totalAmount = bill + tipAmount
-  const perPersonAmount = totalAmount / numberOfPeople
+  const convention = TIPPING_CONVENTIONS[region]
+  const tipPresets = customTipPresets[region] ?? convention.presets
+  const presetDraftIsValid = presetDraft === null || parseTipPresets(presetDraft) !== null
+  const minorUnitDigits = getMinorUnitDigits(currency)
+  const formatAmount = (minorUnits: number) => formatMinorUnits(minorUnits, currency)
+  const tip = customTip ? parseFloat(customTip) || 0 : tipPercent
+  // Known tax is always passed on so uneven splits can share it, even when the tip is on the full bill
+  const tax = parseAmountInput(taxAmount) ?? 0
+  const serviceCharge = hasServiceCharge ? parseAmountInput(serviceChargeAmount) ?? 0 : 0
+  const isEqualSplit = splitMode === "equal"
+  const breakdown = calculateBill({
+    billAmount: tipOnPreTax
+      ? (parseAmountInput(subtotalAmount) ?? 0) + tax + serviceCharge
+      : parseAmountInput(billAmount) ?? 0,
+    taxAmount: tax,
+    tipOnPreTax,
+    serviceChargeAmount: serviceCharge,
+    tipPercent: tip,
+    tipIncludesServiceCharge,
+    numberOfPeople: isEqualSplit ? numberOfPeople : participants.length,
+    // Rounding each share only makes sense when everyone pays the same share
+    roundingMode: isEqualSplit || rounding.target !== "per-person" ? rounding.mode : "none",
+    roundingIncrement: rounding.increment,
+    roundingTarget: rounding.target,
+    minorUnitDigits,
+  })
+  const splitParticipants = useMemo(() => participants.map(toParticipant), [participants])
+  const unevenSplit =
+    splitMode === "custom"
+      ? splitBill(breakdown, splitParticipants)
+      : splitMode === "itemized"
+        ? splitByItems(breakdown, splitParticipants, lineItems.map(toLineItem))
+        : null
 
-  const finalPerPerson = applyRounding(perPersonAmount, roundingMode)
-  const finalTotal = finalPerPerson * numberOfPeople
-  const finalTipAmount = finalTotal - bill
-  const finalTipPerPerson = finalTipAmount / numberOfPeople
+  const bill = fromCents(breakdown.billCents, minorUnitDigits)
+  const hasUnevenCents = summarizeShares(breakdown.perPersonShares).length > 1
+  const isDoubleTipping = breakdown.serviceChargeCents > 0 && !tipIncludesServiceCharge && tip > 0
+  const serviceChargeLabel =
+    serviceChargePercent !== null
+      ? `${serviceChargePercent}% service charge (${formatAmount(breakdown.serviceChargeCents)})`
+      : `${formatAmount(breakdown.serviceChargeCents)} service charge`
 
   // Dark mode effect
   useEffect(() => {
@@ -82,32 +291,175 @@ export default function TipCalculator() {
 
   // Save preferences to localStorage
   useEffect(() => {
-    window.localStorage.setItem(STORAGE_KEYS.roundingMode, roundingMode)
-  }, [roundingMode])
+    window.localStorage.setItem(STORAGE_KEYS.roundingMode, JSON.stringify(rounding))
+  }, [rounding])
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEYS.tipOnPreTax, tipOnPreTax.toString())
+  }, [tipOnPreTax])
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEYS.currency, currency)
+  }, [currency])
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEYS.region, region)
+  }, [region])
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEYS.tipPresets, JSON.stringify(customTipPresets))
+  }, [customTipPresets])
 
   const closeScanner = useCallback(() => {
     setShowScanner(false)
   }, [])
 
-  const handleAmountExtracted = useCallback((amount: number) => {
-    setBillAmount(amount.toFixed(2))
+  // Amounts are written with the decimals of the currency they are entered in
+  const fillScannedAmounts = useCallback((totals: ReceiptTotals, digits: number) => {
+    const scannedTax = totals.tax ?? 0
+    const scannedServiceCharge = totals.serviceCharge ?? 0
+
+    setBillAmount(formatAmountInput(totals.total, digits))
+    setSubtotalAmount(formatAmountInput(totals.subtotal ?? totals.total - scannedTax - scannedServiceCharge, digits))
+    setTaxAmount(totals.tax !== null ? formatAmountInput(totals.tax, digits) : "")
+    setServiceChargeAmount(totals.serviceCharge !== null ? formatAmountInput(totals.serviceCharge, digits) : "")
+    if (totals.lineItems.length > 0) {
+      setLineItems(
+        totals.lineItems.map((item) => ({
+          id: `item-${nextLineItemIdRef.current++}`,
+          description: item.description,
+          price: formatAmountInput(item.price, digits),
+          assignedTo: [],
+        }))
+      )
+    }
+  }, [])
+
+  const handleAmountExtracted = useCallback((totals: ReceiptTotals) => {
+    fillScannedAmounts(totals, getMinorUnitDigits(currency))
+    setHasServiceCharge(totals.serviceCharge !== null)
+    setServiceChargePercent(totals.serviceChargePercent)
+    setTipIncludesServiceCharge(false)
+    setSuggestedCurrency(
+      totals.currency && totals.currency !== currency
+        ? { currency: totals.currency, reason: `This receipt looks like it is in ${totals.currency}.`, totals }
+        : null
+    )
     setShowScanner(false)
+  }, [currency, fillScannedAmounts])
+
+  const addParticipant = useCallback(() => {
+    const id = nextParticipantIdRef.current++
+    setParticipants((current) => [...current, createParticipantDraft(id)])
   }, [])
 
+  const updateParticipant = useCallback(
+    (id: string, changes: Partial<Omit<ParticipantDraft, "id">>) => {
+      setParticipants((current) =>
+        current.map((participant) => (participant.id === id ? { ...participant, ...changes } : participant))
+      )
+    },
+    []
+  )
+
+  const removeParticipant = useCallback((id: string) => {
+    setParticipants((current) =>
+      current.length > 1 ? current.filter((participant) => participant.id !== id) : current
+    )
+  }, [])
+
+  const addLineItem = useCallback(() => {
+    const id = nextLineItemIdRef.current++
+    setLineItems((current) => [...current, { id: `item-${id}`, description: "", price: "", assignedTo: [] }])
+  }, [])
+
+  const updateLineItem = useCallback((id: string, changes: Partial<Omit<LineItemDraft, "id">>) => {
+    setLineItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)))
+  }, [])
+
+  const removeLineItem = useCallback((id: string) => {
+    setLineItems((current) => current.filter((item) => item.id !== id))
+  }, [])
+
+  const changeTipOnPreTax = (nextTipOnPreTax: boolean) => {
+    // Carry the amount already typed over to the field that is about to show
+    if (nextTipOnPreTax && !tipOnPreTax && !subtotalAmount && billAmount) {
+      setSubtotalAmount(billAmount)
+    }
+
+    if (!nextTipOnPreTax && tipOnPreTax && !billAmount && bill > 0) {
+      setBillAmount(formatAmountInput(bill, minorUnitDigits))
+    }
+
+    setTipOnPreTax(nextTipOnPreTax)
+  }
+
+  const changeRegion = (nextRegion: RegionCode) => {
+    const nextConvention = TIPPING_CONVENTIONS[nextRegion]
+
+    setRegion(nextRegion)
+    setTipPercent(nextConvention.defaultTip)
+    setCustomTip("")
+    setPresetDraft(null)
+    changeTipOnPreTax(nextConvention.tipOnPreTax)
+    setSuggestedCurrency(
+      nextConvention.currency !== currency
+        ? {
+            currency: nextConvention.currency,
+            reason: `Bills in ${nextConvention.name} are usually in ${nextConvention.currency}.`,
+          }
+        : null
+    )
+  }
+
+  const savePresetDraft = () => {
+    const presets = presetDraft === null ? null : parseTipPresets(presetDraft)
+    if (!presets) {
+      return
+    }
+
+    setCustomTipPresets((current) => ({ ...current, [region]: presets }))
+    setPresetDraft(null)
+  }
+
+  const resetTipPresets = () => {
+    setCustomTipPresets((current) => {
+      const next = { ...current }
+      delete next[region]
+      return next
+    })
+    setPresetDraft(null)
+  }
+
   const copyToClipboard = () => {
-    const text = `Bill: $${bill.toFixed(2)}
-Tip (${tip}%): $${finalTipAmount.toFixed(2)}
-Total: $${finalTotal.toFixed(2)}
-Split ${numberOfPeople} ways: $${finalPerPerson.toFixed(2)} each`
-    
-    navigator.clipboard.writeText(text)
+    const tipLabel = tipOnPreTax ? `${tip}% of ${formatAmount(breakdown.tipBaseCents)} pre-tax` : `${tip}%`
+    const serviceChargeText =
+      breakdown.serviceChargeCents > 0 ? `Service charge (included): ${formatAmount(breakdown.serviceChargeCents)}\n` : ""
+    const text = `Bill: ${formatAmount(breakdown.billCents)}
+${serviceChargeText}Tip (${tipLabel}): ${formatAmount(breakdown.tipCents)}
+Total: ${formatAmount(breakdown.totalCents)}`
+    const splitText = unevenSplit
+      ? unevenSplit.shares.map((share) => `${share.name}: ${formatAmount(share.totalCents)}`).join("\n")
+      : hasUnevenCents
+        ? `Split ${numberOfPeople} ways: ${formatShareGroups(breakdown.perPersonShares, formatAmount)}`
+        : `Split ${numberOfPeople} ways: ${formatAmount(breakdown.perPersonCents)} each`
+
+    navigator.clipboard.writeText(`${text}\n${splitText}`)
   }
 
   const clearAll = () => {
     setBillAmount("")
-    setTipPercent(15)
+    setSubtotalAmount("")
+    setTaxAmount("")
+    setLineItems([])
+    setHasServiceCharge(false)
+    setServiceChargeAmount("")
+    setServiceChargePercent(null)
+    setTipIncludesServiceCharge(false)
+    setTipPercent(convention.defaultTip)
     setCustomTip("")
     setNumberOfPeople(1)
+    setSuggestedCurrency(null)
   }
 
   return (
@@ -123,13 +475,30 @@ Split ${numberOfPeople} ways: $${finalPerPerson.toFixed(2)} each`
             <h1 className="text-3xl font-semibold tracking-tight sm:text-4xl">
               Tip Calculator
             </h1>
-            <button
-              onClick={() => setDarkMode((current) => !current)}
-              className="flex h-10 w-10 items-center justify-center rounded-md border border-border bg-background transition-colors hover:bg-secondary"
-              aria-label="Toggle dark mode"
-            >
-              {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
-            </button>
+            <div className="flex items-center gap-2">
+              <select
+                value={currency}
+                onChange={(e) => {
+                  setCurrency(e.target.value as CurrencyCode)
+                  setSuggestedCurrency(null)
+                }}
+                className="h-10 rounded-md border border-border bg-background px-2 text-sm font-semibold transition-colors hover:bg-secondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                aria-label="Currency"
+              >
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setDarkMode((current) => !current)}
+                className="flex h-10 w-10 items-center justify-center rounded-md border border-border bg-background transition-colors hover:bg-secondary"
+                aria-label="Toggle dark mode"
+              >
+                {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+              </button>
+            </div>
           </div>
 
           {/* Main Calculator Card */}
@@ -141,32 +510,172 @@ Split ${numberOfPeople} ways: $${finalPerPerson.toFixed(2)} each`
           >
             {/* Bill Amount Input */}
             <div className="space-y-2">
-              <label className="text-sm font-semibold">Bill Amount</label>
-              <div className="relative">
-                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+              <label className="text-sm font-semibold">
+                {tipOnPreTax ? "Subtotal (before tax)" : "Bill Amount"}
+              </label>
+              <CurrencyInput
+                value={tipOnPreTax ? subtotalAmount : billAmount}
+                onValueChange={tipOnPreTax ? setSubtotalAmount : setBillAmount}
+                currency={currency}
+                minorUnitDigits={minorUnitDigits}
+                aria-label={tipOnPreTax ? "Subtotal" : "Bill amount"}
+                endAdornment={
+                  <button
+                    onClick={() => setShowScanner(true)}
+                    className="absolute right-1 top-1/2 flex -translate-y-1/2 items-center justify-center rounded-md border border-transparent p-2 transition-colors hover:border-border hover:bg-secondary active:bg-accent touch-manipulation"
+                    title="Scan receipt"
+                    type="button"
+                  >
+                    <ScanLine className="h-5 w-5 text-primary" />
+                  </button>
+                }
+              />
+
+              {suggestedCurrency ? (
+                <div className="flex items-center gap-2 rounded-md border border-border bg-secondary px-3 py-2 text-sm">
+                  <span className="flex-1">{suggestedCurrency.reason}</span>
+                  <button
+                    onClick={() => {
+                      setCurrency(suggestedCurrency.currency)
+                      if (suggestedCurrency.totals) {
+                        fillScannedAmounts(suggestedCurrency.totals, getMinorUnitDigits(suggestedCurrency.currency))
+                      }
+                      setSuggestedCurrency(null)
+                    }}
+                    className="rounded-md border border-primary bg-primary px-3 py-1 text-xs font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+                    type="button"
+                  >
+                    Switch to {suggestedCurrency.currency}
+                  </button>
+                  <button
+                    onClick={() => setSuggestedCurrency(null)}
+                    className="rounded-md p-1 transition-colors hover:bg-accent"
+                    type="button"
+                    aria-label="Dismiss currency suggestion"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : null}
+
+              {tipOnPreTax ? (
+                <CurrencyInput
+                  value={taxAmount}
+                  onValueChange={setTaxAmount}
+                  currency={currency}
+                  minorUnitDigits={minorUnitDigits}
+                  placeholder="Tax"
+                  aria-label="Tax"
+                />
+              ) : null}
+
+              <label className="flex cursor-pointer items-center gap-2 text-sm text-muted-foreground">
                 <input
-                  type="number"
-                  value={billAmount}
-                  onChange={(e) => setBillAmount(e.target.value)}
-                  placeholder="0.00"
-                  className="w-full rounded-md border border-input bg-background py-2.5 pl-10 pr-12 text-base font-medium tabular-nums focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  type="checkbox"
+                  checked={tipOnPreTax}
+                  onChange={(e) => changeTipOnPreTax(e.target.checked)}
+                  className="h-4 w-4 rounded border-input accent-primary"
                 />
-                <button
-                  onClick={() => setShowScanner(true)}
-                  className="absolute right-1 top-1/2 flex -translate-y-1/2 items-center justify-center rounded-md border border-transparent p-2 transition-colors hover:border-border hover:bg-secondary active:bg-accent touch-manipulation"
-                  title="Scan receipt"
-                  type="button"
-                >
-                  <ScanLine className="h-5 w-5 text-primary" />
-                </button>
-              </div>
+                Tip on pre-tax amount
+              </label>
+
+              <label className="flex cursor-pointer items-center gap-2 text-sm text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={hasServiceCharge}
+                  onChange={(e) => setHasServiceCharge(e.target.checked)}
+                  className="h-4 w-4 rounded border-input accent-primary"
+                />
+                Bill includes a service charge
+              </label>
+
+              {hasServiceCharge ? (
+                <CurrencyInput
+                  value={serviceChargeAmount}
+                  onValueChange={(value) => {
+                    setServiceChargeAmount(value)
+                    setServiceChargePercent(null)
+                  }}
+                  currency={currency}
+                  minorUnitDigits={minorUnitDigits}
+                  placeholder="Service charge"
+                  aria-label="Service charge"
+                />
+              ) : null}
             </div>
 
             {/* Tip Percentage */}
             <div className="space-y-2">
-              <label className="text-sm font-semibold">Tip %</label>
-              <div className="grid grid-cols-5 gap-2 mb-3">
-                {TIP_PRESETS.map((preset) => (
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-sm font-semibold">Tip %</label>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={region}
+                    onChange={(e) => changeRegion(e.target.value as RegionCode)}
+                    className="rounded-md border border-border bg-background px-2 py-1 text-xs font-semibold focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    aria-label="Tipping region"
+                  >
+                    {(Object.keys(TIPPING_CONVENTIONS) as RegionCode[]).map((code) => (
+                      <option key={code} value={code}>
+                        {TIPPING_CONVENTIONS[code].name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setPresetDraft(presetDraft === null ? tipPresets.join(", ") : null)}
+                    className="text-xs font-semibold text-muted-foreground underline-offset-2 hover:underline"
+                    type="button"
+                  >
+                    {presetDraft === null ? "Edit presets" : "Cancel"}
+                  </button>
+                </div>
+              </div>
+              {presetDraft !== null ? (
+                <div className="space-y-1">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={presetDraft}
+                      onChange={(e) => setPresetDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") savePresetDraft()
+                      }}
+                      placeholder="10, 15, 20"
+                      aria-label="Tip presets"
+                      aria-invalid={!presetDraftIsValid}
+                      className={cn(
+                        "min-w-0 flex-1 rounded-md border bg-background px-3 py-2 text-sm font-medium tabular-nums focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                        presetDraftIsValid ? "border-input" : "border-destructive"
+                      )}
+                    />
+                    <button
+                      onClick={savePresetDraft}
+                      disabled={!presetDraftIsValid}
+                      className="rounded-md border border-primary bg-primary px-3 py-2 text-sm font-semibold text-primary-foreground transition-colors disabled:cursor-not-allowed disabled:opacity-40"
+                      type="button"
+                    >
+                      Save
+                    </button>
+                    {customTipPresets[region] ? (
+                      <button
+                        onClick={resetTipPresets}
+                        className="rounded-md border border-border bg-secondary px-3 py-2 text-sm font-semibold text-secondary-foreground transition-colors hover:bg-accent"
+                        type="button"
+                      >
+                        Reset
+                      </button>
+                    ) : null}
+                  </div>
+                  <p className={cn("text-xs", presetDraftIsValid ? "text-muted-foreground" : "text-destructive")}>
+                    Up to {MAX_TIP_PRESETS} percentages between 0 and 100, separated by commas.
+                  </p>
+                </div>
+              ) : null}
+              <div
+                className="grid gap-2 mb-3"
+                style={{ gridTemplateColumns: `repeat(${tipPresets.length}, minmax(0, 1fr))` }}
+              >
+                {tipPresets.map((preset) => (
                   <motion.button
                     key={preset}
                     onClick={() => {
@@ -194,105 +703,219 @@ Split ${numberOfPeople} ways: $${finalPerPerson.toFixed(2)} each`
                   className="w-full rounded-md border border-input bg-background py-2.5 pl-4 pr-10 text-base font-medium tabular-nums focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
                 />
               </div>
+              {isDoubleTipping ? (
+                <div className="space-y-2 rounded-md border border-destructive bg-destructive/10 p-3 text-sm" role="alert">
+                  <p className="flex items-start gap-2 font-semibold text-destructive">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                    This bill already includes a {serviceChargeLabel}. A {tip}% tip would be paid on top of it.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => {
+                        setTipPercent(0)
+                        setCustomTip("")
+                      }}
+                      className="rounded-md border border-primary bg-primary px-3 py-1 text-xs font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+                      type="button"
+                    >
+                      No extra tip
+                    </button>
+                    <button
+                      onClick={() => setTipIncludesServiceCharge(true)}
+                      className="rounded-md border border-border bg-background px-3 py-1 text-xs font-semibold transition-colors hover:bg-accent"
+                      type="button"
+                    >
+                      Top up to {tip}% in total
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+              {breakdown.serviceChargeCents > 0 && tipIncludesServiceCharge ? (
+                <div className="flex items-center gap-2 rounded-md border border-border bg-secondary px-3 py-2 text-sm">
+                  <span className="flex-1">
+                    Your {tip}% tip counts the included {serviceChargeLabel}, so {formatAmount(breakdown.tipCents)} is
+                    added on top.
+                  </span>
+                  <button
+                    onClick={() => setTipIncludesServiceCharge(false)}
+                    className="rounded-md px-2 py-1 text-xs font-semibold transition-colors hover:bg-accent"
+                    type="button"
+                  >
+                    Tip on top instead
+                  </button>
+                </div>
+              ) : null}
+              {convention.serviceChargeCustomary && !hasServiceCharge ? (
+                <p className="text-xs text-muted-foreground">
+                  Restaurants in {convention.name} often include a service charge. Check the bill before adding a tip.
+                </p>
+              ) : null}
             </div>
 
             {/* Number of People */}
             <div className="space-y-2">
-              <label className="text-sm font-semibold">Split Between</label>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-semibold">Split Between</label>
+                <div className="flex gap-1 rounded-md border border-border bg-secondary p-1">
+                  {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setSplitMode(mode)}
+                      className={cn(
+                        "rounded px-3 py-1 text-xs font-semibold transition-colors",
+                        splitMode === mode
+                          ? "bg-primary text-primary-foreground"
+                          : "text-secondary-foreground hover:bg-accent"
+                      )}
+                      type="button"
+                    >
+                      {SPLIT_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {!isEqualSplit ? (
+                <ParticipantEditor
+                  participants={participants}
+                  showShares={splitMode === "custom"}
+                  minorUnitDigits={minorUnitDigits}
+                  onUpdate={updateParticipant}
+                  onRemove={removeParticipant}
+                  onAdd={addParticipant}
+                />
+              ) : (
+                <>
+                  {/* Quick presets */}
+                  <div className="grid grid-cols-4 gap-2 mb-3">
+                    {PEOPLE_PRESETS.map((num) => (
+                      <motion.button
+                        key={num}
+                        onClick={() => setNumberOfPeople(num)}
+                        className={cn(
+                          "flex items-center justify-center gap-1 rounded-md border py-2.5 text-sm font-semibold transition-colors",
+                          numberOfPeople === num
+                            ? "border-primary bg-primary text-primary-foreground"
+                            : "border-border bg-secondary text-secondary-foreground hover:bg-accent"
+                        )}
+                      >
+                        <Users className="h-4 w-4" />
+                        <span>{num}</span>
+                      </motion.button>
+                    ))}
+                  </div>
               
-              {/* Quick presets */}
-              <div className="grid grid-cols-4 gap-2 mb-3">
-                {PEOPLE_PRESETS.map((num) => (
+                  {/* Custom number with stepper */}
+                  <div className="flex items-center gap-2 rounded-md border border-border bg-secondary p-2">
+                    <button
+                      onClick={() => setNumberOfPeople((current) => Math.max(1, current - 1))}
+                      className="rounded-md border border-border bg-background p-2 transition-colors hover:bg-accent active:bg-accent touch-manipulation disabled:cursor-not-allowed disabled:opacity-40"
+                      type="button"
+                      disabled={numberOfPeople <= 1}
+                    >
+                      <Minus className="h-5 w-5" />
+                    </button>
+                
+                    <div className="flex-1 text-center">
+                      <div className="font-mono text-2xl font-semibold tabular-nums">{numberOfPeople}</div>
+                      <div className="text-xs uppercase tracking-wide text-muted-foreground">
+                        {numberOfPeople === 1 ? 'person' : 'people'}
+                      </div>
+                    </div>
+                
+                    <button
+                      onClick={() => setNumberOfPeople((current) => current + 1)}
+                      className="rounded-md border border-border bg-background p-2 transition-colors hover:bg-accent active:bg-accent touch-manipulation"
+                      type="button"
+                    >
+                      <Plus className="h-5 w-5" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Line Items */}
+            {splitMode === "itemized" ? (
+              <div className="space-y-2">
+                <label className="text-sm font-semibold">Items</label>
+                <LineItemEditor
+                  items={lineItems}
+                  participants={splitParticipants}
+                  minorUnitDigits={minorUnitDigits}
+                  onUpdate={updateLineItem}
+                  onRemove={removeLineItem}
+                  onAdd={addLineItem}
+                />
+              </div>
+            ) : null}
+
+            {/* Rounding Options */}
+            <div className="space-y-2">
+              <label className="text-sm font-semibold">Rounding</label>
+              <div className="grid grid-cols-4 gap-2">
+                {ROUNDING_MODE_OPTIONS.map((option) => (
                   <motion.button
-                    key={num}
-                    onClick={() => setNumberOfPeople(num)}
+                    key={option.mode}
+                    onClick={() => setRounding((current) => ({ ...current, mode: option.mode }))}
                     className={cn(
-                      "flex items-center justify-center gap-1 rounded-md border py-2.5 text-sm font-semibold transition-colors",
-                      numberOfPeople === num
+                      "rounded-md border px-3 py-2.5 font-medium transition-colors",
+                      rounding.mode === option.mode
                         ? "border-primary bg-primary text-primary-foreground"
-                        : "border-border bg-secondary text-secondary-foreground hover:bg-accent"
+                        : "border-border bg-secondary hover:bg-accent"
                     )}
+                    type="button"
                   >
-                    <Users className="h-4 w-4" />
-                    <span>{num}</span>
+                    <div className="text-sm">{option.label}</div>
+                    <div className="text-xs opacity-70">{option.hint}</div>
                   </motion.button>
                 ))}
               </div>
-              
-              {/* Custom number with stepper */}
-              <div className="flex items-center gap-2 rounded-md border border-border bg-secondary p-2">
-                <button
-                  onClick={() => setNumberOfPeople((current) => Math.max(1, current - 1))}
-                  className="rounded-md border border-border bg-background p-2 transition-colors hover:bg-accent active:bg-accent touch-manipulation disabled:cursor-not-allowed disabled:opacity-40"
-                  type="button"
-                  disabled={numberOfPeople <= 1}
-                >
-                  <Minus className="h-5 w-5" />
-                </button>
-                
-                <div className="flex-1 text-center">
-                  <div className="font-mono text-2xl font-semibold tabular-nums">{numberOfPeople}</div>
-                  <div className="text-xs uppercase tracking-wide text-muted-foreground">
-                    {numberOfPeople === 1 ? 'person' : 'people'}
+
+              {rounding.mode !== "none" ? (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-4 gap-2">
+                    {ROUNDING_INCREMENTS.map((increment) => (
+                      <button
+                        key={increment}
+                        onClick={() => setRounding((current) => ({ ...current, increment }))}
+                        className={cn(
+                          "rounded-md border py-1.5 text-sm font-semibold tabular-nums transition-colors",
+                          rounding.increment === increment
+                            ? "border-primary bg-primary text-primary-foreground"
+                            : "border-border bg-secondary text-secondary-foreground hover:bg-accent"
+                        )}
+                        type="button"
+                      >
+                        {formatAmount(increment)}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(ROUNDING_TARGET_LABELS) as RoundingTarget[]).map((target) => (
+                      <button
+                        key={target}
+                        onClick={() => setRounding((current) => ({ ...current, target }))}
+                        className={cn(
+                          "rounded-md border py-1.5 text-sm font-semibold transition-colors disabled:cursor-not-allowed disabled:opacity-40",
+                          rounding.target === target
+                            ? "border-primary bg-primary text-primary-foreground"
+                            : "border-border bg-secondary text-secondary-foreground hover:bg-accent"
+                        )}
+                        type="button"
+                        disabled={target === "per-person" && !isEqualSplit}
+                      >
+                        {ROUNDING_TARGET_LABELS[target]}
+                      </button>
+                    ))}
                   </div>
+                  {rounding.target === "per-person" && !isEqualSplit ? (
+                    <p className="text-xs text-muted-foreground">
+                      Per-person rounding only applies to equal splits. Round the total or the tip instead.
+                    </p>
+                  ) : null}
                 </div>
-                
-                <button
-                  onClick={() => setNumberOfPeople((current) => current + 1)}
-                  className="rounded-md border border-border bg-background p-2 transition-colors hover:bg-accent active:bg-accent touch-manipulation"
-                  type="button"
-                >
-                  <Plus className="h-5 w-5" />
-                </button>
-              </div>
-            </div>
-
-            {/* Rounding Options */}
-            <div className="space-y-2">
-              <label className="text-sm font-semibold">Rounding</label>
-              <div className="grid grid-cols-3 gap-2">
-                <motion.button
-                  onClick={() => setRoundingMode("none")}
-                  className={cn(
-                    "rounded-md border px-3 py-2.5 font-medium transition-colors",
-                    roundingMode === "none"
-                      ? "border-primary bg-primary text-primary-foreground"
-                      : "border-border bg-secondary hover:bg-accent"
-                  )}
-                  type="button"
-                >
-                  <div className="text-sm">None</div>
-                  <div className="text-xs opacity-70">¢.99</div>
-                </motion.button>
-                
-                <motion.button
-                  onClick={() => setRoundingMode("up")}
-                  className={cn(
-                    "rounded-md border px-3 py-2.5 font-medium transition-colors",
-                    roundingMode === "up"
-                      ? "border-primary bg-primary text-primary-foreground"
-                      : "border-border bg-secondary hover:bg-accent"
-                  )}
-                  type="button"
-                >
-                  <div className="text-sm">Round Up</div>
-                  <div className="text-xs opacity-70">$1.00</div>
-                </motion.button>
-                
-                <motion.button
-                  onClick={() => setRoundingMode("down")}
-                  className={cn(
-                    "rounded-md border px-3 py-2.5 font-medium transition-colors",
-                    roundingMode === "down"
-                      ? "border-primary bg-primary text-primary-foreground"
-                      : "border-border bg-secondary hover:bg-accent"
-                  )}
-                  type="button"
-                >
-                  <div className="text-sm">Round Down</div>
-                  <div className="text-xs opacity-70">$0.00</div>
-                </motion.button>
-              </div>
+              ) : null}
             </div>
 
             {/* Results */}
@@ -307,39 +930,88 @@ Split ${numberOfPeople} ways: $${finalPerPerson.toFixed(2)} each`
                   <div className="space-y-1">
                     <p className="text-sm text-muted-foreground">Tip Amount</p>
                     <p className="font-mono text-2xl font-semibold tabular-nums">
-                      ${finalTipAmount.toFixed(2)}
+                      {formatAmount(breakdown.tipCents)}
                     </p>
                   </div>
                   <div className="space-y-1">
                     <p className="text-sm text-muted-foreground">Total Amount</p>
                     <p className="font-mono text-2xl font-semibold tabular-nums">
-                      ${finalTotal.toFixed(2)}
+                      {formatAmount(breakdown.totalCents)}
                     </p>
                   </div>
                 </div>
 
-                <div className="space-y-2 rounded-md border border-border bg-secondary p-4">
-                  <p className="text-lg font-semibold">Per Person</p>
-                  <div className="flex justify-between items-center">
-                    <span>Amount</span>
-                    <span className="font-mono font-semibold tabular-nums">
-                      ${finalPerPerson.toFixed(2)}
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span>Tip</span>
-                    <span className="font-mono font-semibold tabular-nums">
-                      ${finalTipPerPerson.toFixed(2)}
-                    </span>
-                  </div>
-                </div>
+                {tipOnPreTax ? (
+                  <p className="text-sm text-muted-foreground">
+                    Tip calculated on {formatAmount(breakdown.tipBaseCents)} before {formatAmount(breakdown.taxCents)} tax
+                  </p>
+                ) : null}
 
-                {numberOfPeople > 1 ? (
-                  <p className="text-center text-sm text-muted-foreground">
-                    You saved ${(finalTotal - finalPerPerson).toFixed(2)} by splitting!
+                {breakdown.serviceChargeCents > 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Total includes a {formatAmount(breakdown.serviceChargeCents)} service charge, which is not tipped on
                   </p>
                 ) : null}
 
+                {unevenSplit ? (
+                  <div className="space-y-2 rounded-md border border-border bg-secondary p-4">
+                    <p className="text-lg font-semibold">Per Person</p>
+                    {unevenSplit.shares.map((share) => (
+                      <div key={share.id} className="flex justify-between items-center">
+                        <span className="truncate">{share.name}</span>
+                        <span className="text-right">
+                          <span className="block font-mono font-semibold tabular-nums">
+                            {formatAmount(share.totalCents)}
+                          </span>
+                          <span className="block text-xs text-muted-foreground tabular-nums">
+                            incl. {formatAmount(share.tipCents)} tip
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                    {unevenSplit.unallocatedCents !== 0 ? (
+                      <p className="text-sm text-destructive">
+                        {unevenSplit.unallocatedCents > 0
+                          ? `${formatAmount(unevenSplit.unallocatedCents)} of the bill isn't covered by anyone.`
+                          : `Shares exceed the bill by ${formatAmount(-unevenSplit.unallocatedCents)}.`}
+                      </p>
+                    ) : null}
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-2 rounded-md border border-border bg-secondary p-4">
+                      <p className="text-lg font-semibold">Per Person</p>
+                      <div className="flex justify-between items-center">
+                        <span>Amount</span>
+                        <span className="font-mono font-semibold tabular-nums">
+                          {hasUnevenCents
+                            ? formatShareGroups(breakdown.perPersonShares, formatAmount)
+                            : formatAmount(breakdown.perPersonCents)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span>Tip</span>
+                        <span className="font-mono font-semibold tabular-nums">
+                          {summarizeShares(breakdown.tipShares).length > 1
+                            ? formatShareGroups(breakdown.tipShares, formatAmount)
+                            : formatAmount(breakdown.tipPerPersonCents)}
+                        </span>
+                      </div>
+                      {hasUnevenCents ? (
+                        <p className="text-xs text-muted-foreground">
+                          Leftover cents go to the first payers so shares add up to {formatAmount(breakdown.totalCents)}.
+                        </p>
+                      ) : null}
+                    </div>
+
+                    {numberOfPeople > 1 ? (
+                      <p className="text-center text-sm text-muted-foreground">
+                        You saved {formatAmount(breakdown.totalCents - breakdown.perPersonCents)} by splitting!
+                      </p>
+                    ) : null}
+                  </>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex flex-col gap-2 sm:flex-row">
                   <motion.button
@@ -366,6 +1038,8 @@ Split ${numberOfPeople} ways: $${finalPerPerson.toFixed(2)} each`
       <AnimatePresence>
         {showScanner ? (
           <ReceiptScanner
+            currency={currency}
+            languages={convention.receiptLanguages}
             onAmountExtracted={handleAmountExtracted}
             onClose={closeScanner}
           />
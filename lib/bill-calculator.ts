@@ -0,0 +1,219 @@
+export type RoundingMode = "none" | "up" | "down" | "nearest"
+
+/** Which amount the rounding is applied to. */
+export type RoundingTarget = "per-person" | "total" | "tip"
+
+/** Rounding steps offered in the UI, in minor units. */
+export const ROUNDING_INCREMENTS = [25, 50, 100, 500] as const
+
+export interface BillInput {
+  /** Amount due before tip, tax included. */
+  billAmount: number
+  taxAmount?: number
+  /** Apply the tip percentage to the bill minus tax instead of the full bill. */
+  tipOnPreTax?: boolean
+  /** Service charge or gratuity already included in `billAmount`; it is never tipped on. */
+  serviceChargeAmount?: number
+  tipPercent: number
+  /**
+   * Treat `tipPercent` as the overall gratuity, so only the part the service
+   * charge does not already cover is added.
+   */
+  tipIncludesServiceCharge?: boolean
+  numberOfPeople: number
+  roundingMode: RoundingMode
+  /** Step to round to, in minor units. Defaults to 100 (whole dollars, euros...). */
+  roundingIncrement?: number
+  /** Defaults to rounding each person's share. */
+  roundingTarget?: RoundingTarget
+  /** Decimals of the bill's currency, e.g. 0 for JPY. Defaults to 2. */
+  minorUnitDigits?: number
+}
+
+/**
+ * Every amount is expressed in integer minor units (cents for most
+ * currencies, whole yen for JPY) so the breakdown can be compared and summed
+ * without floating-point drift.
+ */
+export interface BillBreakdown {
+  billCents: number
+  taxCents: number
+  serviceChargeCents: number
+  tipBaseCents: number
+  tipCents: number
+  totalCents: number
+  /** Largest individual share; equal to every share unless cents are left over. */
+  perPersonCents: number
+  tipPerPersonCents: number
+  /** What each person pays, summing to `totalCents` exactly. */
+  perPersonShares: number[]
+  /** Each person's part of the tip, summing to `tipCents` exactly. */
+  tipShares: number[]
+  numberOfPeople: number
+  minorUnitDigits: number
+}
+
+export interface ShareGroup {
+  cents: number
+  count: number
+}
+
+const DEFAULT_MINOR_UNIT_DIGITS = 2
+const DEFAULT_ROUNDING_INCREMENT = 100
+
+export function toCents(amount: number, minorUnitDigits = DEFAULT_MINOR_UNIT_DIGITS): number {
+  if (!Number.isFinite(amount)) {
+    return 0
+  }
+
+  // Nudge by EPSILON so values like 1.005 (stored as 1.00499...) round as written
+  return Math.round((amount + Math.sign(amount) * Number.EPSILON) * 10 ** minorUnitDigits)
+}
+
+export function fromCents(cents: number, minorUnitDigits = DEFAULT_MINOR_UNIT_DIGITS): number {
+  return cents / 10 ** minorUnitDigits
+}
+
+/**
+ * Splits `totalCents` in proportion to `weights` using the largest remainder
+ * method, so the parts always add up to the total exactly. Ties go to the
+ * earlier index, which keeps the result deterministic. All-zero weights fall
+ * back to an equal split.
+ */
+export function allocateProportionally(totalCents: number, weights: number[]): number[] {
+  if (weights.length === 0) {
+    return []
+  }
+
+  const safeWeights = weights.map((weight) => (Number.isFinite(weight) && weight > 0 ? weight : 0))
+  const weightSum = safeWeights.reduce((sum, weight) => sum + weight, 0)
+  const effectiveWeights = weightSum > 0 ? safeWeights : safeWeights.map(() => 1)
+  const effectiveSum = weightSum > 0 ? weightSum : effectiveWeights.length
+
+  const exactShares = effectiveWeights.map((weight) => (totalCents * weight) / effectiveSum)
+  const shares = exactShares.map((share) => Math.floor(share))
+  let leftover = totalCents - shares.reduce((sum, share) => sum + share, 0)
+
+  const byRemainder = exactShares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) {
+      break
+    }
+
+    shares[index] += 1
+    leftover -= 1
+  }
+
+  return shares
+}
+
+export function splitEvenly(totalCents: number, count: number): number[] {
+  return allocateProportionally(totalCents, Array.from({ length: count }, () => 1))
+}
+
+/**
+ * Collapses per-person shares into groups of equal amounts, largest first,
+ * e.g. [3334, 3333, 3333] becomes 1 × 3334 and 2 × 3333.
+ */
+export function summarizeShares(shares: number[]): ShareGroup[] {
+  const counts = new Map<number, number>()
+  for (const cents of shares) {
+    counts.set(cents, (counts.get(cents) ?? 0) + 1)
+  }
+
+  return [...counts.entries()]
+    .map(([cents, count]) => ({ cents, count }))
+    .sort((a, b) => b.cents - a.cents)
+}
+
+function sanitizeAmount(value: number): number {
+  return Number.isFinite(value) && value > 0 ? value : 0
+}
+
+function sanitizePeople(value: number): number {
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : 1
+}
+
+function applyRounding(cents: number, roundingMode: RoundingMode, increment: number): number {
+  if (roundingMode === "up") return Math.ceil(cents / increment) * increment
+  if (roundingMode === "down") return Math.floor(cents / increment) * increment
+  if (roundingMode === "nearest") return Math.round(cents / increment) * increment
+  return cents
+}
+
+function sanitizeIncrement(value: number | undefined): number {
+  return value !== undefined && Number.isInteger(value) && value > 0 ? value : DEFAULT_ROUNDING_INCREMENT
+}
+
+function roundTotal(
+  billCents: number,
+  tipCents: number,
+  numberOfPeople: number,
+  input: Pick<BillInput, "roundingMode" | "roundingIncrement" | "roundingTarget">
+): number {
+  const { roundingMode, roundingTarget = "per-person" } = input
+  const increment = sanitizeIncrement(input.roundingIncrement)
+
+  if (roundingMode === "none") {
+    return billCents + tipCents
+  }
+
+  if (roundingTarget === "tip") {
+    return billCents + applyRounding(tipCents, roundingMode, increment)
+  }
+
+  if (roundingTarget === "total") {
+    return applyRounding(billCents + tipCents, roundingMode, increment)
+  }
+
+  return applyRounding((billCents + tipCents) / numberOfPeople, roundingMode, increment) * numberOfPeople
+}
+
+function sanitizeMinorUnitDigits(value: number | undefined): number {
+  return value !== undefined && Number.isInteger(value) && value >= 0 && value <= 4 ? value : DEFAULT_MINOR_UNIT_DIGITS
+}
+
+export function calculateBill(input: BillInput): BillBreakdown {
+  const numberOfPeople = sanitizePeople(input.numberOfPeople)
+  const minorUnitDigits = sanitizeMinorUnitDigits(input.minorUnitDigits)
+  const billCents = toCents(sanitizeAmount(input.billAmount), minorUnitDigits)
+  const taxCents = Math.min(billCents, toCents(sanitizeAmount(input.taxAmount ?? 0), minorUnitDigits))
+  const serviceChargeCents = Math.min(
+    billCents - taxCents,
+    toCents(sanitizeAmount(input.serviceChargeAmount ?? 0), minorUnitDigits)
+  )
+  const tipBaseCents = (input.tipOnPreTax ? billCents - taxCents : billCents) - serviceChargeCents
+  const tipPercent = sanitizeAmount(input.tipPercent)
+
+  const gratuityCents = Math.round((tipBaseCents * tipPercent) / 100)
+  const rawTipCents = input.tipIncludesServiceCharge
+    ? Math.max(0, gratuityCents - serviceChargeCents)
+    : gratuityCents
+  // Rounding down never takes the total below the bill, which would show a negative tip
+  const totalCents = Math.max(billCents, roundTotal(billCents, rawTipCents, numberOfPeople, input))
+  const tipCents = totalCents - billCents
+
+  // Leftover cents go to the first people in line, and each tip share is
+  // what that person pays beyond their part of the bill.
+  const perPersonShares = splitEvenly(totalCents, numberOfPeople)
+  const billShares = splitEvenly(billCents, numberOfPeople)
+  const tipShares = perPersonShares.map((share, index) => share - billShares[index])
+
+  return {
+    billCents,
+    taxCents,
+    serviceChargeCents,
+    tipBaseCents,
+    tipCents,
+    totalCents,
+    perPersonCents: perPersonShares[0],
+    tipPerPersonCents: tipShares[0],
+    perPersonShares,
+    tipShares,
+    numberOfPeople,
+    minorUnitDigits,
+  }
+}
@@ -0,0 +1,152 @@
+import { allocateProportionally, toCents, type BillBreakdown } from "./bill-calculator"
+
+export type ShareKind = "weight" | "percent" | "fixed"
+
+export interface Participant {
+  id: string
+  name: string
+  shareKind: ShareKind
+  /** Weight units, a percentage of the pre-tax bill, or a fixed pre-tax amount. */
+  shareValue: number
+}
+
+export interface LineItem {
+  id: string
+  description: string
+  price: number
+  /** Ids of the participants sharing the item; shared items are split evenly. */
+  assignedTo: string[]
+}
+
+export interface ParticipantShare {
+  id: string
+  name: string
+  baseCents: number
+  taxCents: number
+  serviceChargeCents: number
+  tipCents: number
+  totalCents: number
+}
+
+export interface SplitResult {
+  shares: ParticipantShare[]
+  /**
+   * Pre-tax amount nobody covers. Positive when fixed and percentage shares
+   * (or assigned items) leave a remainder nobody absorbs, negative when they
+   * add up to more than the bill.
+   */
+  unallocatedCents: number
+}
+
+type SplittableBill = Pick<BillBreakdown, "billCents" | "taxCents" | "tipCents"> &
+  Partial<Pick<BillBreakdown, "serviceChargeCents" | "minorUnitDigits">>
+
+function sanitizeShareValue(value: number): number {
+  return Number.isFinite(value) && value > 0 ? value : 0
+}
+
+/** Pre-tax amount shared out by participants or items, service charge excluded. */
+function getPreTaxCents(breakdown: SplittableBill): number {
+  return breakdown.billCents - breakdown.taxCents - (breakdown.serviceChargeCents ?? 0)
+}
+
+function buildShares(
+  breakdown: SplittableBill,
+  participants: Pick<Participant, "id" | "name">[],
+  baseCents: number[]
+): ParticipantShare[] {
+  const taxShares = allocateProportionally(breakdown.taxCents, baseCents)
+  const serviceChargeShares = allocateProportionally(breakdown.serviceChargeCents ?? 0, baseCents)
+  const tipShares = allocateProportionally(breakdown.tipCents, baseCents)
+
+  return participants.map((participant, index) => ({
+    id: participant.id,
+    name: participant.name,
+    baseCents: baseCents[index],
+    taxCents: taxShares[index],
+    serviceChargeCents: serviceChargeShares[index],
+    tipCents: tipShares[index],
+    totalCents: baseCents[index] + taxShares[index] + serviceChargeShares[index] + tipShares[index],
+  }))
+}
+
+/**
+ * Splits a calculated bill between participants. Fixed amounts and
+ * percentages are taken off the pre-tax bill first, the remainder is shared
+ * among weighted participants, and tax, service charge and tip then follow
+ * each person's pre-tax share.
+ */
+export function splitBill(
+  breakdown: SplittableBill,
+  participants: Participant[]
+): SplitResult {
+  const preTaxCents = getPreTaxCents(breakdown)
+
+  const baseCents = participants.map((participant) => {
+    const value = sanitizeShareValue(participant.shareValue)
+    if (participant.shareKind === "fixed") return toCents(value, breakdown.minorUnitDigits)
+    if (participant.shareKind === "percent") return Math.round((preTaxCents * value) / 100)
+    return 0
+  })
+
+  const assignedCents = baseCents.reduce((sum, cents) => sum + cents, 0)
+  const remainderCents = preTaxCents - assignedCents
+  const weightedIndexes = participants
+    .map((participant, index) => (participant.shareKind === "weight" ? index : -1))
+    .filter((index) => index >= 0)
+
+  let unallocatedCents = remainderCents
+  if (weightedIndexes.length > 0 && remainderCents > 0) {
+    const weights = weightedIndexes.map((index) => sanitizeShareValue(participants[index].shareValue))
+    const weightedShares = allocateProportionally(remainderCents, weights)
+
+    weightedIndexes.forEach((participantIndex, shareIndex) => {
+      baseCents[participantIndex] = weightedShares[shareIndex]
+    })
+    unallocatedCents = 0
+  }
+
+  return {
+    shares: buildShares(breakdown, participants, baseCents),
+    unallocatedCents,
+  }
+}
+
+/**
+ * Splits a calculated bill by line items. Each item is divided evenly between
+ * the participants it is assigned to, and tax, service charge and tip follow
+ * each person's item subtotal. Items without a known participant count as unallocated.
+ */
+export function splitByItems(
+  breakdown: SplittableBill,
+  participants: Pick<Participant, "id" | "name">[],
+  items: LineItem[]
+): SplitResult {
+  const indexById = new Map(participants.map((participant, index) => [participant.id, index]))
+  const baseCents = participants.map(() => 0)
+
+  for (const item of items) {
+    const assigneeIndexes = [...new Set(item.assignedTo)]
+      .map((id) => indexById.get(id))
+      .filter((index): index is number => index !== undefined)
+
+    if (assigneeIndexes.length === 0) {
+      continue
+    }
+
+    const itemShares = allocateProportionally(
+      toCents(sanitizeShareValue(item.price), breakdown.minorUnitDigits),
+      assigneeIndexes.map(() => 1)
+    )
+    assigneeIndexes.forEach((participantIndex, shareIndex) => {
+      baseCents[participantIndex] += itemShares[shareIndex]
+    })
+  }
+
+  const assignedCents = baseCents.reduce((sum, cents) => sum + cents, 0)
+
+  return {
+    shares: buildShares(breakdown, participants, baseCents),
+    unallocatedCents: getPreTaxCents(breakdown) - assignedCents,
+  }
+}
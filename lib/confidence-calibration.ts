@@ -0,0 +1,117 @@
+/** A raw confidence and how often totals read with it were right. */
+export interface CalibrationPoint {
+  raw: number
+  calibrated: number
+}
+
+export interface CalibrationSample {
+  confidence: number
+  correct: boolean
+}
+
+/**
+ * Fitted on the receipt corpus in tests/fixtures/corpus; refit with
+ * `npm run benchmark -- --fit-calibration` after changing the scoring.
+ */
+export const TOTAL_CONFIDENCE_CALIBRATION: CalibrationPoint[] = [
+  { raw: 0, calibrated: 0 },
+  { raw: 0.11, calibrated: 0.198 },
+  { raw: 0.312, calibrated: 0.198 },
+  { raw: 0.322, calibrated: 0.735 },
+  { raw: 0.759, calibrated: 0.735 },
+  { raw: 0.823, calibrated: 0.969 },
+  { raw: 0.98, calibrated: 0.969 },
+]
+
+// Totals less likely than this to be right are shown for review before they are used.
+// `npm run benchmark` compares thresholds on cross-validated corpus results
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.8
+
+// Each fitted point is pulled towards its raw confidence as if this many more
+// receipts had been right that often, so a handful of receipts can't make it certain
+const CALIBRATION_PRIOR_WEIGHT = 2
+
+/** Maps a raw confidence onto the calibration curve, interpolating between its points. */
+export function calibrateConfidence(
+  raw: number,
+  points: CalibrationPoint[] = TOTAL_CONFIDENCE_CALIBRATION
+): number {
+  if (points.length === 0) {
+    return raw
+  }
+
+  const upper = points.findIndex((point) => point.raw >= raw)
+  if (upper === 0) {
+    return points[0].calibrated
+  }
+  if (upper === -1) {
+    return points[points.length - 1].calibrated
+  }
+
+  const low = points[upper - 1]
+  const high = points[upper]
+  return low.calibrated + ((raw - low.raw) / (high.raw - low.raw)) * (high.calibrated - low.calibrated)
+}
+
+/**
+ * Fits a calibration curve that never falls as the raw confidence rises
+ * (isotonic regression), starting at 0. Samples are pooled into steps until
+ * each step is right at least as often as the one below it.
+ */
+export function fitConfidenceCalibration(samples: CalibrationSample[]): CalibrationPoint[] {
+  // Equal confidences can't be told apart, so they start out as one step
+  const steps: { confidence: number; correct: number; count: number }[] = []
+  for (const sample of [...samples].sort((a, b) => a.confidence - b.confidence)) {
+    const last = steps[steps.length - 1]
+    if (last?.confidence === sample.confidence) {
+      last.correct += sample.correct ? 1 : 0
+      last.count += 1
+    } else {
+      steps.push({ confidence: sample.confidence, correct: sample.correct ? 1 : 0, count: 1 })
+    }
+  }
+
+  const blocks: { low: number; high: number; rawSum: number; correct: number; count: number }[] = []
+  for (const step of steps) {
+    blocks.push({
+      low: step.confidence,
+      high: step.confidence,
+      rawSum: step.confidence * step.count,
+      correct: step.correct,
+      count: step.count,
+    })
+
+    while (blocks.length > 1) {
+      const current = blocks[blocks.length - 1]
+      const previous = blocks[blocks.length - 2]
+      if (previous.correct / previous.count <= current.correct / current.count) {
+        break
+      }
+
+      blocks.pop()
+      previous.high = current.high
+      previous.rawSum += current.rawSum
+      previous.correct += current.correct
+      previous.count += current.count
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000
+  let floor = 0
+
+  // Each step holds its value from its lowest to its highest raw confidence,
+  // so only the gaps between steps are interpolated
+  return [
+    { raw: 0, calibrated: 0 },
+    ...blocks.flatMap((block): CalibrationPoint[] => {
+      const raw = block.rawSum / block.count
+      const calibrated = (block.correct + CALIBRATION_PRIOR_WEIGHT * raw) / (block.count + CALIBRATION_PRIOR_WEIGHT)
+      // Pulling towards the raw confidence can undo the ordering between steps
+      floor = Math.max(floor, calibrated)
+      return [
+        { raw: round(block.low), calibrated: round(floor) },
+        { raw: round(block.high), calibrated: round(floor) },
+      ]
+    }),
+  ].filter((point, index, points) => index === 0 || point.raw > points[index - 1].raw)
+}
@@ -0,0 +1,74 @@
+export const SUPPORTED_CURRENCIES = ["USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD", "INR", "RUB"] as const
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number]
+
+export const DEFAULT_CURRENCY: CurrencyCode = "USD"
+
+// "$" is shared by several currencies, so it only counts when no ISO code or
+// less ambiguous symbol shows up on the receipt.
+const CURRENCY_SYMBOLS: [symbol: string, currency: CurrencyCode][] = [
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+  ["₽", "RUB"],
+]
+
+// Codes only count next to an amount, e.g. "CHF 12.50" or "12.50 CHF", so words
+// like "Dry rub wings" aren't read as a currency
+const ISO_CODES = SUPPORTED_CURRENCIES.join("|")
+const ISO_CODE_PATTERN = new RegExp(`\\b(${ISO_CODES})\\s*[$€£¥₹₽]?\\s*\\d|\\d\\s*(${ISO_CODES})\\b`, "g")
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === "string" && (SUPPORTED_CURRENCIES as readonly string[]).includes(value)
+}
+
+/** Number of decimals the currency uses, e.g. 2 for USD and 0 for JPY. */
+export function getMinorUnitDigits(currency: CurrencyCode): number {
+  return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2
+}
+
+export function formatMoney(amount: number, currency: CurrencyCode, locale?: string): string {
+  return new Intl.NumberFormat(locale, { style: "currency", currency }).format(amount)
+}
+
+export function formatMinorUnits(minorUnits: number, currency: CurrencyCode, locale?: string): string {
+  return formatMoney(minorUnits / 10 ** getMinorUnitDigits(currency), currency, locale)
+}
+
+export function getCurrencySymbol(currency: CurrencyCode, locale?: string): string {
+  const parts = new Intl.NumberFormat(locale, { style: "currency", currency }).formatToParts(0)
+  return parts.find((part) => part.type === "currency")?.value ?? currency
+}
+
+/**
+ * Guesses the currency a receipt is printed in. Unambiguous symbols win over
+ * ISO codes, which win over a bare "$", and the most frequent match wins
+ * within each kind.
+ */
+export function detectCurrencyFromText(text: string): CurrencyCode | null {
+  const mostFrequent = (matches: CurrencyCode[]): CurrencyCode | null => {
+    const counts = new Map<CurrencyCode, number>()
+    for (const currency of matches) {
+      counts.set(currency, (counts.get(currency) ?? 0) + 1)
+    }
+
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+  }
+
+  const symbolMatches = CURRENCY_SYMBOLS.flatMap(([symbol, currency]) =>
+    Array.from({ length: text.split(symbol).length - 1 }, () => currency)
+  )
+  const fromSymbol = mostFrequent(symbolMatches)
+  if (fromSymbol) {
+    return fromSymbol
+  }
+
+  const isoMatches = [...text.matchAll(ISO_CODE_PATTERN)].map((match) => (match[1] ?? match[2]) as CurrencyCode)
+  const fromIsoCode = mostFrequent(isoMatches)
+  if (fromIsoCode) {
+    return fromIsoCode
+  }
+
+  return text.includes("$") ? "USD" : null
+}
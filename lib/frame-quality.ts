@@ -0,0 +1,99 @@
+import type { GrayImage } from "./image-preprocessing"
+
+/** What keeps a viewfinder frame from being worth scanning, most fundamental first. */
+export type FrameIssue = "too-dark" | "glare" | "moving" | "blurry"
+
+export interface FrameQuality {
+  /** Mean brightness, 0 to 255. */
+  brightness: number
+  /** Share of blown-out pixels. */
+  glare: number
+  /** Variance of the Laplacian; higher means crisper edges. */
+  sharpness: number
+  /** Mean brightness change per pixel since the previous frame; null for the first frame. */
+  motion: number | null
+  issue: FrameIssue | null
+}
+
+// Tuned for frames about 240px wide
+const MIN_BRIGHTNESS = 60
+const GLARE_LEVEL = 250
+const MAX_GLARE = 0.3
+const MAX_MOTION = 8
+const MIN_SHARPNESS = 100
+/** How long frames must stay good before one is captured on its own. */
+export const STEADY_CAPTURE_MS = 800
+
+export function measureBrightness(image: GrayImage): number {
+  return image.data.reduce((sum, value) => sum + value, 0) / Math.max(1, image.data.length)
+}
+
+export function measureGlare(image: GrayImage): number {
+  return image.data.reduce((count, value) => count + (value >= GLARE_LEVEL ? 1 : 0), 0) / Math.max(1, image.data.length)
+}
+
+/** Variance of the 4-neighbour Laplacian: sharp print has strong, varied edges, blur flattens them. */
+export function measureSharpness(image: GrayImage): number {
+  const { width, height, data } = image
+  let sum = 0
+  let sumOfSquares = 0
+  let count = 0
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x
+      const laplacian = data[index - 1] + data[index + 1] + data[index - width] + data[index + width] - 4 * data[index]
+      sum += laplacian
+      sumOfSquares += laplacian * laplacian
+      count++
+    }
+  }
+
+  if (count === 0) {
+    return 0
+  }
+
+  const mean = sum / count
+  return sumOfSquares / count - mean * mean
+}
+
+export function measureMotion(current: GrayImage, previous: GrayImage): number | null {
+  if (current.width !== previous.width || current.height !== previous.height) {
+    return null
+  }
+
+  let difference = 0
+  for (let index = 0; index < current.data.length; index++) {
+    difference += Math.abs(current.data[index] - previous.data[index])
+  }
+  return difference / Math.max(1, current.data.length)
+}
+
+export function assessFrame(current: GrayImage, previous: GrayImage | null): FrameQuality {
+  const brightness = measureBrightness(current)
+  const glare = measureGlare(current)
+  const sharpness = measureSharpness(current)
+  const motion = previous ? measureMotion(current, previous) : null
+
+  const issue: FrameIssue | null =
+    brightness < MIN_BRIGHTNESS
+      ? "too-dark"
+      : glare > MAX_GLARE
+        ? "glare"
+        : motion === null || motion > MAX_MOTION
+          ? "moving"
+          : sharpness < MIN_SHARPNESS
+            ? "blurry"
+            : null
+
+  return { brightness, glare, sharpness, motion, issue }
+}
+
+/** Time since which every frame has been good, or null when the latest one was not. */
+export function trackSteadiness(steadySince: number | null, quality: FrameQuality, now: number): number | null {
+  return quality.issue === null ? (steadySince ?? now) : null
+}
+
+export function isReadyToCapture(steadySince: number | null, now: number): boolean {
+  return steadySince !== null && now - steadySince >= STEADY_CAPTURE_MS
+}
@@ -0,0 +1,535 @@
+/** RGBA bytes row by row, as in `ImageData`. */
+export interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+/** One brightness byte per pixel, 0 black to 255 white. */
+export interface GrayImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** Corners in pixels: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point]
+
+export interface SauvolaOptions {
+  /** Side of the square neighbourhood in pixels; defaults to about 1/40 of the width. */
+  windowSize?: number
+  /** How far below the local mean a pixel must be to turn black. */
+  k?: number
+  /** Largest expected local standard deviation. */
+  dynamicRange?: number
+}
+
+export interface StraightenedReceipt {
+  image: GrayImage
+  /** Receipt outline found on the photo, or null when the photo was used as is. */
+  corners: Quad | null
+  /** Tilt of the text lines that was rotated away, in degrees. */
+  skewAngle: number
+  /** Maps a point on `image` to the photo, both as fractions of width and height. */
+  toSource: (point: Point) => Point
+}
+
+const WHITE = 255
+// Receipt outlines are found on a small copy; fine detail only adds noise
+const DETECTION_WIDTH = 240
+const MIN_RECEIPT_AREA = 0.15
+// A bright region this large is the receipt filling the frame, or the table
+const MAX_RECEIPT_AREA = 0.9
+// Share of its outline the bright region must cover to be a sheet of paper
+const MIN_RECEIPT_FILL = 0.75
+const MAX_SKEW_DEGREES = 10
+const COARSE_SKEW_STEP = 0.5
+const FINE_SKEW_STEP = 0.1
+const MIN_SKEW_CORRECTION = 0.3
+const SKEW_SAMPLE_PIXELS = 250_000
+const MIN_SKEW_SAMPLES = 50
+const CONTRAST_CLIP = 0.01
+
+export function toGrayscale(image: RgbaImage): GrayImage {
+  const gray = new Uint8ClampedArray(image.width * image.height)
+  for (let pixel = 0; pixel < gray.length; pixel++) {
+    const index = pixel * 4
+    gray[pixel] = image.data[index] * 0.299 + image.data[index + 1] * 0.587 + image.data[index + 2] * 0.114
+  }
+
+  return { width: image.width, height: image.height, data: gray }
+}
+
+export function toRgba(image: GrayImage): RgbaImage {
+  const data = new Uint8ClampedArray(image.width * image.height * 4)
+  for (let pixel = 0; pixel < image.data.length; pixel++) {
+    const index = pixel * 4
+    data[index] = image.data[pixel]
+    data[index + 1] = image.data[pixel]
+    data[index + 2] = image.data[pixel]
+    data[index + 3] = 255
+  }
+
+  return { width: image.width, height: image.height, data }
+}
+
+function histogramOf(image: GrayImage): number[] {
+  const histogram = new Array<number>(256).fill(0)
+  for (const value of image.data) {
+    histogram[value]++
+  }
+  return histogram
+}
+
+/** Otsu's global threshold: values at or below it are the dark class. */
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = histogramOf(image)
+  const total = image.data.length
+  const weightedTotal = histogram.reduce((sum, count, value) => sum + count * value, 0)
+
+  let darkCount = 0
+  let darkSum = 0
+  let bestThreshold = 0
+  let bestVariance = -1
+  for (let threshold = 0; threshold < 256; threshold++) {
+    darkCount += histogram[threshold]
+    darkSum += threshold * histogram[threshold]
+
+    const brightCount = total - darkCount
+    if (darkCount === 0) {
+      continue
+    }
+    if (brightCount === 0) {
+      break
+    }
+
+    const meanGap = darkSum / darkCount - (weightedTotal - darkSum) / brightCount
+    const variance = darkCount * brightCount * meanGap * meanGap
+    if (variance > bestVariance) {
+      bestVariance = variance
+      bestThreshold = threshold
+    }
+  }
+
+  return bestThreshold
+}
+
+/** Shrinks by averaging blocks of pixels; images already narrow enough are returned as is. */
+function downscale(image: GrayImage, maxWidth: number): GrayImage {
+  if (image.width <= maxWidth) {
+    return image
+  }
+
+  const scale = image.width / maxWidth
+  const width = maxWidth
+  const height = Math.max(1, Math.round(image.height / scale))
+  const data = new Uint8ClampedArray(width * height)
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor((y * image.height) / height)
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * image.height) / height))
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scale)
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scale))
+
+      let sum = 0
+      for (let sourceY = y0; sourceY < y1; sourceY++) {
+        for (let sourceX = x0; sourceX < x1; sourceX++) {
+          sum += image.data[sourceY * image.width + sourceX]
+        }
+      }
+      data[y * width + x] = sum / ((x1 - x0) * (y1 - y0))
+    }
+  }
+
+  return { width, height, data }
+}
+
+const quadArea = (quad: Quad) =>
+  Math.abs(
+    quad.reduce((sum, point, index) => {
+      const next = quad[(index + 1) % quad.length]
+      return sum + point.x * next.y - next.x * point.y
+    }, 0)
+  ) / 2
+
+/**
+ * Finds the outline of a receipt photographed on a darker background: the
+ * largest bright region, with its corners at the extremes of x + y and
+ * x - y. Returns null when no sheet-shaped region stands out, including when
+ * the receipt already fills the photo.
+ */
+export function detectReceiptCorners(image: GrayImage): Quad | null {
+  const small = downscale(image, DETECTION_WIDTH)
+  const { width, height, data } = small
+  const threshold = otsuThreshold(small)
+
+  const labels = new Int32Array(width * height)
+  const stack = new Int32Array(width * height)
+  let bestLabel = 0
+  let bestSize = 0
+  let nextLabel = 0
+
+  for (let start = 0; start < data.length; start++) {
+    if (data[start] <= threshold || labels[start] !== 0) {
+      continue
+    }
+
+    const label = ++nextLabel
+    let size = 0
+    let stackSize = 0
+    labels[start] = label
+    stack[stackSize++] = start
+
+    while (stackSize > 0) {
+      const pixel = stack[--stackSize]
+      size++
+
+      const x = pixel % width
+      const neighbours = [
+        x > 0 ? pixel - 1 : -1,
+        x < width - 1 ? pixel + 1 : -1,
+        pixel - width,
+        pixel + width < data.length ? pixel + width : -1,
+      ]
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && labels[neighbour] === 0 && data[neighbour] > threshold) {
+          labels[neighbour] = label
+          stack[stackSize++] = neighbour
+        }
+      }
+    }
+
+    if (size > bestSize) {
+      bestSize = size
+      bestLabel = label
+    }
+  }
+
+  const imageArea = width * height
+  if (bestSize < imageArea * MIN_RECEIPT_AREA) {
+    return null
+  }
+
+  let topLeft = { x: 0, y: 0, score: Infinity }
+  let bottomRight = { x: 0, y: 0, score: -Infinity }
+  let topRight = { x: 0, y: 0, score: -Infinity }
+  let bottomLeft = { x: 0, y: 0, score: Infinity }
+  for (let pixel = 0; pixel < labels.length; pixel++) {
+    if (labels[pixel] !== bestLabel) {
+      continue
+    }
+
+    const x = pixel % width
+    const y = Math.floor(pixel / width)
+    if (x + y < topLeft.score) {
+      topLeft = { x, y, score: x + y }
+    }
+    if (x + y > bottomRight.score) {
+      bottomRight = { x, y, score: x + y }
+    }
+    if (x - y > topRight.score) {
+      topRight = { x, y, score: x - y }
+    }
+    if (x - y < bottomLeft.score) {
+      bottomLeft = { x, y, score: x - y }
+    }
+  }
+
+  // Outer corners of the extreme pixels
+  const smallQuad: Quad = [
+    { x: topLeft.x, y: topLeft.y },
+    { x: topRight.x + 1, y: topRight.y },
+    { x: bottomRight.x + 1, y: bottomRight.y + 1 },
+    { x: bottomLeft.x, y: bottomLeft.y + 1 },
+  ]
+  const area = quadArea(smallQuad)
+  if (area > imageArea * MAX_RECEIPT_AREA || bestSize < area * MIN_RECEIPT_FILL) {
+    return null
+  }
+
+  const scaleX = image.width / width
+  const scaleY = image.height / height
+  return smallQuad.map((point) => ({ x: point.x * scaleX, y: point.y * scaleY })) as Quad
+}
+
+/** Projective map from the unit square onto the quad, corner for corner (Heckbert). */
+export function squareToQuad([p0, p1, p2, p3]: Quad): (s: number, t: number) => Point {
+  const sx = p0.x - p1.x + p2.x - p3.x
+  const sy = p0.y - p1.y + p2.y - p3.y
+  const dx1 = p1.x - p2.x
+  const dx2 = p3.x - p2.x
+  const dy1 = p1.y - p2.y
+  const dy2 = p3.y - p2.y
+  const denominator = dx1 * dy2 - dx2 * dy1
+
+  const g = denominator === 0 ? 0 : (sx * dy2 - dx2 * sy) / denominator
+  const h = denominator === 0 ? 0 : (dx1 * sy - sx * dy1) / denominator
+  const a = p1.x - p0.x + g * p1.x
+  const b = p3.x - p0.x + h * p3.x
+  const d = p1.y - p0.y + g * p1.y
+  const e = p3.y - p0.y + h * p3.y
+
+  return (s, t) => {
+    const w = g * s + h * t + 1
+    return { x: (a * s + b * t + p0.x) / w, y: (d * s + e * t + p0.y) / w }
+  }
+}
+
+/** Bilinear sample at pixel coordinates; outside the image reads as white paper. */
+function sample(image: GrayImage, x: number, y: number): number {
+  if (x < -0.5 || y < -0.5 || x > image.width - 0.5 || y > image.height - 0.5) {
+    return WHITE
+  }
+
+  const clampedX = Math.min(Math.max(x, 0), image.width - 1)
+  const clampedY = Math.min(Math.max(y, 0), image.height - 1)
+  const x0 = Math.floor(clampedX)
+  const y0 = Math.floor(clampedY)
+  const x1 = Math.min(x0 + 1, image.width - 1)
+  const y1 = Math.min(y0 + 1, image.height - 1)
+  const fx = clampedX - x0
+  const fy = clampedY - y0
+
+  const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx
+  const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx
+  return top * (1 - fy) + bottom * fy
+}
+
+/** Maps the quad onto an upright `width` x `height` image. */
+export function warpPerspective(image: GrayImage, quad: Quad, width: number, height: number): GrayImage {
+  const toQuad = squareToQuad(quad)
+  const data = new Uint8ClampedArray(width * height)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = toQuad((x + 0.5) / width, (y + 0.5) / height)
+      data[y * width + x] = sample(image, source.x - 0.5, source.y - 0.5)
+    }
+  }
+
+  return { width, height, data }
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+/** Size of the upright image a quad maps onto, from its longer opposite sides. */
+export function quadSize([topLeft, topRight, bottomRight, bottomLeft]: Quad): { width: number; height: number } {
+  return {
+    width: Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)),
+    height: Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)),
+  }
+}
+
+/**
+ * Tilt of the text lines in degrees, positive when they descend to the
+ * right. Tries angles up to 10 degrees either way and keeps the one whose
+ * row profile of dark pixels has the sharpest peaks.
+ */
+export function estimateSkewAngle(image: GrayImage): number {
+  const { width, height, data } = image
+  const threshold = otsuThreshold(image)
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / SKEW_SAMPLE_PIXELS)))
+
+  const xs: number[] = []
+  const ys: number[] = []
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (data[y * width + x] <= threshold) {
+        xs.push(x)
+        ys.push(y)
+      }
+    }
+  }
+
+  if (xs.length < MIN_SKEW_SAMPLES) {
+    return 0
+  }
+
+  const offset = Math.ceil(width / step) + 1
+  const bins = new Float64Array(Math.ceil((width + height) / step) + 3)
+  const profileSharpness = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+
+    bins.fill(0)
+    for (let index = 0; index < xs.length; index++) {
+      bins[Math.round((ys[index] * cos - xs[index] * sin) / step) + offset]++
+    }
+    return bins.reduce((sum, count) => sum + count * count, 0)
+  }
+
+  const bestOf = (from: number, to: number, stepDegrees: number, initial: number) => {
+    let best = initial
+    let bestScore = profileSharpness(initial)
+    for (let degrees = from; degrees <= to + 1e-9; degrees += stepDegrees) {
+      const score = profileSharpness(degrees)
+      if (score > bestScore) {
+        best = degrees
+        bestScore = score
+      }
+    }
+    return best
+  }
+
+  const coarse = bestOf(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, COARSE_SKEW_STEP, 0)
+  const fine = bestOf(coarse - COARSE_SKEW_STEP, coarse + COARSE_SKEW_STEP, FINE_SKEW_STEP, coarse)
+  return Math.round(fine * 10) / 10
+}
+
+/** Canvas size of a rotation and the map from its pixels back to the original's. */
+function rotationGeometry(width: number, height: number, degrees: number) {
+  const radians = (degrees * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  const rotatedWidth = Math.ceil(width * Math.abs(cos) + height * Math.abs(sin) - 1e-9)
+  const rotatedHeight = Math.ceil(width * Math.abs(sin) + height * Math.abs(cos) - 1e-9)
+
+  return {
+    width: rotatedWidth,
+    height: rotatedHeight,
+    toSource: (x: number, y: number): Point => {
+      const dx = x - rotatedWidth / 2
+      const dy = y - rotatedHeight / 2
+      return { x: dx * cos + dy * sin + width / 2, y: -dx * sin + dy * cos + height / 2 }
+    },
+  }
+}
+
+/** Rotates clockwise by `degrees`, growing the canvas so no corner is cut off. */
+export function rotateImage(image: GrayImage, degrees: number): GrayImage {
+  const rotation = rotationGeometry(image.width, image.height, degrees)
+  const data = new Uint8ClampedArray(rotation.width * rotation.height)
+
+  for (let y = 0; y < rotation.height; y++) {
+    for (let x = 0; x < rotation.width; x++) {
+      const source = rotation.toSource(x + 0.5, y + 0.5)
+      data[y * rotation.width + x] = sample(image, source.x - 0.5, source.y - 0.5)
+    }
+  }
+
+  return { width: rotation.width, height: rotation.height, data }
+}
+
+/**
+ * Sauvola binarization: each pixel is compared with a threshold from the
+ * mean and spread of its neighbourhood, so text stays black under shadows
+ * and glare where one global threshold would wash it out.
+ */
+export function sauvolaThreshold(image: GrayImage, options: SauvolaOptions = {}): GrayImage {
+  const { width, height, data } = image
+  const { k = 0.2, dynamicRange = 128 } = options
+  const windowSize = options.windowSize ?? Math.max(15, Math.round(width / 40))
+  const radius = Math.floor(windowSize / 2)
+
+  // Summed-area tables make every window's mean and variance O(1)
+  const stride = width + 1
+  const sums = new Float64Array(stride * (height + 1))
+  const squares = new Float64Array(stride * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    let rowSquares = 0
+    for (let x = 0; x < width; x++) {
+      const value = data[y * width + x]
+      rowSum += value
+      rowSquares += value * value
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum
+      squares[(y + 1) * stride + x + 1] = squares[y * stride + x + 1] + rowSquares
+    }
+  }
+
+  const areaSum = (table: Float64Array, x0: number, y0: number, x1: number, y1: number) =>
+    table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0]
+
+  const binary = new Uint8ClampedArray(width * height)
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius)
+    const y1 = Math.min(height, y + radius + 1)
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius)
+      const x1 = Math.min(width, x + radius + 1)
+      const count = (x1 - x0) * (y1 - y0)
+      const mean = areaSum(sums, x0, y0, x1, y1) / count
+      const deviation = Math.sqrt(Math.max(0, areaSum(squares, x0, y0, x1, y1) / count - mean * mean))
+      const threshold = mean * (1 + k * (deviation / dynamicRange - 1))
+
+      binary[y * width + x] = data[y * width + x] <= threshold ? 0 : WHITE
+    }
+  }
+
+  return { width, height, data: binary }
+}
+
+/** Spreads the brightness range to 0-255, ignoring the darkest and brightest 1% of pixels. */
+export function stretchContrast(image: GrayImage): GrayImage {
+  const histogram = histogramOf(image)
+  const clipCount = image.data.length * CONTRAST_CLIP
+
+  let low = 0
+  let darkSeen = histogram[0]
+  while (darkSeen <= clipCount && low < 255) {
+    low++
+    darkSeen += histogram[low]
+  }
+
+  let high = 255
+  let brightSeen = histogram[255]
+  while (brightSeen <= clipCount && high > 0) {
+    high--
+    brightSeen += histogram[high]
+  }
+
+  if (high <= low) {
+    return { ...image, data: image.data.slice() }
+  }
+
+  const data = new Uint8ClampedArray(image.data.length)
+  for (let pixel = 0; pixel < data.length; pixel++) {
+    data[pixel] = ((image.data[pixel] - low) * 255) / (high - low)
+  }
+
+  return { width: image.width, height: image.height, data }
+}
+
+/**
+ * Crops the receipt out of the photo, corrects its perspective, scales it
+ * to at most `maxWidth` and rotates away any remaining tilt of the text.
+ */
+export function straightenReceipt(photo: RgbaImage, maxWidth: number): StraightenedReceipt {
+  const gray = toGrayscale(photo)
+  const corners = detectReceiptCorners(gray)
+  const quad: Quad = corners ?? [
+    { x: 0, y: 0 },
+    { x: gray.width, y: 0 },
+    { x: gray.width, y: gray.height },
+    { x: 0, y: gray.height },
+  ]
+
+  const size = quadSize(quad)
+  const scale = Math.min(1, maxWidth / size.width)
+  const width = Math.max(1, Math.round(size.width * scale))
+  const height = Math.max(1, Math.round(size.height * scale))
+  const warped = warpPerspective(gray, quad, width, height)
+
+  const measuredSkew = estimateSkewAngle(warped)
+  const skewAngle = Math.abs(measuredSkew) >= MIN_SKEW_CORRECTION ? measuredSkew : 0
+  const rotation = rotationGeometry(width, height, -skewAngle)
+  const toQuad = squareToQuad(quad)
+
+  return {
+    image: skewAngle === 0 ? warped : rotateImage(warped, -skewAngle),
+    corners,
+    skewAngle,
+    toSource: (point) => {
+      const unrotated = rotation.toSource(point.x * rotation.width, point.y * rotation.height)
+      const source = toQuad(unrotated.x / width, unrotated.y / height)
+      return { x: source.x / gray.width, y: source.y / gray.height }
+    },
+  }
+}
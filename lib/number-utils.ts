@@ -1,11 +1,36 @@
-type NumberFormat = 'european' | 'us' | 'mixed'
+import { getReceiptKeywords, type ReceiptKeywords } from './receipt-keywords'
+
+export type NumberFormat = 'european' | 'us' | 'mixed'
 
 const RECEIPT_AMOUNT_PATTERN = /(?:[$€£¥₹₽]\s*)?(\d{1,3}(?:[.,'’\s]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)(?:\s*[$€£¥₹₽])?/g
+const AMOUNT_INPUT_PATTERN = /^[$€£¥₹₽]?\s*\d[\d.,'’\s\u00A0\u202F]*\s*[$€£¥₹₽]?$/
+
+// Letters Tesseract commonly returns for digits on thermal receipt print
+const OCR_DIGIT_CONFUSIONS: Record<string, string> = { O: '0', o: '0', I: '1', l: '1', '|': '1', S: '5', B: '8' }
+const CONFUSABLE_DIGIT = '[\\dOoIl|SB]'
+// Money-shaped tokens: digits or confusable letters with a two-digit decimal part
+const OCR_MONEY_TOKEN_PATTERN = new RegExp(
+  `(?<![\\p{L}\\d])[$€£¥₹₽]?(?:${CONFUSABLE_DIGIT}{1,3}(?:[.,'’]${CONFUSABLE_DIGIT}{3})+|${CONFUSABLE_DIGIT}+)[.,;]${CONFUSABLE_DIGIT}{2}(?![\\p{L}\\d])`,
+  'gu'
+)
+// A line-final amount with spaces around its separator ("12 .50"), or with the
+// separator read as a space; only a currency symbol shows the latter is money
+// ("$12 50"), since "Table 12 50" or "Order 4821 17" are not
+const OCR_SPLIT_AMOUNT_PATTERN =
+  /(?<![\d.,]\s?)([$€£¥₹₽]\s*)?\b(\d{1,5})(\s*[.,]\s*|\s)(\d{2})(\s*[$€£¥₹₽])?\s*$/
 
 export interface ExtractedAmount {
   value: number
   context: string
   lineIndex: number
+  /** The amount was only readable after repairing OCR digit confusions. */
+  corrected?: boolean
+}
+
+export interface OcrAmountCorrection {
+  text: string
+  /** Start and end offsets in `text` of the tokens that were repaired. */
+  correctedRanges: [start: number, end: number][]
 }
 
 export interface CategorizedAmount extends ExtractedAmount {
@@ -89,6 +114,71 @@ export function parseCurrencyString(valueStr: string, formatHint: NumberFormat =
   return Number.isFinite(value) ? value : null
 }
 
+export function getNumberFormatForLocale(locale?: string): NumberFormat {
+  const decimalPart = new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')
+  return decimalPart?.value === ',' ? 'european' : 'us'
+}
+
+/**
+ * Whether a typed amount has at most one decimal separator, which is not also
+ * used for grouping, and groups of exactly three digits, e.g. not "12,5,0" or "12..5".
+ */
+function hasWellFormedSeparators(value: string): boolean {
+  const body = value.replace(/[$€£¥₹₽]/g, '').trim()
+  const decimal = /([.,])\d{1,2}$/.exec(body)
+  const integerPart = decimal ? body.slice(0, decimal.index) : body
+  if (decimal && integerPart.includes(decimal[1])) {
+    return false
+  }
+
+  const [leadingGroup, ...groups] = integerPart.split(/[.,'’\s\u00A0\u202F]/)
+  return groups.length === 0
+    ? /^\d+$/.test(leadingGroup)
+    : /^\d{1,3}$/.test(leadingGroup) && groups.every((group) => /^\d{3}$/.test(group))
+}
+
+/**
+ * Parses an amount typed by the user, e.g. "12,50" or "1.234,56" in a
+ * European locale. Unlike receipt parsing this is strict: anything besides
+ * digits, separators and a currency symbol is rejected, and so are several
+ * decimal separators, groups that aren't three digits long and a decimal part
+ * longer than two digits after the locale's decimal separator.
+ */
+export function parseAmountInput(value: string, locale?: string): number | null {
+  const trimmed = value.trim()
+  if (!AMOUNT_INPUT_PATTERN.test(trimmed)) {
+    return null
+  }
+
+  const formatHint = getNumberFormatForLocale(locale)
+  const decimalSeparator = formatHint === 'european' ? ',' : '.'
+  const groupSeparator = formatHint === 'european' ? '.' : ','
+  const decimalParts = trimmed.split(decimalSeparator)
+  const hasOverlongDecimals =
+    !trimmed.includes(groupSeparator) && decimalParts.length === 2 && /\d{3,}\D*$/.test(decimalParts[1])
+
+  if (hasOverlongDecimals || !hasWellFormedSeparators(trimmed)) {
+    return null
+  }
+
+  const parsed = parseCurrencyString(trimmed, formatHint)
+  return parsed !== null && parsed >= 0 ? parsed : null
+}
+
+/**
+ * Parses a plain number typed by the user, such as a weight or a percentage.
+ * Unlike amounts these aren't grouped, so a single dot or comma is always the
+ * decimal separator, whatever the locale: "1.5" and "1,5" are both 1.5.
+ */
+export function parseNumberInput(value: string): number | null {
+  const trimmed = value.trim()
+  if (!/^\d+(?:[.,]\d+)?$/.test(trimmed)) {
+    return null
+  }
+
+  return Number.parseFloat(trimmed.replace(',', '.'))
+}
+
 export function detectNumberFormat(text: string): NumberFormat {
   const matches = text.match(/\b\d{1,3}(?:[.,'’\s]\d{3})*(?:[.,]\d{1,2})?\b/g)
 
@@ -144,24 +234,79 @@ export function detectNumberFormat(text: string): NumberFormat {
   return 'mixed'
 }
 
+/**
+ * Repairs common OCR confusions inside money-like tokens of one line: letters
+ * read for digits ("1O.5O", "S.99", "l2.B0"), a semicolon read for the
+ * separator, and a line-final amount split by spaces ("12 .50", "$12 50").
+ * Words are left alone because a token must already contain a real digit and
+ * end in a two-digit decimal part.
+ */
+export function correctOcrAmounts(line: string): OcrAmountCorrection {
+  const correctedRanges: [number, number][] = []
+  let text = ''
+  let lastIndex = 0
+
+  for (const match of line.matchAll(OCR_MONEY_TOKEN_PATTERN)) {
+    const token = match[0]
+    const repaired = token.replace(/[OoIl|SB]/g, (char) => OCR_DIGIT_CONFUSIONS[char]).replace(';', ',')
+    if (repaired === token || !/\d/.test(token)) {
+      continue
+    }
+
+    text += line.slice(lastIndex, match.index)
+    correctedRanges.push([text.length, text.length + repaired.length])
+    text += repaired
+    lastIndex = match.index + token.length
+  }
+  text += line.slice(lastIndex)
+
+  const split = OCR_SPLIT_AMOUNT_PATTERN.exec(text)
+  const [, symbol, integerPart = '', gap = '', fractionPart = '', trailingSymbol] = split ?? []
+  const separator = gap.trim()
+  const isSplit = separator ? separator !== gap : Boolean(symbol || trailingSymbol)
+  if (split && isSplit) {
+    const original = `${integerPart}${gap}${fractionPart}`
+    const repaired = `${integerPart}${separator || '.'}${fractionPart}`
+    const removed = original.length - repaired.length
+    const start = split.index + (symbol?.length ?? 0)
+
+    text = text.slice(0, start) + repaired + text.slice(start + original.length)
+    for (const range of correctedRanges) {
+      if (range[0] > start) {
+        range[0] -= removed
+        range[1] -= removed
+      }
+    }
+    correctedRanges.push([start, start + repaired.length])
+  }
+
+  return { text, correctedRanges }
+}
+
 export function findAmountsInText(text: string): ExtractedAmount[] {
   const lines = text.split('\n')
   const amounts: ExtractedAmount[] = []
   const formatHint = detectNumberFormat(text)
 
   for (const [index, line] of lines.entries()) {
-    const lineText = line.replace(/\s+/g, ' ').trim()
-    const matches = line.matchAll(RECEIPT_AMOUNT_PATTERN)
+    const { text: correctedLine, correctedRanges } = correctOcrAmounts(line)
+    const lineText = correctedLine.replace(/\s+/g, ' ').trim()
+    const matches = correctedLine.matchAll(RECEIPT_AMOUNT_PATTERN)
 
     for (const match of matches) {
       const valueStr = match[1]
       const value = parseCurrencyString(valueStr, formatHint)
 
       if (value !== null && isValidReceiptAmount(value)) {
+        const start = match.index
+        const end = start + match[0].length
+        const corrected = correctedRanges.some(([rangeStart, rangeEnd]) => start < rangeEnd && end > rangeStart)
+
         amounts.push({
           value,
           context: lineText,
           lineIndex: index,
+          ...(corrected ? { corrected } : {}),
         })
       }
     }
@@ -182,20 +327,21 @@ export function isValidReceiptAmount(value: number): boolean {
 
 export function validateTotalRelationship(
   total: number,
-  allAmounts: ExtractedAmount[]
+  allAmounts: ExtractedAmount[],
+  keywords: ReceiptKeywords = getReceiptKeywords()
 ): { valid: boolean; confidence: number } {
   const subtotalCandidates = allAmounts
-    .filter((a) => /SUB\s*TOTAL|SUBTOTAL|SUB-TOTAL|BEFORE\s*TAX/i.test(a.context))
+    .filter((a) => keywords.subtotal.test(a.context))
     .sort((a, b) => b.lineIndex - a.lineIndex)
     .slice(0, 5)
 
   const taxCandidates = allAmounts
-    .filter((a) => /(?:TAX|HST|GST|PST|VAT)\b/i.test(a.context))
+    .filter((a) => keywords.tax.test(a.context))
     .sort((a, b) => b.lineIndex - a.lineIndex)
     .slice(0, 5)
 
   const tipCandidates = allAmounts
-    .filter((a) => /(?:TIP|GRATUITY|SERVICE)\b/i.test(a.context))
+    .filter((a) => keywords.tip.test(a.context))
     .sort((a, b) => b.lineIndex - a.lineIndex)
     .slice(0, 5)
 
@@ -249,35 +395,36 @@ export function validateTotalRelationship(
   return { valid: false, confidence: 0 }
 }
 
-export function categorizeAmount(amount: ExtractedAmount, allAmounts: ExtractedAmount[]): CategorizedAmount {
+export function categorizeAmount(
+  amount: ExtractedAmount,
+  allAmounts: ExtractedAmount[],
+  keywords: ReceiptKeywords = getReceiptKeywords()
+): CategorizedAmount {
   const context = amount.context.toUpperCase()
   const value = amount.value
 
-  const isPaymentLine = /\b(CASH|CHANGE|TENDERED|PAID|APPROVAL|AUTH|CARD|VISA|MASTERCARD|AMEX)\b/i.test(context)
+  const isPaymentLine = keywords.payment.test(context)
   if (isPaymentLine) {
     return { ...amount, category: 'payment' }
   }
 
-  if (/(?:GRAND\s*TOTAL|TOTAL\s*DUE|AMOUNT\s*DUE|BALANCE\s*DUE|PLEASE\s*PAY|FINAL\s+AMOUNT|TO\s*PAY)/i.test(context)) {
+  if (keywords.grandTotal.test(context)) {
     return { ...amount, category: 'total' }
   }
 
-  if (
-    /(?:^|\s)TOTAL[:\s]/im.test(context) &&
-    !/(?:SUB|ITEM|SAVINGS?|DISCOUNT|MERCHANDISE|FOOD|ITEMS?)\s*TOTAL/i.test(context)
-  ) {
+  if (keywords.total.test(context) && !keywords.misleadingTotal.test(context) && !keywords.subtotal.test(context)) {
     return { ...amount, category: 'total' }
   }
 
-  if (/SUB\s*TOTAL|SUBTOTAL|SUB-TOTAL|BEFORE\s*TAX/i.test(context)) {
+  if (keywords.subtotal.test(context)) {
     return { ...amount, category: 'subtotal' }
   }
 
-  if (/TAX|HST|GST|PST|VAT/i.test(context)) {
+  if (keywords.tax.test(context)) {
     return { ...amount, category: 'tax' }
   }
 
-  if (/TIP|GRATUITY|SERVICE/i.test(context)) {
+  if (keywords.tip.test(context)) {
     return { ...amount, category: 'tip' }
   }
 
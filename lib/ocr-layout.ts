@@ -0,0 +1,190 @@
+import type Tesseract from "tesseract.js"
+
+import { findAmountsInText } from "./number-utils"
+
+/** Position on the image as fractions (0 to 1) of its width and height. */
+export interface OcrBox {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+export interface OcrWord {
+  text: string
+  /** Between 0 and 1. */
+  confidence: number
+  bbox: OcrBox
+}
+
+export interface OcrLine {
+  text: string
+  /** Mean confidence of the line's words, between 0 and 1. */
+  confidence: number
+  bbox: OcrBox
+  words: OcrWord[]
+}
+
+/** Recognized lines in reading order; `lines[i]` is line `i` of the OCR text. */
+export interface OcrLayout {
+  lines: OcrLine[]
+}
+
+export interface LocatedAmount {
+  bbox: OcrBox
+  /** Lowest confidence among the words the amount was read from. */
+  confidence: number
+}
+
+type TesseractWord = Pick<Tesseract.Word, "text" | "confidence" | "bbox">
+
+/** The parts of Tesseract's block output the layout is built from. */
+export interface TesseractBlockInput {
+  paragraphs: { lines: { words: TesseractWord[] }[] }[]
+}
+
+// Two fragments are one printed row when they share most of their height
+const ROW_OVERLAP_RATIO = 0.5
+const PRICE_COLUMN_TOLERANCE = 0.03
+const MIN_PRICE_COLUMN_LINES = 3
+const MAX_AMOUNT_WORDS = 3
+
+const unionBox = (boxes: OcrBox[]): OcrBox => ({
+  x0: Math.min(...boxes.map((box) => box.x0)),
+  y0: Math.min(...boxes.map((box) => box.y0)),
+  x1: Math.max(...boxes.map((box) => box.x1)),
+  y1: Math.max(...boxes.map((box) => box.y1)),
+})
+
+function toLine(words: OcrWord[]): OcrLine {
+  const sortedWords = [...words].sort((a, b) => a.bbox.x0 - b.bbox.x0)
+
+  return {
+    text: sortedWords.map((word) => word.text).join(" "),
+    confidence: sortedWords.reduce((sum, word) => sum + word.confidence, 0) / sortedWords.length,
+    bbox: unionBox(sortedWords.map((word) => word.bbox)),
+    words: sortedWords,
+  }
+}
+
+function isSameRow(a: OcrBox, b: OcrBox): boolean {
+  const verticalOverlap = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0)
+  const smallerHeight = Math.min(a.y1 - a.y0, b.y1 - b.y0)
+  const horizontallyApart = a.x1 <= b.x0 || b.x1 <= a.x0
+
+  return horizontallyApart && smallerHeight > 0 && verticalOverlap >= smallerHeight * ROW_OVERLAP_RATIO
+}
+
+/**
+ * Flattens Tesseract's blocks into lines with word boxes and confidences.
+ * Tesseract often returns a label and its right-aligned price as separate
+ * lines when the gap between them is wide; fragments that share a row are
+ * joined so every label is paired with its amount again.
+ */
+export function buildOcrLayout(blocks: TesseractBlockInput[], width: number, height: number): OcrLayout {
+  const fragments = blocks
+    .flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines))
+    .map((line) =>
+      line.words
+        .filter((word) => word.text.trim())
+        .map(
+          (word): OcrWord => ({
+            text: word.text.trim(),
+            confidence: Math.min(1, Math.max(0, word.confidence / 100)),
+            bbox: {
+              x0: word.bbox.x0 / width,
+              y0: word.bbox.y0 / height,
+              x1: word.bbox.x1 / width,
+              y1: word.bbox.y1 / height,
+            },
+          })
+        )
+    )
+    .filter((words) => words.length > 0)
+    .map(toLine)
+
+  const rows: OcrLine[] = []
+  for (const fragment of fragments) {
+    const rowIndex = rows.findIndex((row) => isSameRow(row.bbox, fragment.bbox))
+    if (rowIndex === -1) {
+      rows.push(fragment)
+    } else {
+      rows[rowIndex] = toLine([...rows[rowIndex].words, ...fragment.words])
+    }
+  }
+
+  return { lines: rows.sort((a, b) => a.bbox.y0 - b.bbox.y0) }
+}
+
+export function layoutToText(layout: OcrLayout): string {
+  return layout.lines.map((line) => line.text).join("\n")
+}
+
+/**
+ * Finds the words an amount was read from, preferring the rightmost and
+ * shortest run of words, and returns their box and lowest confidence.
+ */
+export function locateAmount(line: OcrLine | undefined, value: number): LocatedAmount | null {
+  if (!line) {
+    return null
+  }
+
+  const cents = Math.round(value * 100)
+  for (let length = 1; length <= MAX_AMOUNT_WORDS; length++) {
+    for (let start = line.words.length - length; start >= 0; start--) {
+      const words = line.words.slice(start, start + length)
+      const readsAsAmount = findAmountsInText(words.map((word) => word.text).join(" ")).some(
+        (amount) => Math.round(amount.value * 100) === cents
+      )
+
+      if (readsAsAmount) {
+        return {
+          bbox: unionBox(words.map((word) => word.bbox)),
+          confidence: Math.min(...words.map((word) => word.confidence)),
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Right edge of the receipt's price column: the median right edge of lines
+ * that end in a number. Null when too few lines do to tell.
+ */
+export function findPriceColumn(layout: OcrLayout): number | null {
+  const rightEdges = layout.lines
+    .map((line) => line.words[line.words.length - 1])
+    .filter((word) => /\d/.test(word.text))
+    .map((word) => word.bbox.x1)
+    .sort((a, b) => a - b)
+
+  if (rightEdges.length < MIN_PRICE_COLUMN_LINES) {
+    return null
+  }
+
+  return rightEdges[Math.floor(rightEdges.length / 2)]
+}
+
+/** Bounds of a box after moving its corners, e.g. back onto the photo it was cropped from. */
+export function transformBox(bbox: OcrBox, transform: (point: { x: number; y: number }) => { x: number; y: number }): OcrBox {
+  const corners = [
+    transform({ x: bbox.x0, y: bbox.y0 }),
+    transform({ x: bbox.x1, y: bbox.y0 }),
+    transform({ x: bbox.x1, y: bbox.y1 }),
+    transform({ x: bbox.x0, y: bbox.y1 }),
+  ]
+  const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+  return {
+    x0: clamp(Math.min(...corners.map((corner) => corner.x))),
+    y0: clamp(Math.min(...corners.map((corner) => corner.y))),
+    x1: clamp(Math.max(...corners.map((corner) => corner.x))),
+    y1: clamp(Math.max(...corners.map((corner) => corner.y))),
+  }
+}
+
+export function isInPriceColumn(bbox: OcrBox, priceColumn: number): boolean {
+  return Math.abs(bbox.x1 - priceColumn) <= PRICE_COLUMN_TOLERANCE
+}
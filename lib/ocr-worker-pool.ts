@@ -0,0 +1,226 @@
+export interface PoolWorker {
+  terminate: () => Promise<unknown>
+}
+
+export interface WorkerPoolOptions<W extends PoolWorker> {
+  /** Starts a worker; `onProgress` reports the progress (0-100) of whichever job it is running. */
+  create: (onProgress: (progress: number) => void) => Promise<W>
+  size: number
+  /** Idle workers are stopped after this long to give their memory back. */
+  idleTimeoutMs?: number
+}
+
+export interface RunOptions {
+  signal?: AbortSignal
+  /** Drops the job while it waits for a worker; once started, it runs to the end and keeps its worker. */
+  queueSignal?: AbortSignal
+  onProgress?: (progress: number) => void
+}
+
+export interface WorkerPool<W extends PoolWorker> {
+  /**
+   * Runs a job on the next free worker. Aborting `signal` rejects with its
+   * reason: a queued job is dropped and a running one has its worker stopped,
+   * since a job can't be interrupted any other way. Aborting `queueSignal`
+   * only drops the job if it hasn't started yet.
+   */
+  run: <T>(job: (worker: W) => Promise<T>, options?: RunOptions) => Promise<T>
+  /** Starts workers ahead of the first job so it doesn't wait for them to load. */
+  warmUp: (count?: number) => Promise<void>
+  terminate: () => Promise<void>
+}
+
+interface Slot<W> {
+  worker: Promise<W>
+  onProgress: ((progress: number) => void) | null
+  idleTimer: ReturnType<typeof setTimeout> | null
+}
+
+interface Waiter<W> {
+  resolve: (slot: Slot<W>) => void
+  reject: (reason: unknown) => void
+}
+
+function rejectOnAbort(signal: AbortSignal | undefined): { promise: Promise<never>; cleanup: () => void } {
+  if (!signal) {
+    return { promise: new Promise<never>(() => undefined), cleanup: () => undefined }
+  }
+
+  let onAbort: () => void = () => undefined
+  const promise = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason)
+    signal.addEventListener("abort", onAbort, { once: true })
+  })
+
+  return { promise, cleanup: () => signal.removeEventListener("abort", onAbort) }
+}
+
+export function createWorkerPool<W extends PoolWorker>({
+  create,
+  size,
+  idleTimeoutMs,
+}: WorkerPoolOptions<W>): WorkerPool<W> {
+  const slots = new Set<Slot<W>>()
+  const idle: Slot<W>[] = []
+  const waiters: Waiter<W>[] = []
+
+  const removeSlot = (slot: Slot<W>): boolean => {
+    if (!slots.delete(slot)) {
+      return false
+    }
+
+    if (slot.idleTimer) {
+      clearTimeout(slot.idleTimer)
+    }
+
+    const idleIndex = idle.indexOf(slot)
+    if (idleIndex !== -1) {
+      idle.splice(idleIndex, 1)
+    }
+
+    slot.worker.then((worker) => worker.terminate()).catch(() => undefined)
+    return true
+  }
+
+  const discard = (slot: Slot<W>) => {
+    // A stopped worker's place goes to the next queued job
+    const waiter = removeSlot(slot) ? waiters.shift() : undefined
+    if (waiter) {
+      waiter.resolve(addSlot())
+    }
+  }
+
+  const addSlot = (): Slot<W> => {
+    const slot: Slot<W> = {
+      worker: create((progress) => slot.onProgress?.(progress)),
+      onProgress: null,
+      idleTimer: null,
+    }
+
+    slot.worker.catch((error) => {
+      // Retrying would likely fail the same way, so queued jobs fail too
+      if (removeSlot(slot)) {
+        for (const waiter of waiters.splice(0)) {
+          waiter.reject(error)
+        }
+      }
+    })
+    slots.add(slot)
+    return slot
+  }
+
+  const release = (slot: Slot<W>) => {
+    slot.onProgress = null
+    if (!slots.has(slot)) {
+      return
+    }
+
+    const waiter = waiters.shift()
+    if (waiter) {
+      waiter.resolve(slot)
+      return
+    }
+
+    idle.push(slot)
+    if (idleTimeoutMs !== undefined) {
+      slot.idleTimer = setTimeout(() => discard(slot), idleTimeoutMs)
+    }
+  }
+
+  const acquire = (signals: AbortSignal[]): Promise<Slot<W>> => {
+    const idleSlot = idle.shift()
+    if (idleSlot) {
+      if (idleSlot.idleTimer) {
+        clearTimeout(idleSlot.idleTimer)
+        idleSlot.idleTimer = null
+      }
+      return Promise.resolve(idleSlot)
+    }
+
+    if (slots.size < size) {
+      return Promise.resolve(addSlot())
+    }
+
+    return new Promise<Slot<W>>((resolve, reject) => {
+      const stopListening = () => signals.forEach((signal) => signal.removeEventListener("abort", onAbort))
+      const waiter: Waiter<W> = {
+        resolve: (slot) => {
+          stopListening()
+          resolve(slot)
+        },
+        reject: (reason) => {
+          stopListening()
+          reject(reason)
+        },
+      }
+      const onAbort = (event: Event) => {
+        stopListening()
+        // Only remove this waiter; one already settled is no longer queued
+        const index = waiters.indexOf(waiter)
+        if (index !== -1) {
+          waiters.splice(index, 1)
+        }
+        reject((event.target as AbortSignal).reason)
+      }
+
+      signals.forEach((signal) => signal.addEventListener("abort", onAbort, { once: true }))
+      waiters.push(waiter)
+    })
+  }
+
+  const run = async <T>(
+    job: (worker: W) => Promise<T>,
+    { signal, queueSignal, onProgress }: RunOptions = {}
+  ): Promise<T> => {
+    const queueSignals = [signal, queueSignal].filter((candidate) => candidate !== undefined)
+    queueSignals.forEach((candidate) => candidate.throwIfAborted())
+
+    const slot = await acquire(queueSignals)
+    const dropped = queueSignals.find((candidate) => candidate.aborted)
+    if (dropped) {
+      release(slot)
+      throw dropped.reason
+    }
+
+    slot.onProgress = onProgress ?? null
+
+    const abort = rejectOnAbort(signal)
+    try {
+      const result = await Promise.race([slot.worker.then(job), abort.promise])
+      release(slot)
+      return result
+    } catch (error) {
+      // After an abort or a failed job the worker may still be busy or broken
+      discard(slot)
+      throw error
+    } finally {
+      abort.cleanup()
+    }
+  }
+
+  const warmUp = async (count = size) => {
+    const started: Slot<W>[] = []
+    while (slots.size < Math.min(count, size)) {
+      const slot = addSlot()
+      started.push(slot)
+      release(slot)
+    }
+
+    await Promise.allSettled(started.map((slot) => slot.worker))
+  }
+
+  const terminate = async () => {
+    for (const waiter of waiters.splice(0)) {
+      waiter.reject(new DOMException("The worker pool was terminated", "AbortError"))
+    }
+
+    const workers = [...slots].map((slot) => slot.worker)
+    for (const slot of [...slots]) {
+      discard(slot)
+    }
+
+    await Promise.allSettled(workers)
+  }
+
+  return { run, warmUp, terminate }
+}
@@ -0,0 +1,85 @@
+import type { Point } from "./image-preprocessing"
+import { transformBox, type OcrBox } from "./ocr-layout"
+
+/** Part of a photo to scan, chosen after turning the photo upright. */
+export interface ReceiptCrop {
+  /** Fractions of the turned photo. */
+  region: OcrBox
+  /** Clockwise quarter turns applied to the photo, 0 to 3. */
+  quarterTurns: number
+}
+
+export const FULL_PHOTO: OcrBox = { x0: 0, y0: 0, x1: 1, y1: 1 }
+
+// Smallest selection, as a fraction of each side; about one printed line
+export const MIN_CROP_SIZE = 0.05
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+export const normalizeQuarterTurns = (quarterTurns: number) => ((quarterTurns % 4) + 4) % 4
+
+/** Maps a point on the photo turned clockwise by `quarterTurns` back onto the photo as taken. */
+export function unturnPoint(point: Point, quarterTurns: number): Point {
+  switch (normalizeQuarterTurns(quarterTurns)) {
+    case 1:
+      return { x: point.y, y: 1 - point.x }
+    case 2:
+      return { x: 1 - point.x, y: 1 - point.y }
+    case 3:
+      return { x: 1 - point.y, y: point.x }
+    default:
+      return point
+  }
+}
+
+/** Region after turning the photo `quarterTurns` more clockwise, so a selection follows the rotation. */
+export function turnRegion(region: OcrBox, quarterTurns: number): OcrBox {
+  let turned = region
+  for (let turn = 0; turn < normalizeQuarterTurns(quarterTurns); turn++) {
+    turned = transformBox(turned, (point) => ({ x: 1 - point.y, y: point.x }))
+  }
+  return turned
+}
+
+/** The crop's region on the photo as taken. */
+export function cropRegionOnPhoto(crop: ReceiptCrop): OcrBox {
+  return transformBox(crop.region, (point) => unturnPoint(point, crop.quarterTurns))
+}
+
+/** Maps a point on the cropped image, as fractions, onto the photo as taken. */
+export function cropPointToPhoto(crop: ReceiptCrop, point: Point): Point {
+  const { region } = crop
+  return unturnPoint(
+    {
+      x: region.x0 + point.x * (region.x1 - region.x0),
+      y: region.y0 + point.y * (region.y1 - region.y0),
+    },
+    crop.quarterTurns
+  )
+}
+
+/**
+ * Region spanned by a drag between two points in either direction, kept on
+ * the photo and grown to the minimum size around the drag when too small.
+ */
+export function regionFromDrag(start: Point, end: Point): OcrBox {
+  const fit = (from: number, to: number) => {
+    const low = clamp(Math.min(from, to))
+    const high = clamp(Math.max(from, to))
+    if (high - low >= MIN_CROP_SIZE) {
+      return [low, high]
+    }
+
+    const center = (low + high) / 2
+    const grownLow = clamp(Math.min(center - MIN_CROP_SIZE / 2, 1 - MIN_CROP_SIZE))
+    return [grownLow, grownLow + MIN_CROP_SIZE]
+  }
+
+  const [x0, x1] = fit(start.x, end.x)
+  const [y0, y1] = fit(start.y, end.y)
+  return { x0, y0, x1, y1 }
+}
+
+export function isFullRegion(region: OcrBox): boolean {
+  return region.x0 === 0 && region.y0 === 0 && region.x1 === 1 && region.y1 === 1
+}
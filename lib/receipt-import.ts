@@ -0,0 +1,168 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api"
+
+/** A receipt read from a PDF: its text when it has a text layer, otherwise page images to scan. */
+export type ImportedReceipt = { kind: "text"; text: string } | { kind: "photos"; photos: File[] }
+
+/** The parts of a PDF.js text item the lines are built from. */
+export type PdfTextItem = Pick<TextItem, "str" | "transform" | "height">
+
+// Receipts are short; anything longer is most likely not one
+const MAX_PDF_PAGES = 5
+// Scanned PDFs have no text layer, or only a few stray characters in one
+const MIN_TEXT_LAYER_CHARACTERS = 20
+// Matches the photo width scans are read at
+const PDF_RENDER_WIDTH = 1600
+// Two text items are one printed row when their baselines are within half a line
+const ROW_TOLERANCE = 0.5
+const MIN_ROW_HEIGHT = 2
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+}
+
+const BLOCK_END_PATTERN = /<\/(?:p|div|tr|li|h[1-6]|table|thead|tbody|tfoot|section|header|footer)\s*>|<br\s*\/?>/gi
+const CELL_END_PATTERN = /<\/t[dh]\s*>/gi
+const HIDDEN_CONTENT_PATTERN = /<(head|script|style|title)\b[^>]*>[\s\S]*?<\/\1\s*>|<!--[\s\S]*?-->/gi
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const codePoint = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity
+    }
+
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+/** One printed line per text line, with runs of spaces collapsed and blank lines dropped. */
+export function cleanReceiptText(text: string): string {
+  return text
+    .split(/\r?\n|\r/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n")
+}
+
+/**
+ * Reads an HTML e-receipt as plain text lines. Table rows become lines with
+ * their cells side by side, so an item and its price stay on one line.
+ */
+export function htmlToReceiptText(html: string): string {
+  const text = html
+    .replace(HIDDEN_CONTENT_PATTERN, "")
+    .replace(/\r?\n|\r/g, " ")
+    .replace(BLOCK_END_PATTERN, "\n")
+    .replace(CELL_END_PATTERN, " ")
+    .replace(/<[^>]*>/g, "")
+
+  return cleanReceiptText(decodeEntities(text))
+}
+
+/** Lines of a PDF page from its text items, top to bottom and left to right. */
+export function pdfTextToLines(items: PdfTextItem[]): string[] {
+  const rows: { baseline: number; height: number; items: PdfTextItem[] }[] = []
+
+  for (const item of items) {
+    if (!item.str.trim()) {
+      continue
+    }
+
+    const baseline = item.transform[5]
+    const row = rows.find(
+      (candidate) =>
+        Math.abs(candidate.baseline - baseline) <=
+        Math.max(candidate.height, item.height, MIN_ROW_HEIGHT) * ROW_TOLERANCE
+    )
+
+    if (row) {
+      row.items.push(item)
+    } else {
+      rows.push({ baseline, height: item.height, items: [item] })
+    }
+  }
+
+  // PDF coordinates grow upwards
+  return rows
+    .sort((a, b) => b.baseline - a.baseline)
+    .map((row) =>
+      row.items
+        .sort((a, b) => a.transform[4] - b.transform[4])
+        .map((item) => item.str.trim())
+        .join(" ")
+    )
+}
+
+export function hasTextLayer(text: string): boolean {
+  return (text.match(/[\p{L}\p{N}]/gu) ?? []).length >= MIN_TEXT_LAYER_CHARACTERS
+}
+
+export function isPdfFile(file: File): boolean {
+  return file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")
+}
+
+/**
+ * Reads the first pages of a PDF receipt. Its text layer is used directly;
+ * scanned PDFs without one are rendered to page images for OCR instead.
+ * Returns null when aborted.
+ */
+export async function importPdfReceipt(file: File, signal?: AbortSignal): Promise<ImportedReceipt | null> {
+  // Loaded on demand so the calculator doesn't ship PDF.js up front
+  const pdfjs = await import("pdfjs-dist")
+  pdfjs.GlobalWorkerOptions.workerSrc ||= new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString()
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise
+  try {
+    const pageNumbers = Array.from({ length: Math.min(pdf.numPages, MAX_PDF_PAGES) }, (_, index) => index + 1)
+
+    const pageTexts: string[] = []
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber)
+      const content = await page.getTextContent()
+      const items = content.items.filter((item): item is TextItem => "str" in item)
+      pageTexts.push(pdfTextToLines(items).join("\n"))
+
+      if (signal?.aborted) {
+        return null
+      }
+    }
+
+    const text = cleanReceiptText(pageTexts.join("\n"))
+    if (hasTextLayer(text)) {
+      return { kind: "text", text }
+    }
+
+    const photos: File[] = []
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber)
+      const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / page.getViewport({ scale: 1 }).width })
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(viewport.width)
+      canvas.height = Math.round(viewport.height)
+      await page.render({ canvas, viewport }).promise
+
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+      if (signal?.aborted) {
+        return null
+      }
+      if (!blob) {
+        throw new Error("Could not render PDF page")
+      }
+
+      photos.push(new File([blob], `${file.name.replace(/\.pdf$/i, "")}-page-${pageNumber}.png`, { type: "image/png" }))
+    }
+
+    return { kind: "photos", photos }
+  } finally {
+    void pdf.destroy()
+  }
+}
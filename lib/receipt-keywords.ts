@@ -0,0 +1,198 @@
+export type ReceiptLanguage = "en" | "de" | "fr" | "es" | "it" | "nl" | "ja"
+
+/** Label patterns the extractor uses to classify receipt lines. */
+export interface ReceiptKeywords {
+  /** Labels that only ever mark the amount to pay, e.g. "AMOUNT DUE". */
+  grandTotal: RegExp
+  /** Plain total labels, e.g. "TOTAL". */
+  total: RegExp
+  /** Words that hint at a total without naming it, e.g. "AMOUNT". */
+  totalHint: RegExp
+  /** Totals that are not the amount to pay, e.g. "TOTAL SAVINGS". */
+  misleadingTotal: RegExp
+  subtotal: RegExp
+  tax: RegExp
+  /** Tips, gratuities and service charges. */
+  tip: RegExp
+  /** Tender, change and card lines printed below the total. */
+  payment: RegExp
+  /** Tip suggestions printed for the guest to choose from. */
+  tipSuggestion: RegExp
+  fee: RegExp
+  discount: RegExp
+  /** Lines repeating the discounts, e.g. "YOU SAVED". */
+  savingsSummary: RegExp
+}
+
+export const DEFAULT_RECEIPT_LANGUAGES: ReceiptLanguage[] = ["en"]
+
+/** Tesseract traineddata for each language, served from `public/tessdata`. */
+export const TESSERACT_LANGUAGES: Record<ReceiptLanguage, string> = {
+  en: "eng",
+  de: "deu",
+  fr: "fra",
+  es: "spa",
+  it: "ita",
+  nl: "nld",
+  ja: "jpn",
+}
+
+const NEVER_MATCHES = /(?!)/
+
+/**
+ * Builds a case-insensitive pattern from alternatives. Bounded patterns only
+ * match whole words; `\b` can't be used because it treats letters such as
+ * "Ü" as word breaks. Japanese has no spaces between words, so it is
+ * unbounded.
+ */
+function keywords(alternatives: string[], bounded = true): RegExp {
+  if (alternatives.length === 0) {
+    return NEVER_MATCHES
+  }
+
+  const pattern = alternatives.join("|")
+  return new RegExp(bounded ? `(?<!\\p{L})(?:${pattern})(?!\\p{L})` : pattern, "iu")
+}
+
+export const RECEIPT_KEYWORDS: Record<ReceiptLanguage, ReceiptKeywords> = {
+  en: {
+    grandTotal: /\b(GRAND\s*TOTAL|AMOUNT\s*DUE|BALANCE\s*DUE|FINAL\s*AMOUNT|TOTAL\s*DUE|TOTAL\s*AMOUNT|PLEASE\s*PAY|TO\s*PAY)\b/i,
+    total: /\bTOTAL\b/i,
+    totalHint: /\b(SUM|AMOUNT|DUE|BAL)\b/i,
+    misleadingTotal: /\b(ITEMS?\s*TOTAL|TOTAL\s*SAVINGS?|SAVINGS?\s*TOTAL|DISCOUNT|MERCHANDISE|FOOD\s*TOTAL)\b/i,
+    subtotal: /SUB\s*TOTAL|SUBTOTAL|SUB-TOTAL|BEFORE\s*TAX/i,
+    tax: /TAX|HST|GST|PST|VAT/i,
+    tip: /(?<![A-Z])TIPS?(?![A-Z])|GRATUITY|SERVICE/i,
+    payment: /\b(CASH|CHANGE|TENDERED|PAID|APPROVAL|AUTH|CARD|VISA|MASTERCARD|AMEX)\b/i,
+    tipSuggestion: /SUGGEST|GUIDE|OPTIONAL|ADD\s*TIP|TIP\s*:?\s*_/i,
+    fee: /\b(FEES?|SURCHARGE|DELIVERY|BAG\s*CHARGE|DEPOSIT)\b/i,
+    discount: /\b(DISCOUNT|COUPON|PROMO|SAVINGS?|REBATE|VOUCHER|OFF)\b/i,
+    savingsSummary: /TOTAL\s*SAVINGS?|SAVINGS?\s*TOTAL|YOU\s*SAVED/i,
+  },
+  de: {
+    grandTotal: keywords(["GESAMTBETRAG", "GESAMTSUMME", "ENDSUMME", "ENDBETRAG", "RECHNUNGSBETRAG", "ZU\\s*ZAHLEN"]),
+    total: keywords(["SUMME", "GESAMT", "BETRAG"]),
+    totalHint: NEVER_MATCHES,
+    misleadingTotal: keywords(["RABATT", "ERSPARNIS", "NETTO"]),
+    subtotal: keywords(["ZWISCHENSUMME", "ZW\\.?\\s*SUMME", "NETTO(?:BETRAG|SUMME)?"]),
+    tax: keywords(["MWST\\.?", "MW\\.?\\s*ST\\.?", "UST\\.?", "MEHRWERTSTEUER", "STEUER"]),
+    tip: keywords(["TRINKGELD", "BEDIENUNG(?:SGELD)?", "SERVICE"]),
+    payment: keywords(["BAR(?:GELD)?", "GEGEBEN", "RÜCKGELD", "WECHSELGELD", "EC[-\\s]?KARTE", "KARTE", "GIROCARD", "KARTENZAHLUNG"]),
+    tipSuggestion: keywords(["TRINKGELDVORSCHLAG", "VORSCHLAG"]),
+    fee: keywords(["GEBÜHRE?N?", "PFAND", "LIEFERUNG", "ZUSCHLAG"]),
+    discount: keywords(["RABATT", "GUTSCHEIN", "NACHLASS"]),
+    savingsSummary: keywords(["SIE\\s*SPAREN", "ERSPARNIS"]),
+  },
+  fr: {
+    grandTotal: keywords(["TOTAL\\s*TTC", "NET\\s*[AÀ]\\s*PAYER", "TOTAL\\s*[AÀ]\\s*PAYER", "MONTANT\\s*D[UÛ]", "[AÀ]\\s*PAYER"]),
+    total: keywords(["TOTAL", "MONTANT", "SOMME"]),
+    totalHint: NEVER_MATCHES,
+    misleadingTotal: keywords(["TOTAL\\s*HT", "REMISE", "[ÉE]CONOMIES?"]),
+    subtotal: keywords(["SOUS[-\\s]*TOTAL", "TOTAL\\s*HT", "MONTANT\\s*HT"]),
+    tax: keywords(["TVA", "TAXES?"]),
+    tip: keywords(["POURBOIRE", "SERVICE"]),
+    payment: keywords(["ESP[ÈE]CES", "RENDU", "MONNAIE", "CB", "CARTE(?:\\s*BANCAIRE)?", "PAY[ÉE]"]),
+    tipSuggestion: keywords(["SUGG[ÉE]R[ÉE]"]),
+    fee: keywords(["FRAIS", "SUPPL[ÉE]MENT", "CONSIGNE", "LIVRAISON"]),
+    discount: keywords(["REMISE", "R[ÉE]DUCTION", "BON\\s*D['’]ACHAT", "PROMOTION"]),
+    savingsSummary: keywords(["[ÉE]CONOMIES?", "VOUS\\s*AVEZ\\s*[ÉE]CONOMIS[ÉE]"]),
+  },
+  es: {
+    grandTotal: keywords(["TOTAL\\s*A\\s*PAGAR", "IMPORTE\\s*TOTAL", "A\\s*PAGAR"]),
+    total: keywords(["TOTAL", "IMPORTE", "SUMA"]),
+    totalHint: NEVER_MATCHES,
+    misleadingTotal: keywords(["DESCUENTO", "AHORRO"]),
+    subtotal: keywords(["SUBTOTAL", "BASE\\s*IMPONIBLE"]),
+    tax: keywords(["IVA", "I\\.V\\.A\\.?", "IMPUESTOS?"]),
+    tip: keywords(["PROPINA", "SERVICIO"]),
+    payment: keywords(["EFECTIVO", "CAMBIO", "ENTREGADO", "TARJETA", "PAGADO"]),
+    tipSuggestion: keywords(["SUGERIDA", "SUGERENCIA"]),
+    fee: keywords(["RECARGO", "ENV[ÍI]O", "SUPLEMENTO"]),
+    discount: keywords(["DESCUENTO", "CUP[ÓO]N", "PROMOCI[ÓO]N", "OFERTA"]),
+    savingsSummary: keywords(["AHORRO", "HA\\s*AHORRADO"]),
+  },
+  it: {
+    grandTotal: keywords(["TOTALE\\s*COMPLESSIVO", "TOTALE\\s*DA\\s*PAGARE", "DA\\s*PAGARE", "IMPORTO\\s*DOVUTO"]),
+    total: keywords(["TOTALE", "IMPORTO"]),
+    totalHint: NEVER_MATCHES,
+    misleadingTotal: keywords(["SCONTO", "RISPARMIO"]),
+    subtotal: keywords(["SUBTOTALE", "IMPONIBILE", "PARZIALE"]),
+    tax: keywords(["IVA"]),
+    tip: keywords(["MANCIA", "SERVIZIO"]),
+    payment: keywords(["CONTANTI?", "RESTO", "CARTA", "BANCOMAT", "PAGATO"]),
+    tipSuggestion: keywords(["SUGGERITA"]),
+    // The cover charge is a per-guest fee, not a tip
+    fee: keywords(["COPERTO", "SUPPLEMENTO", "CONSEGNA"]),
+    discount: keywords(["SCONTO", "BUONO", "PROMOZIONE"]),
+    savingsSummary: keywords(["RISPARMIO", "HAI\\s*RISPARMIATO"]),
+  },
+  nl: {
+    grandTotal: keywords(["TE\\s*BETALEN", "TOTAAL\\s*BEDRAG"]),
+    total: keywords(["TOTAAL", "BEDRAG"]),
+    totalHint: NEVER_MATCHES,
+    misleadingTotal: keywords(["KORTING", "VOORDEEL"]),
+    subtotal: keywords(["SUBTOTAAL", "TUSSENTOTAAL"]),
+    tax: keywords(["BTW"]),
+    tip: keywords(["FOOI", "BEDIENING"]),
+    payment: keywords(["CONTANT", "WISSELGELD", "PIN", "GEPIND", "BETAALD"]),
+    tipSuggestion: NEVER_MATCHES,
+    fee: keywords(["TOESLAG", "BEZORGKOSTEN", "STATIEGELD"]),
+    discount: keywords(["KORTING"]),
+    savingsSummary: keywords(["U\\s*BESPAART", "VOORDEEL"]),
+  },
+  ja: {
+    grandTotal: keywords(["合計金額", "お会計", "ご請求額", "総合計"], false),
+    total: keywords(["合計"], false),
+    totalHint: NEVER_MATCHES,
+    misleadingTotal: keywords(["値引", "割引"], false),
+    subtotal: keywords(["小計"], false),
+    tax: keywords(["消費税", "内税", "外税", "税額", "税"], false),
+    tip: keywords(["サービス料", "チップ"], false),
+    payment: keywords(["お?預り", "お?預かり", "現金", "お?釣り?", "おつり", "釣銭", "クレジット", "カード"], false),
+    tipSuggestion: NEVER_MATCHES,
+    fee: keywords(["手数料", "送料"], false),
+    discount: keywords(["値引き?", "割引", "クーポン"], false),
+    savingsSummary: NEVER_MATCHES,
+  },
+}
+
+const combinedKeywords = new Map<string, ReceiptKeywords>()
+
+/** Joins the keyword patterns of several languages; a line matches if any language's pattern does. */
+export function getReceiptKeywords(languages: ReceiptLanguage[] = DEFAULT_RECEIPT_LANGUAGES): ReceiptKeywords {
+  const uniqueLanguages = [...new Set(languages.length > 0 ? languages : DEFAULT_RECEIPT_LANGUAGES)]
+  const cacheKey = uniqueLanguages.join("+")
+  const cached = combinedKeywords.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const combine = (field: keyof ReceiptKeywords): RegExp => {
+    const patterns = uniqueLanguages.map((language) => RECEIPT_KEYWORDS[language][field])
+    return patterns.length === 1 ? patterns[0] : new RegExp(patterns.map((part) => `(?:${part.source})`).join("|"), "iu")
+  }
+
+  const combined: ReceiptKeywords = {
+    grandTotal: combine("grandTotal"),
+    total: combine("total"),
+    totalHint: combine("totalHint"),
+    misleadingTotal: combine("misleadingTotal"),
+    subtotal: combine("subtotal"),
+    tax: combine("tax"),
+    tip: combine("tip"),
+    payment: combine("payment"),
+    tipSuggestion: combine("tipSuggestion"),
+    fee: combine("fee"),
+    discount: combine("discount"),
+    savingsSummary: combine("savingsSummary"),
+  }
+
+  combinedKeywords.set(cacheKey, combined)
+  return combined
+}
+
+/** Tesseract language string for the receipt languages, e.g. "eng+deu". */
+export function toTesseractLanguages(languages: ReceiptLanguage[] = DEFAULT_RECEIPT_LANGUAGES): string {
+  const uniqueLanguages = [...new Set(languages.length > 0 ? languages : DEFAULT_RECEIPT_LANGUAGES)]
+  return uniqueLanguages.map((language) => TESSERACT_LANGUAGES[language]).join("+")
+}
@@ -1,134 +1,673 @@
 import Tesseract from "tesseract.js"
 
+import {
+  calibrateConfidence,
+  REVIEW_CONFIDENCE_THRESHOLD,
+  TOTAL_CONFIDENCE_CALIBRATION,
+  type CalibrationPoint,
+} from "./confidence-calibration"
+import { DEFAULT_CURRENCY, detectCurrencyFromText, formatMoney, type CurrencyCode } from "./currency"
+import {
+  sauvolaThreshold,
+  straightenReceipt,
+  stretchContrast,
+  toRgba,
+  type Point,
+  type SauvolaOptions,
+  type StraightenedReceipt,
+} from "./image-preprocessing"
 import {
   categorizeAmount,
   findAmountsInText,
+  type CategorizedAmount,
   type ExtractedAmount,
   validateTotalRelationship,
 } from "./number-utils"
+import {
+  buildOcrLayout,
+  findPriceColumn,
+  isInPriceColumn,
+  layoutToText,
+  locateAmount,
+  transformBox,
+  type OcrBox,
+  type OcrLayout,
+} from "./ocr-layout"
+import { createWorkerPool, type WorkerPool } from "./ocr-worker-pool"
+import {
+  FULL_PHOTO,
+  cropPointToPhoto,
+  cropRegionOnPhoto,
+  normalizeQuarterTurns,
+  type ReceiptCrop,
+} from "./receipt-crop"
+import {
+  DEFAULT_RECEIPT_LANGUAGES,
+  getReceiptKeywords,
+  toTesseractLanguages,
+  type ReceiptKeywords,
+  type ReceiptLanguage,
+} from "./receipt-keywords"
+import { reconcileReceipt, type ReconciliationResult } from "./receipt-reconciliation"
+import { stitchPages } from "./receipt-stitching"
+import {
+  findMerchant,
+  findPaymentMethod,
+  findTransactionDate,
+  findTransactionTime,
+  isDateLine,
+  isDateTimeOnlyLine,
+  parseItemText,
+  TRAILING_AMOUNTS_PATTERN,
+  type PaymentMethod,
+  type ReceiptField,
+} from "./receipt-structure"
+import {
+  addScoreContribution,
+  resolveTotalScoringWeights,
+  scoreTotalCandidate,
+  type TotalScore,
+  type TotalScoringWeights,
+} from "./total-scoring"
 
 export type OcrMode = "normal" | "high-contrast" | "low-contrast"
 
-export type ReceiptAmountOption = ExtractedAmount
+/** Why a detected total should be confirmed against the receipt before it is used. */
+export type ReviewReason = "low-confidence" | "does-not-add-up"
+
+export interface ReceiptAmountOption extends ExtractedAmount {
+  /** Where the amount was printed; only known for scanned images. */
+  bbox?: OcrBox
+  /** Tesseract's confidence in the amount's characters, between 0 and 1. */
+  wordConfidence?: number
+  /** Which photo the amount's box is on when several photos were stitched. */
+  page?: number
+  /** How the amount scored as the receipt total, signal by signal. */
+  scoring?: TotalScore
+}
+
+export interface ReceiptLineItem {
+  description: string
+  quantity: number
+  unitPrice: number
+  /** Line price, i.e. quantity times unit price. */
+  price: number
+  lineIndex: number
+  confidence: number
+}
+
+/** A tax or service charge line, e.g. "GST 5% 1.50". */
+export interface ReceiptChargeLine {
+  label: string
+  /** Percentage printed on the line, if any. */
+  rate: number | null
+  amount: number
+  confidence: number
+  lineIndex: number
+}
+
+export interface StructuredReceipt {
+  merchant: ReceiptField<string> | null
+  /** YYYY-MM-DD */
+  date: ReceiptField<string> | null
+  /** 24-hour HH:mm */
+  time: ReceiptField<string> | null
+  lineItems: ReceiptLineItem[]
+  subtotal: ReceiptField<number> | null
+  taxes: ReceiptChargeLine[]
+  /** Gratuity or service charges already included in the total. */
+  serviceCharges: ReceiptChargeLine[]
+  /** Other fees added on top of the subtotal, e.g. delivery or bag fees. */
+  fees: ReceiptChargeLine[]
+  /** Discounts and coupons, printed as positive amounts. */
+  discounts: ReceiptChargeLine[]
+  total: ReceiptField<number> | null
+  payment: ReceiptField<PaymentMethod> | null
+  /** How the amounts add up; null without a total. */
+  reconciliation: ReconciliationResult | null
+}
 
 export interface ExtractedData {
   amount: number
   confidence: number
+  subtotal: number | null
+  tax: number | null
+  /** Gratuity or service charge already added above the total. */
+  serviceCharge: number | null
+  /** Rate printed next to the service charge, e.g. 18 for "GRATUITY 18%". */
+  serviceChargePercent: number | null
+  lineItems: ReceiptLineItem[]
+  /** Currency suggested by symbols or ISO codes printed on the receipt. */
+  currency: CurrencyCode | null
+  receipt: StructuredReceipt
   allAmounts: ReceiptAmountOption[]
   rawText: string
+  /** Empty when the total can be used as is, or when no total was found. */
+  reviewReasons: ReviewReason[]
+}
+
+export interface ReceiptTotals {
+  total: number
+  subtotal: number | null
+  tax: number | null
+  serviceCharge: number | null
+  serviceChargePercent: number | null
+  lineItems: ReceiptLineItem[]
+  currency: CurrencyCode | null
 }
 
 interface ScanReceiptImageOptions {
   onProgress?: (progress: number) => void
-  shouldContinue?: () => boolean
+  /** Stops the scan; OCR still running is cut off and the scan resolves to null. */
+  signal?: AbortSignal
+  /** Languages the receipt may be printed in; picks keywords and Tesseract language packs. */
+  languages?: ReceiptLanguage[]
+  /** Scans only this part of the photo; amount boxes still refer to the whole photo. */
+  crop?: ReceiptCrop | null
+  /** Overrides for the default total scoring weights. */
+  weights?: Partial<TotalScoringWeights>
+}
+
+export interface ExtractAmountsOptions {
+  /** OCR layout whose lines match the text's lines. */
+  layout?: OcrLayout | null
+  languages?: ReceiptLanguage[]
+  /** Overrides for the default total scoring weights, e.g. tuned for a region's receipts. */
+  weights?: Partial<TotalScoringWeights>
+  /** Maps the total's raw confidence to how often such totals are right; null keeps it raw. */
+  calibration?: CalibrationPoint[] | null
 }
 
-const RELATIONSHIP_ANCHOR_PATTERN = /SUB\s*TOTAL|SUBTOTAL|SUB-TOTAL|BEFORE\s*TAX|TAX|HST|GST|PST|VAT|TIP|GRATUITY|SERVICE/i
-const STRONG_TOTAL_SIGNAL_PATTERN = /\b(GRAND\s*TOTAL|AMOUNT\s*DUE|BALANCE\s*DUE|FINAL\s*AMOUNT|TOTAL\s*DUE|TOTAL\s*AMOUNT|TO\s*PAY)\b/i
-const WEAK_TOTAL_SIGNAL_PATTERN = /\b(TOTAL|SUM|AMOUNT|DUE|BAL)\b/i
-const MISLEADING_TOTAL_SIGNAL_PATTERN = /\b(ITEMS?\s*TOTAL|TOTAL\s*SAVINGS?|SAVINGS?\s*TOTAL|DISCOUNT|MERCHANDISE|FOOD\s*TOTAL)\b/i
-const PAYMENT_SIGNAL_PATTERN = /\b(CASH|CHANGE|TENDERED|PAID|APPROVAL|AUTH|CARD|VISA|MASTERCARD|AMEX)\b/i
+/** OCR output for one of several photos of a long receipt. */
+export interface ReceiptPage {
+  text: string
+  /** Layout whose lines match the text's lines, when known. */
+  layout: OcrLayout | null
+}
+
+const TRAILING_PRICE_PATTERN = /\d[.,]\d{2}\s*[$€£¥₹₽]?\s*$/
+const PERCENT_PATTERN = /(\d{1,2}(?:[.,]\d+)?)\s*%/
+// Discounts printed as negative amounts, e.g. "-1.00" or "1.00-"
+const NEGATIVE_AMOUNT_PATTERN = /-\s*[$€£¥₹₽]?\s*\d+[.,]\d{2}\s*$|\d[.,]\d{2}\s*-\s*$/
+// Language packs are served locally when scripts/fetch-tessdata.mjs could
+// download them, and otherwise come from tesseract.js's default CDN
+const TESSDATA_PATH = "/tessdata"
+const OCR_MODES: OcrMode[] = ["normal", "high-contrast", "low-contrast"]
+// Photos are searched for the receipt at this width; the receipt is then scaled to OCR_IMAGE_WIDTH
+const PHOTO_MAX_WIDTH = 1600
+const OCR_IMAGE_WIDTH = 1000
+/** Binarization per variant; without one, Tesseract gets contrast-stretched grayscale for faint print. */
+const BINARIZATION_BY_MODE: Record<OcrMode, SauvolaOptions | null> = {
+  normal: { k: 0.2 },
+  // Higher k keeps less of the paper texture and shadows as black specks
+  "high-contrast": { k: 0.34 },
+  "low-contrast": null,
+}
+// Workers stay loaded between scans but give their memory back eventually
+const OCR_WORKER_IDLE_TIMEOUT_MS = 2 * 60 * 1000
 
-const MINIMUM_ACCEPTABLE_SCORE = 1.2
 const MIN_CONFIDENCE = 0.2
 const MAX_CONFIDENCE = 0.98
+const RECONCILIATION_CANDIDATES = 5
+const MISREAD_CONFIDENCE_FACTOR = 0.5
+const CORRECTED_AMOUNT_CONFIDENCE_FACTOR = 0.85
 
-export function extractAmountsFromText(text: string): ExtractedData {
+/**
+ * Picks the receipt total from OCR text, reading labels in the given
+ * languages. With the OCR layout, amounts read with low confidence are
+ * trusted less and amounts in the right-aligned price column more.
+ */
+export function extractAmountsFromText(text: string, options: ExtractAmountsOptions = {}): ExtractedData {
+  const { layout = null, languages = DEFAULT_RECEIPT_LANGUAGES, calibration = TOTAL_CONFIDENCE_CALIBRATION } = options
+  const keywords = getReceiptKeywords(languages)
+  const weights = resolveTotalScoringWeights(options.weights)
   const lines = text.split("\n")
+  // Day, month and year numbers are never amounts
   const extractedAmounts = findAmountsInText(text)
+    .filter((amount) => !isDateTimeOnlyLine(lines[amount.lineIndex]))
+    .map((amount): ReceiptAmountOption => {
+      const located = layout ? locateAmount(layout.lines[amount.lineIndex], amount.value) : null
+      return located ? { ...amount, bbox: located.bbox, wordConfidence: located.confidence } : amount
+    })
+  const priceColumn = layout ? findPriceColumn(layout) : null
 
   if (extractedAmounts.length === 0) {
-    return {
-      amount: 0,
-      confidence: 0,
-      allAmounts: [],
-      rawText: text,
-    }
+    return toExtractedData(parseReceiptStructure(lines, extractedAmounts, null, keywords), 0, text, [])
   }
 
   const maxValue = Math.max(...extractedAmounts.map((amount) => amount.value))
   const sortedByValue = [...extractedAmounts].sort((a, b) => b.value - a.value)
-  const hasRelationshipAnchors = extractedAmounts.some((amount) =>
-    RELATIONSHIP_ANCHOR_PATTERN.test(amount.context)
+  const hasRelationshipAnchors = extractedAmounts.some(
+    (amount) =>
+      keywords.subtotal.test(amount.context) || keywords.tax.test(amount.context) || keywords.tip.test(amount.context)
   )
 
   const scoredAmounts = extractedAmounts
     .map((amount) => {
       const context = amount.context.toUpperCase()
-      const relativeLinePosition = lines.length > 1 ? amount.lineIndex / (lines.length - 1) : 1
-      const inTopThreeValues = sortedByValue
-        .slice(0, 3)
-        .some((valueCandidate) => Math.abs(valueCandidate.value - amount.value) < 0.01)
-
-      const hasStrongTotalSignal = STRONG_TOTAL_SIGNAL_PATTERN.test(context)
-      const hasWeakTotalSignal = WEAK_TOTAL_SIGNAL_PATTERN.test(context)
-      const hasMisleadingTotalSignal = MISLEADING_TOTAL_SIGNAL_PATTERN.test(context)
-      const hasPaymentSignal = PAYMENT_SIGNAL_PATTERN.test(context)
-
-      const category = categorizeAmount(amount, extractedAmounts)
-      const validation = validateTotalRelationship(amount.value, extractedAmounts)
-
-      let score = 0
-      if (hasStrongTotalSignal) score += 4.2
-      if (hasWeakTotalSignal) score += 1.8
-      if (hasMisleadingTotalSignal) score -= 2.2
-      if (hasPaymentSignal || category.category === "payment") score -= 2.8
-
-      if (category.category === "total") score += 1.4
-      if (category.category === "subtotal") score += 0.4
-      if (category.category === "tax" || category.category === "tip") score -= 0.8
-      if (category.category === "item") score -= 0.4
-
-      if (validation.valid) {
-        score += 2.4 * validation.confidence
-      } else if (hasRelationshipAnchors) {
-        score -= 0.6
-      }
+      const category = categorizeAmount(amount, extractedAmounts, keywords)
+      const validation = validateTotalRelationship(amount.value, extractedAmounts, keywords)
 
-      score += Math.min(1.2, amount.value / maxValue)
-      if (inTopThreeValues) score += 0.5
-      score += relativeLinePosition * 1.6
-      if (amount.value < 1) score -= 1
+      const scoring = scoreTotalCandidate(
+        {
+          grandTotalLabel: keywords.grandTotal.test(context),
+          totalLabel: keywords.total.test(context) || keywords.totalHint.test(context),
+          misleadingTotalLabel: keywords.misleadingTotal.test(context),
+          paymentLine: keywords.payment.test(context),
+          category: category.category,
+          addsUp: validation.valid ? validation.confidence : null,
+          hasRelationshipAnchors,
+          relativeValue: amount.value / maxValue,
+          largestValues: sortedByValue
+            .slice(0, 3)
+            .some((valueCandidate) => Math.abs(valueCandidate.value - amount.value) < 0.01),
+          linePosition: lines.length > 1 ? amount.lineIndex / (lines.length - 1) : 1,
+          underOneUnit: amount.value < 1,
+          correctedDigits: Boolean(amount.corrected),
+          wordConfidence: amount.wordConfidence ?? null,
+          priceColumn: Boolean(amount.bbox && priceColumn !== null && isInPriceColumn(amount.bbox, priceColumn)),
+        },
+        weights
+      )
 
       return {
         ...amount,
-        score,
+        scoring,
+        category: category.category,
         validation,
       }
     })
-    .sort((a, b) => b.score - a.score || b.lineIndex - a.lineIndex)
+    .sort((a, b) => b.scoring.score - a.scoring.score || b.lineIndex - a.lineIndex)
+    // Candidates the rest of the receipt adds up to exactly are almost
+    // certainly the total, whatever their label says
+    .map((amount, index) => {
+      const canBeTotal = !["subtotal", "tax", "tip", "payment"].includes(amount.category)
+      const reconciles =
+        index < RECONCILIATION_CANDIDATES &&
+        canBeTotal &&
+        readReceiptLines(extractedAmounts, amount, keywords).reconciliation.totalMatches === true
+
+      return {
+        ...amount,
+        scoring: reconciles ? addScoreContribution(amount.scoring, "reconciles", weights.reconciles) : amount.scoring,
+        reconciles,
+      }
+    })
+    .sort((a, b) => b.scoring.score - a.scoring.score || b.lineIndex - a.lineIndex)
+
+  // Every amount keeps its score so the choice of total can be explained
+  const amountOptions = extractedAmounts.map((amount): ReceiptAmountOption => {
+    const scored = scoredAmounts.find(
+      (candidate) => candidate.lineIndex === amount.lineIndex && candidate.value === amount.value
+    )
+    return scored ? { ...amount, scoring: scored.scoring } : amount
+  })
 
   const best = scoredAmounts[0]
-  if (!best || best.score < MINIMUM_ACCEPTABLE_SCORE) {
-    const fallbackConfidence = best ? Math.max(0.1, Math.min(0.35, best.score / 4)) : 0
+  if (!best || best.scoring.score < weights.minimumScore) {
+    const fallbackConfidence = best ? Math.max(0.1, Math.min(0.35, best.scoring.score / 4)) : 0
+    const receipt = parseReceiptStructure(lines, extractedAmounts, null, keywords)
 
-    return {
-      amount: 0,
-      confidence: fallbackConfidence,
-      allAmounts: extractedAmounts,
-      rawText: text,
-    }
+    return toExtractedData(receipt, fallbackConfidence, text, amountOptions)
   }
 
   const secondBest = scoredAmounts[1]
-  const scoreMargin = secondBest ? best.score - secondBest.score : best.score
-  const baseConfidence = Math.min(MAX_CONFIDENCE, Math.max(MIN_CONFIDENCE, best.score / 8))
+  const scoreMargin = secondBest ? best.scoring.score - secondBest.scoring.score : best.scoring.score
+  const baseConfidence = Math.min(MAX_CONFIDENCE, Math.max(MIN_CONFIDENCE, best.scoring.score / 8))
   const marginFactor = Math.min(1, Math.max(0.45, scoreMargin / 3))
   let confidence = baseConfidence * marginFactor
 
-  if (best.validation.valid) {
+  if (best.validation.valid || best.reconciles) {
     confidence = Math.min(MAX_CONFIDENCE, confidence + 0.1)
   }
 
+  if (best.wordConfidence !== undefined) {
+    confidence *= 0.5 + 0.5 * best.wordConfidence
+  }
+
+  const receipt = parseReceiptStructure(lines, extractedAmounts, { ...best, confidence }, keywords)
+  const rawConfidence = receipt.total?.confidence ?? confidence
+  const totalConfidence = calibration ? calibrateConfidence(rawConfidence, calibration) : rawConfidence
+
+  const reviewReasons: ReviewReason[] = []
+  if (totalConfidence < REVIEW_CONFIDENCE_THRESHOLD) {
+    reviewReasons.push("low-confidence")
+  }
+  if (hasRelationshipAnchors && !best.validation.valid && !best.reconciles) {
+    reviewReasons.push("does-not-add-up")
+  }
+
+  return toExtractedData(
+    { ...receipt, total: receipt.total && { ...receipt.total, confidence: totalConfidence } },
+    totalConfidence,
+    text,
+    amountOptions,
+    reviewReasons
+  )
+}
+
+/**
+ * Reads several photos of one receipt, taken top to bottom, as a single
+ * receipt: lines two photos both show are kept once, so the total at the
+ * bottom can be checked against the items and subtotal further up. Each
+ * amount records the photo it was read from.
+ */
+export function extractAmountsFromPages(
+  pages: ReceiptPage[],
+  options: Pick<ExtractAmountsOptions, "languages" | "weights" | "calibration"> = {}
+): ExtractedData {
+  const stitched = stitchPages(
+    pages.map((page) => (page.layout ? page.layout.lines.map((line) => line.text) : page.text.split("\n")))
+  )
+  const layoutLines = stitched.flatMap(({ page, index }) => pages[page].layout?.lines[index] ?? [])
+  // Scored without positions unless every photo has them
+  const layout = layoutLines.length === stitched.length ? { lines: layoutLines } : null
+
+  const data = extractAmountsFromText(stitched.map((line) => line.text).join("\n"), { ...options, layout })
+  return {
+    ...data,
+    allAmounts: data.allAmounts.map((amount) => ({ ...amount, page: stitched[amount.lineIndex]?.page ?? 0 })),
+  }
+}
+
+/** Flattens the structured receipt into the totals the calculator consumes. */
+function toExtractedData(
+  receipt: StructuredReceipt,
+  confidence: number,
+  text: string,
+  allAmounts: ReceiptAmountOption[],
+  reviewReasons: ReviewReason[] = []
+): ExtractedData {
+  const sumCharges = (charges: ReceiptChargeLine[]) =>
+    charges.length > 0 ? charges.reduce((sum, charge) => sum + Math.round(charge.amount * 100), 0) / 100 : null
+  const serviceChargeRates = receipt.serviceCharges
+    .map((charge) => charge.rate)
+    .filter((rate): rate is number => rate !== null)
+
   return {
-    amount: best.value,
+    amount: receipt.total?.value ?? 0,
     confidence,
-    allAmounts: extractedAmounts,
+    subtotal: receipt.subtotal?.value ?? null,
+    tax: sumCharges(receipt.taxes),
+    serviceCharge: sumCharges(receipt.serviceCharges),
+    serviceChargePercent: serviceChargeRates.length === 1 ? serviceChargeRates[0] : null,
+    lineItems: receipt.lineItems,
+    currency: detectCurrencyFromText(text),
+    receipt,
+    allAmounts,
     rawText: text,
+    reviewReasons,
+  }
+}
+
+/**
+ * Reads the receipt's fields around the chosen total. Merchant, date, time and
+ * payment method come from the text alone; money fields need a total. Amounts
+ * the reconciliation confirms are trusted more, and so are tax lines whose
+ * printed rate matches the subtotal. Lines suspected of being misread are
+ * trusted less.
+ */
+function parseReceiptStructure(
+  lines: string[],
+  amounts: ExtractedAmount[],
+  total: (ExtractedAmount & { confidence: number }) | null,
+  keywords: ReceiptKeywords
+): StructuredReceipt {
+  const merchant = findMerchant(lines)
+  const date = findTransactionDate(lines)
+  const time = findTransactionTime(lines, date?.lineIndex ?? null)
+  const payment = findPaymentMethod(lines, total?.lineIndex ?? 0)
+
+  if (!total) {
+    return {
+      merchant,
+      date,
+      time,
+      lineItems: [],
+      subtotal: null,
+      taxes: [],
+      serviceCharges: [],
+      fees: [],
+      discounts: [],
+      total: null,
+      payment,
+      reconciliation: null,
+    }
+  }
+
+  const { subtotalLine, taxLines, serviceChargeLines, feeLines, discountLines, lineItems, reconciliation } =
+    readReceiptLines(amounts, total, keywords)
+  const misreadLineIndexes = new Set(reconciliation.misreads.map((misread) => misread.lineIndex))
+  const correctedLineIndexes = new Set(
+    amounts.filter((amount) => amount.corrected).map((amount) => amount.lineIndex)
+  )
+  const adjustConfidence = (confidence: number, lineIndex: number) =>
+    confidence *
+    (misreadLineIndexes.has(lineIndex) ? MISREAD_CONFIDENCE_FACTOR : 1) *
+    (correctedLineIndexes.has(lineIndex) ? CORRECTED_AMOUNT_CONFIDENCE_FACTOR : 1)
+
+  const toChargeLine = (line: CategorizedAmount): ReceiptChargeLine => {
+    const percent = PERCENT_PATTERN.exec(line.context)?.[1]
+    const rate = percent !== undefined ? parseFloat(percent.replace(",", ".")) : null
+    const rateMatches =
+      rate !== null &&
+      subtotalLine !== null &&
+      Math.abs(Math.round(subtotalLine.value * rate) - Math.round(line.value * 100)) <= 1
+
+    return {
+      label: line.context
+        .replace(TRAILING_AMOUNTS_PATTERN, "")
+        .replace(PERCENT_PATTERN, "")
+        .replace(/[\s:-]+$/, "")
+        .replace(/\s+/g, " ")
+        .trim(),
+      rate,
+      amount: line.value,
+      confidence: adjustConfidence(rateMatches ? 0.95 : reconciliation.totalMatches ? 0.9 : 0.65, line.lineIndex),
+      lineIndex: line.lineIndex,
+    }
+  }
+
+  const subtotalConfirmed = reconciliation.totalMatches || reconciliation.itemsMatchSubtotal
+
+  return {
+    merchant,
+    date,
+    time,
+    lineItems: lineItems.map((item) => ({
+      ...item,
+      confidence: adjustConfidence(item.confidence + (reconciliation.itemsMatchSubtotal ? 0.3 : 0), item.lineIndex),
+    })),
+    subtotal: subtotalLine
+      ? {
+          value: subtotalLine.value,
+          confidence: adjustConfidence(subtotalConfirmed ? 0.95 : 0.7, subtotalLine.lineIndex),
+          lineIndex: subtotalLine.lineIndex,
+        }
+      : null,
+    taxes: taxLines.map(toChargeLine),
+    serviceCharges: serviceChargeLines.map(toChargeLine),
+    fees: feeLines.map(toChargeLine),
+    discounts: discountLines.map(toChargeLine),
+    total: {
+      value: total.value,
+      confidence: adjustConfidence(total.confidence, total.lineIndex),
+      lineIndex: total.lineIndex,
+    },
+    payment,
+    reconciliation,
+  }
+}
+
+/** Collects the money lines around a candidate total and checks how they add up. */
+function readReceiptLines(amounts: ExtractedAmount[], total: ExtractedAmount, keywords: ReceiptKeywords) {
+  const { subtotalLine, taxLines } = findSubtotalAndTax(amounts, total, keywords)
+  const serviceChargeLines = findServiceChargeLines(amounts, total, keywords)
+  const { feeLines, discountLines } = findFeeAndDiscountLines(amounts, total, subtotalLine, keywords)
+  const adjustmentLineIndexes = new Set([...feeLines, ...discountLines].map((line) => line.lineIndex))
+  const lineItems = findLineItems(
+    amounts,
+    subtotalLine?.lineIndex ?? total.lineIndex,
+    adjustmentLineIndexes,
+    keywords
+  )
+
+  const reconciliation = reconcileReceipt({
+    items: lineItems.map((item) => ({ value: item.price, lineIndex: item.lineIndex })),
+    subtotal: subtotalLine,
+    taxes: taxLines,
+    fees: [...serviceChargeLines, ...feeLines],
+    discounts: discountLines,
+    total,
+  })
+
+  return { subtotalLine, taxLines, serviceChargeLines, feeLines, discountLines, lineItems, reconciliation }
+}
+
+function lastAmountPerLine(amounts: CategorizedAmount[]): CategorizedAmount[] {
+  const byLine = new Map<number, CategorizedAmount>()
+  for (const amount of amounts) {
+    byLine.set(amount.lineIndex, amount)
   }
+
+  return [...byLine.values()]
 }
 
-export function getNoAmountErrorMessage(data: ExtractedData): string | null {
+/**
+ * Picks the subtotal printed closest above the chosen total and the tax lines
+ * between them (receipts often list GST and PST separately). Rates such as
+ * "TAX 8.25% 4.50" are skipped by keeping only the last amount on a line.
+ */
+function findSubtotalAndTax(
+  amounts: ExtractedAmount[],
+  total: ExtractedAmount,
+  keywords: ReceiptKeywords
+): { subtotalLine: CategorizedAmount | null; taxLines: CategorizedAmount[] } {
+  // Tax-inclusive receipts print a subtotal equal to the total
+  const categorized = amounts
+    .filter((amount) =>
+      amount.lineIndex < total.lineIndex
+        ? amount.value <= total.value
+        : amount.lineIndex === total.lineIndex && amount.value < total.value
+    )
+    .map((amount) => categorizeAmount(amount, amounts, keywords))
+
+  const subtotalLine =
+    lastAmountPerLine(categorized.filter((amount) => amount.category === "subtotal"))
+      .sort((a, b) => b.lineIndex - a.lineIndex)[0] ?? null
+
+  const taxLines = lastAmountPerLine(
+    categorized.filter(
+      (amount) =>
+        amount.category === "tax" &&
+        amount.lineIndex !== total.lineIndex &&
+        (!subtotalLine || amount.lineIndex > subtotalLine.lineIndex)
+    )
+  ).sort((a, b) => a.lineIndex - b.lineIndex)
+
+  const taxCents = taxLines.reduce((sum, amount) => sum + Math.round(amount.value * 100), 0)
+  const taxIsPlausible = subtotalLine === null || taxCents < subtotalLine.value * 100
+
+  return { subtotalLine, taxLines: taxIsPlausible ? taxLines : [] }
+}
+
+/**
+ * Finds the gratuity and service charge lines above the chosen total, which
+ * the restaurant has already added to the bill. Tip suggestions ("Suggested
+ * tip 18%: 12.60") are printed for the guest to choose from, so they are
+ * ignored.
+ */
+function findServiceChargeLines(
+  amounts: ExtractedAmount[],
+  total: ExtractedAmount,
+  keywords: ReceiptKeywords
+): CategorizedAmount[] {
+  return lastAmountPerLine(
+    amounts
+      .filter((amount) => amount.lineIndex < total.lineIndex && amount.value < total.value)
+      .map((amount) => categorizeAmount(amount, amounts, keywords))
+      .filter((amount) => amount.category === "tip" && !keywords.tipSuggestion.test(amount.context))
+  ).sort((a, b) => a.lineIndex - b.lineIndex)
+}
+
+/**
+ * Finds discount lines above the chosen total and fee lines between the
+ * subtotal and the total. Savings summaries ("You saved 4.00") repeat the
+ * discounts, so they are left out.
+ */
+function findFeeAndDiscountLines(
+  amounts: ExtractedAmount[],
+  total: ExtractedAmount,
+  subtotalLine: CategorizedAmount | null,
+  keywords: ReceiptKeywords
+): { feeLines: CategorizedAmount[]; discountLines: CategorizedAmount[] } {
+  const candidates = lastAmountPerLine(
+    amounts
+      .filter((amount) => amount.lineIndex < total.lineIndex && amount.value < total.value)
+      .map((amount) => categorizeAmount(amount, amounts, keywords))
+      .filter((amount) => amount.category === "item" || amount.category === "unknown")
+  ).sort((a, b) => a.lineIndex - b.lineIndex)
+
+  const discountLines = candidates.filter(
+    (amount) =>
+      (keywords.discount.test(amount.context) || NEGATIVE_AMOUNT_PATTERN.test(amount.context)) &&
+      !keywords.savingsSummary.test(amount.context)
+  )
+  const feeLines = candidates.filter(
+    (amount) =>
+      !discountLines.includes(amount) &&
+      keywords.fee.test(amount.context) &&
+      (!subtotalLine || amount.lineIndex > subtotalLine.lineIndex)
+  )
+
+  return { feeLines, discountLines }
+}
+
+/**
+ * Treats every line above the subtotal (or total) that ends in a price as a
+ * line item, except payment, tax, tip, fee, discount and date lines.
+ * Requiring a trailing price with cents keeps table numbers and order ids
+ * out.
+ */
+function findLineItems(
+  amounts: ExtractedAmount[],
+  boundaryLineIndex: number,
+  excludedLineIndexes: Set<number>,
+  keywords: ReceiptKeywords
+): ReceiptLineItem[] {
+  const candidates = amounts
+    .filter(
+      (amount) =>
+        amount.lineIndex < boundaryLineIndex &&
+        !excludedLineIndexes.has(amount.lineIndex) &&
+        TRAILING_PRICE_PATTERN.test(amount.context) &&
+        !isDateLine(amount.context)
+    )
+    .map((amount) => categorizeAmount(amount, amounts, keywords))
+    .filter((amount) => amount.category === "item" || amount.category === "unknown")
+
+  return lastAmountPerLine(candidates)
+    .sort((a, b) => a.lineIndex - b.lineIndex)
+    .map((amount) => {
+      const { description, quantity, unitPrice, unitPriceConfirmed } = parseItemText(amount.context, amount.value)
+
+      return {
+        description,
+        quantity,
+        unitPrice,
+        price: amount.value,
+        lineIndex: amount.lineIndex,
+        confidence: 0.6 + (unitPriceConfirmed ? 0.05 : 0),
+      }
+    })
+    .filter((item) => /\p{L}/u.test(item.description))
+}
+
+export function getNoAmountErrorMessage(
+  data: ExtractedData,
+  currency: CurrencyCode = DEFAULT_CURRENCY,
+  locale?: string
+): string | null {
   if (data.amount > 0) {
     return null
   }
@@ -144,16 +683,19 @@ export function getNoAmountErrorMessage(data: ExtractedData): string | null {
   }
 
   if (allAmounts.length === 1) {
-    return `Found $${allAmounts[0].value.toFixed(2)} but unsure if it's the total. Click to use it anyway.`
+    return `Found ${formatMoney(allAmounts[0].value, currency, locale)} but unsure if it's the total. Click to use it anyway.`
   }
 
   return `Found ${allAmounts.length} amounts. Click one below or try a clearer image.`
 }
 
-function preprocessImage(
-  img: HTMLImageElement,
-  mode: OcrMode = "normal"
-): string {
+interface PreprocessedImage {
+  url: string
+  width: number
+  height: number
+}
+
+function createCanvas(width: number, height: number) {
   const canvas = document.createElement("canvas")
   const ctx = canvas.getContext("2d")
 
@@ -161,175 +703,343 @@ function preprocessImage(
     throw new Error("Could not initialize image processing canvas")
   }
 
-  const maxWidth = 1000
-  const scale = img.width > maxWidth ? maxWidth / img.width : 1
-  canvas.width = img.width * scale
-  canvas.height = img.height * scale
+  canvas.width = width
+  canvas.height = height
+  return { canvas, ctx }
+}
+
+/** Draws the photo, or just the cropped part turned upright, at most PHOTO_MAX_WIDTH wide. */
+function readPhoto(img: HTMLImageElement, crop: ReceiptCrop | null): ImageData {
+  const region = crop ? cropRegionOnPhoto(crop) : FULL_PHOTO
+  const quarterTurns = normalizeQuarterTurns(crop?.quarterTurns ?? 0)
+  const sourceX = region.x0 * img.width
+  const sourceY = region.y0 * img.height
+  const sourceWidth = Math.max(1, (region.x1 - region.x0) * img.width)
+  const sourceHeight = Math.max(1, (region.y1 - region.y0) * img.height)
+
+  const isSideways = quarterTurns % 2 === 1
+  const scale = Math.min(1, PHOTO_MAX_WIDTH / (isSideways ? sourceHeight : sourceWidth))
+  const drawWidth = Math.max(1, Math.round(sourceWidth * scale))
+  const drawHeight = Math.max(1, Math.round(sourceHeight * scale))
+  const { ctx } = createCanvas(isSideways ? drawHeight : drawWidth, isSideways ? drawWidth : drawHeight)
 
-  ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+  ctx.translate(ctx.canvas.width / 2, ctx.canvas.height / 2)
+  ctx.rotate((quarterTurns * Math.PI) / 2)
+  ctx.drawImage(
+    img,
+    sourceX,
+    sourceY,
+    sourceWidth,
+    sourceHeight,
+    -drawWidth / 2,
+    -drawHeight / 2,
+    drawWidth,
+    drawHeight
+  )
+  return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height)
+}
+
+function renderForOcr(receipt: StraightenedReceipt, mode: OcrMode): PreprocessedImage {
+  const binarization = BINARIZATION_BY_MODE[mode]
+  const image = binarization ? sauvolaThreshold(receipt.image, binarization) : stretchContrast(receipt.image)
+  const { canvas, ctx } = createCanvas(image.width, image.height)
+
+  const imageData = ctx.createImageData(image.width, image.height)
+  imageData.data.set(toRgba(image).data)
+  ctx.putImageData(imageData, 0, 0)
+  return { url: canvas.toDataURL(), width: image.width, height: image.height }
+}
 
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-  const data = imageData.data
+/** One photo's best reading, with amount boxes still on the straightened receipt. */
+interface PhotoReading {
+  data: ExtractedData
+  layout: OcrLayout | null
+  /** Maps points on the straightened receipt onto the photo the preview shows. */
+  toPhoto: (point: Point) => Point
+}
 
-  let brightnessSum = 0
-  for (let index = 0; index < data.length; index += 4) {
-    const gray = data[index] * 0.299 + data[index + 1] * 0.587 + data[index + 2] * 0.114
-    brightnessSum += gray
+/** Moves amount boxes from the straightened receipts onto the photos they were read from. */
+function mapBoxesToPhoto(data: ExtractedData, readings: PhotoReading[]): ExtractedData {
+  return {
+    ...data,
+    allAmounts: data.allAmounts.map((amount) => {
+      const reading = readings[amount.page ?? 0]
+      return amount.bbox && reading ? { ...amount, bbox: transformBox(amount.bbox, reading.toPhoto) } : amount
+    }),
   }
-  const avgBrightness = brightnessSum / (data.length / 4)
-
-  let factor: number
-  let threshold: number
-
-  switch (mode) {
-    case "high-contrast":
-      factor = avgBrightness < 100 ? 2.5 : avgBrightness > 180 ? 1.8 : 2
-      threshold = avgBrightness < 80 ? 90 : avgBrightness > 200 ? 150 : 120
-      break
-    case "low-contrast":
-      factor = avgBrightness < 100 ? 1.2 : avgBrightness > 180 ? 0.8 : 1
-      threshold = avgBrightness < 80 ? 110 : avgBrightness > 200 ? 130 : 135
-      break
-    default:
-      factor = avgBrightness < 100 ? 2 : avgBrightness > 180 ? 1.2 : 1.5
-      threshold = avgBrightness < 80 ? 100 : avgBrightness > 200 ? 140 : 128
-      break
+}
+
+let ocrPool: { languages: string; pool: WorkerPool<Tesseract.Worker> } | null = null
+
+/** The local language pack folder when it has every pack, else undefined for the CDN. */
+async function findLanguagePath(tesseractLanguages: string): Promise<string | undefined> {
+  const packs = tesseractLanguages.split("+").map((lang) => `${TESSDATA_PATH}/${lang}.traineddata.gz`)
+
+  try {
+    const responses = await Promise.all(packs.map((pack) => fetch(pack, { method: "HEAD" })))
+    return responses.every((response) => response.ok) ? TESSDATA_PATH : undefined
+  } catch {
+    return undefined
   }
+}
 
-  for (let index = 0; index < data.length; index += 4) {
-    const gray = data[index] * 0.299 + data[index + 1] * 0.587 + data[index + 2] * 0.114
-    const contrasted = gray * factor + 128 * (1 - factor)
-    const finalValue = contrasted > threshold ? 255 : contrasted < 50 ? 0 : contrasted
+// One worker per contrast variant, keeping a core free for the page
+function getOcrPoolSize(): number {
+  const cores = typeof navigator === "undefined" ? 1 : navigator.hardwareConcurrency || 1
+  return Math.max(1, Math.min(OCR_MODES.length, cores - 1))
+}
 
-    data[index] = finalValue
-    data[index + 1] = finalValue
-    data[index + 2] = finalValue
+function getOcrPool(languages: ReceiptLanguage[]): WorkerPool<Tesseract.Worker> {
+  const tesseractLanguages = toTesseractLanguages(languages)
+  if (ocrPool?.languages === tesseractLanguages) {
+    return ocrPool.pool
   }
 
-  ctx.putImageData(imageData, 0, 0)
-  return canvas.toDataURL()
+  // Only one set of language packs is kept loaded
+  void ocrPool?.pool.terminate()
+
+  const languagePath = findLanguagePath(tesseractLanguages)
+  const pool = createWorkerPool({
+    create: async (onProgress) =>
+      Tesseract.createWorker(tesseractLanguages, 1, {
+        langPath: await languagePath,
+        logger: (message) => {
+          if (message.status === "recognizing text") {
+            onProgress(Math.round(message.progress * 100))
+          }
+        },
+      }),
+    size: getOcrPoolSize(),
+    idleTimeoutMs: OCR_WORKER_IDLE_TIMEOUT_MS,
+  })
+
+  ocrPool = { languages: tesseractLanguages, pool }
+  return pool
+}
+
+/** Starts the OCR workers and loads their language packs before the first scan. */
+export function warmUpReceiptOcr(languages: ReceiptLanguage[] = DEFAULT_RECEIPT_LANGUAGES): void {
+  void getOcrPool(languages).warmUp()
 }
 
+/**
+ * Ranks OCR variants by the calibrated chance that their total is right, so
+ * readings with a total always rank above those without one. Without a total,
+ * the reading offering the most amounts to pick from is the most useful.
+ */
 function qualityScore(data: ExtractedData): number {
-  const amountFoundScore = data.amount > 0 ? 1.5 : 0
-  const optionsScore = Math.min(0.25, data.allAmounts.length * 0.03)
-  return amountFoundScore + data.confidence + optionsScore
+  if (data.amount > 0) {
+    return 1 + data.confidence
+  }
+
+  return Math.min(0.25, data.allAmounts.length * 0.03)
 }
 
-async function runOcrForMode({
-  img,
+/** Reads one contrast variant; preprocessing waits for a free worker so dropped variants cost nothing. */
+function runOcrForMode({
+  pool,
+  straighten,
+  crop,
   mode,
+  languages,
+  weights,
+  signal,
+  queueSignal,
   onProgress,
-  shouldContinue,
 }: {
-  img: HTMLImageElement
+  pool: WorkerPool<Tesseract.Worker>
+  straighten: () => StraightenedReceipt
+  crop: ReceiptCrop | null
   mode: OcrMode
+  languages: ReceiptLanguage[]
+  weights?: Partial<TotalScoringWeights>
+  signal?: AbortSignal
+  queueSignal: AbortSignal
   onProgress: (progress: number) => void
-  shouldContinue: () => boolean
-}): Promise<ExtractedData | null> {
-  if (!shouldContinue()) {
-    return null
-  }
+}): Promise<PhotoReading> {
+  return pool.run(
+    async (worker) => {
+      const startedAt = performance.now()
+      const receipt = straighten()
+      const processed = renderForOcr(receipt, mode)
+      // Blocks carry the word boxes and confidences the plain text drops
+      const result = await worker.recognize(processed.url, {}, { text: true, blocks: true })
+      performance.measure(`receipt-ocr:${mode}`, { start: startedAt })
 
-  const processedUrl = preprocessImage(img, mode)
-  const result = await Tesseract.recognize(processedUrl, "eng", {
-    logger: (message) => {
-      if (message.status !== "recognizing text") {
-        return
+      const toPhoto = crop ? (point: Point) => cropPointToPhoto(crop, receipt.toSource(point)) : receipt.toSource
+      if (!result.data.blocks) {
+        return { data: extractAmountsFromText(result.data.text, { languages, weights }), layout: null, toPhoto }
       }
 
-      if (!shouldContinue()) {
-        return
-      }
-
-      onProgress(Math.round(message.progress * 100))
+      // Scored on the straightened receipt, where price columns line up
+      const layout = buildOcrLayout(result.data.blocks, processed.width, processed.height)
+      return { data: extractAmountsFromText(layoutToText(layout), { layout, languages, weights }), layout, toPhoto }
     },
-  })
+    { signal, queueSignal, onProgress }
+  )
+}
 
-  if (!shouldContinue()) {
+function selectBestReading(readings: PhotoReading[]): PhotoReading | null {
+  if (readings.length === 0) {
     return null
   }
 
-  return extractAmountsFromText(result.data.text)
+  return [...readings].sort((a, b) => qualityScore(b.data) - qualityScore(a.data))[0]
 }
 
-function selectBestResult(results: ExtractedData[]): ExtractedData | null {
-  if (results.length === 0) {
-    return null
-  }
-
-  return [...results].sort((a, b) => qualityScore(b) - qualityScore(a))[0]
+// A variant whose total needs no review makes the remaining variants unnecessary
+function isConfident(reading: PhotoReading | null): boolean {
+  return reading !== null && reading.data.amount > 0 && reading.data.reviewReasons.length === 0
 }
 
-export async function scanReceiptImage(
+/**
+ * Reads one photo in the normal, high-contrast and low-contrast variants at
+ * once, as far as the worker pool allows, and skips the variants not yet
+ * started once the ones before them give a confident total. Returns null
+ * when aborted.
+ */
+async function readReceiptPhoto(
   img: HTMLImageElement,
-  options: ScanReceiptImageOptions = {}
-): Promise<ExtractedData | null> {
-  const {
-    onProgress = () => undefined,
-    shouldContinue = () => true,
-  } = options
+  {
+    pool,
+    crop,
+    languages,
+    weights,
+    signal,
+    onProgress,
+  }: {
+    pool: WorkerPool<Tesseract.Worker>
+    crop: ReceiptCrop | null
+    languages: ReceiptLanguage[]
+    weights?: Partial<TotalScoringWeights>
+    signal?: AbortSignal
+    onProgress: (progress: number) => void
+  }
+): Promise<PhotoReading | null> {
+  if (signal?.aborted) {
+    return null
+  }
+
+  const startedAt = performance.now()
+  // Stops variants that haven't started; running ones finish on their warm worker and are ignored
+  const variants = new AbortController()
 
+  const progressByMode = new Map<OcrMode, number>(OCR_MODES.map((mode) => [mode, 0]))
   let latestProgress = 0
-  const reportProgress = (nextProgress: number) => {
-    if (!shouldContinue()) {
+  const reportProgress = (mode: OcrMode, progress: number) => {
+    progressByMode.set(mode, progress)
+    const overallProgress = Math.round(
+      [...progressByMode.values()].reduce((sum, value) => sum + value, 0) / OCR_MODES.length
+    )
+
+    if (signal?.aborted || variants.signal.aborted || overallProgress <= latestProgress) {
       return
     }
 
-    latestProgress = Math.max(latestProgress, nextProgress)
+    latestProgress = overallProgress
     onProgress(latestProgress)
   }
 
-  const results: ExtractedData[] = []
-  const normalResult = await runOcrForMode({
-    img,
-    mode: "normal",
-    onProgress: reportProgress,
-    shouldContinue,
-  })
+  // Cropping and straightening is shared by the variants and done once
+  let straightened: StraightenedReceipt | null = null
+  const straighten = () => (straightened ??= straightenReceipt(readPhoto(img, crop), OCR_IMAGE_WIDTH))
 
-  if (!normalResult || !shouldContinue()) {
-    return null
+  const runs = OCR_MODES.map((mode) =>
+    runOcrForMode({
+      pool,
+      straighten,
+      crop,
+      mode,
+      languages,
+      weights,
+      signal,
+      queueSignal: variants.signal,
+      onProgress: (progress) => reportProgress(mode, progress),
+    })
+  )
+  // Variants dropped early reject; only the ones awaited below matter
+  runs.forEach((run) => run.catch(() => undefined))
+
+  const readings: PhotoReading[] = []
+  try {
+    for (const run of runs) {
+      readings.push(await run)
+      if (isConfident(selectBestReading(readings))) {
+        break
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      return null
+    }
+    throw error
+  } finally {
+    variants.abort()
   }
 
-  results.push(normalResult)
+  if (signal?.aborted) {
+    return null
+  }
 
-  const shouldTryHighContrast = normalResult.amount === 0 || normalResult.confidence < 0.75
-  if (shouldTryHighContrast) {
-    reportProgress(50)
+  performance.measure("receipt-scan", { start: startedAt, detail: { variants: readings.length } })
+  return selectBestReading(readings)
+}
 
-    const highContrastResult = await runOcrForMode({
-      img,
-      mode: "high-contrast",
-      onProgress: reportProgress,
-      shouldContinue,
-    })
+/** Scans one photo of a receipt, or the cropped part of it. Returns null when aborted. */
+export async function scanReceiptImage(
+  img: HTMLImageElement,
+  options: ScanReceiptImageOptions = {}
+): Promise<ExtractedData | null> {
+  const {
+    onProgress = () => undefined,
+    signal,
+    languages = DEFAULT_RECEIPT_LANGUAGES,
+    crop = null,
+    weights,
+  } = options
 
-    if (highContrastResult) {
-      results.push(highContrastResult)
-    }
-  }
+  const reading = await readReceiptPhoto(img, {
+    pool: getOcrPool(languages),
+    crop,
+    languages,
+    weights,
+    signal,
+    onProgress,
+  })
+  return reading ? mapBoxesToPhoto(reading.data, [reading]) : null
+}
 
-  const bestSoFar = selectBestResult(results)
-  const shouldTryLowContrast = !bestSoFar || bestSoFar.amount === 0 || bestSoFar.confidence < 0.75
-  if (shouldTryLowContrast) {
-    reportProgress(75)
+/**
+ * Scans several photos of one long receipt, taken top to bottom, one after
+ * another and reads them as a single receipt. Amount boxes refer to the
+ * photo in their `page`. Returns null when aborted.
+ */
+export async function scanReceiptPhotos(
+  imgs: HTMLImageElement[],
+  options: Omit<ScanReceiptImageOptions, "crop"> = {}
+): Promise<ExtractedData | null> {
+  const { onProgress = () => undefined, signal, languages = DEFAULT_RECEIPT_LANGUAGES, weights } = options
+  const pool = getOcrPool(languages)
 
-    const lowContrastResult = await runOcrForMode({
-      img,
-      mode: "low-contrast",
-      onProgress: reportProgress,
-      shouldContinue,
+  const readings: PhotoReading[] = []
+  for (const [page, img] of imgs.entries()) {
+    const reading = await readReceiptPhoto(img, {
+      pool,
+      crop: null,
+      languages,
+      weights,
+      signal,
+      onProgress: (progress) => onProgress(Math.round((page * 100 + progress) / imgs.length)),
     })
-
-    if (lowContrastResult) {
-      results.push(lowContrastResult)
+    if (!reading) {
+      return null
     }
+    readings.push(reading)
   }
 
-  if (!shouldContinue()) {
-    return null
-  }
-
-  return selectBestResult(results)
+  const data = extractAmountsFromPages(
+    readings.map(({ data, layout }) => ({ text: data.rawText, layout })),
+    { languages, weights }
+  )
+  return mapBoxesToPhoto(data, readings)
 }
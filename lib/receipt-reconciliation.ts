@@ -0,0 +1,170 @@
+export interface ReconciliationLine {
+  value: number
+  lineIndex: number
+}
+
+export interface ReconciliationInput {
+  items: ReconciliationLine[]
+  subtotal: ReconciliationLine | null
+  taxes: ReconciliationLine[]
+  /** Service charges, gratuities and other fees added on top of the subtotal. */
+  fees: ReconciliationLine[]
+  /** Discounts above the subtotal reduce the items, discounts below it reduce the total. */
+  discounts: ReconciliationLine[]
+  total: ReconciliationLine
+}
+
+export type MisreadKind = "digit" | "transposition" | "decimal-point"
+
+export interface SuspectedMisread {
+  lineIndex: number
+  readValue: number
+  /** Value that would make the receipt add up to the cent. */
+  correctedValue: number
+  kind: MisreadKind
+}
+
+export interface ReconciliationResult {
+  /** Null when there are no items or no subtotal to compare. */
+  itemsMatchSubtotal: boolean | null
+  /** Items minus item discounts, minus the subtotal. */
+  itemsDifferenceCents: number
+  /** Null when neither a subtotal nor items were found. */
+  totalMatches: boolean | null
+  /** Subtotal (or items) plus taxes and fees minus discounts, minus the total. */
+  totalDifferenceCents: number
+  misreads: SuspectedMisread[]
+}
+
+interface Term {
+  line: ReconciliationLine
+  /** +1 when the line adds to the expected side of the equation, -1 when it subtracts. */
+  sign: 1 | -1
+}
+
+const toCents = (value: number) => Math.round(value * 100)
+
+const sumCents = (lines: ReconciliationLine[]) => lines.reduce((sum, line) => sum + toCents(line.value), 0)
+
+/**
+ * Names the OCR mistake that turns `correctCents` into `readCents`: one digit
+ * read wrong, two neighbouring digits swapped, or a decimal separator lost or
+ * misplaced (a power of ten). Differences like these are the typical
+ * signature of a misread rather than a wrongly chosen line.
+ */
+export function classifyMisread(readCents: number, correctCents: number): MisreadKind | null {
+  if (readCents <= 0 || correctCents <= 0 || readCents === correctCents) {
+    return null
+  }
+
+  const ratio = Math.max(readCents, correctCents) / Math.min(readCents, correctCents)
+  if ([10, 100, 1000].includes(ratio)) {
+    return "decimal-point"
+  }
+
+  const read = String(readCents)
+  const correct = String(correctCents)
+  if (read.length !== correct.length) {
+    return null
+  }
+
+  const differingPositions = [...read].flatMap((digit, index) => (digit !== correct[index] ? [index] : []))
+  if (differingPositions.length === 1) {
+    return "digit"
+  }
+
+  const [first, second] = differingPositions
+  const isAdjacentSwap =
+    differingPositions.length === 2 &&
+    second === first + 1 &&
+    read[first] === correct[second] &&
+    read[second] === correct[first]
+
+  return isAdjacentSwap ? "transposition" : null
+}
+
+/**
+ * Finds the lines that could be misread so that `differenceCents`
+ * (expected minus read) disappears if that one line is corrected.
+ */
+function findMisreads(terms: Term[], differenceCents: number): SuspectedMisread[] {
+  return terms.flatMap(({ line, sign }) => {
+    const readCents = toCents(line.value)
+    const correctedCents = readCents - sign * differenceCents
+    const kind = classifyMisread(readCents, correctedCents)
+
+    return kind ? [{ lineIndex: line.lineIndex, readValue: line.value, correctedValue: correctedCents / 100, kind }] : []
+  })
+}
+
+/**
+ * Checks the receipt's arithmetic to the cent: items against the subtotal,
+ * and subtotal plus taxes and fees minus discounts against the total. When a
+ * check fails by an amount one misread line explains, that line is flagged.
+ * A line confirmed by the other check is never blamed.
+ */
+export function reconcileReceipt(input: ReconciliationInput): ReconciliationResult {
+  const { items, subtotal, taxes, fees, discounts, total } = input
+  const itemDiscounts = subtotal ? discounts.filter((line) => line.lineIndex < subtotal.lineIndex) : []
+  const totalDiscounts = discounts.filter((line) => !itemDiscounts.includes(line))
+
+  const itemsNetCents = sumCents(items) - sumCents(itemDiscounts)
+  const itemsDifferenceCents = subtotal ? itemsNetCents - toCents(subtotal.value) : 0
+  const itemsMatchSubtotal = items.length > 0 && subtotal ? itemsDifferenceCents === 0 : null
+
+  const baseCents = subtotal ? toCents(subtotal.value) : itemsNetCents
+  const expectedTotalCents = baseCents + sumCents(taxes) + sumCents(fees) - sumCents(totalDiscounts)
+  const totalDifferenceCents = expectedTotalCents - toCents(total.value)
+  const totalMatches = subtotal || items.length > 0 ? totalDifferenceCents === 0 : null
+
+  const misreads: SuspectedMisread[] = []
+
+  if (totalMatches === false) {
+    const baseTerms: Term[] = subtotal
+      ? itemsMatchSubtotal
+        ? []
+        : [{ line: subtotal, sign: 1 }]
+      : items.map((line) => ({ line, sign: 1 }))
+
+    misreads.push(
+      ...findMisreads(
+        [
+          ...baseTerms,
+          ...taxes.map((line): Term => ({ line, sign: 1 })),
+          ...fees.map((line): Term => ({ line, sign: 1 })),
+          ...totalDiscounts.map((line): Term => ({ line, sign: -1 })),
+          // The total sits on the other side of the equation
+          { line: total, sign: -1 },
+        ],
+        totalDifferenceCents
+      )
+    )
+  }
+
+  if (itemsMatchSubtotal === false && subtotal) {
+    misreads.push(
+      ...findMisreads(
+        [
+          ...items.map((line): Term => ({ line, sign: 1 })),
+          ...itemDiscounts.map((line): Term => ({ line, sign: -1 })),
+          ...(totalMatches ? [] : [{ line: subtotal, sign: -1 } satisfies Term]),
+        ],
+        itemsDifferenceCents
+      )
+    )
+  }
+
+  const seen = new Set<string>()
+  return {
+    itemsMatchSubtotal,
+    itemsDifferenceCents,
+    totalMatches,
+    totalDifferenceCents,
+    misreads: misreads.filter((misread) => {
+      const key = `${misread.lineIndex}:${misread.correctedValue}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    }),
+  }
+}
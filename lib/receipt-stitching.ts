@@ -0,0 +1,106 @@
+/** A line of the stitched receipt and where it was read. */
+export interface StitchedLine {
+  text: string
+  /** Index of the photo it was read from. */
+  page: number
+  /** Line index within that photo's text. */
+  index: number
+}
+
+/** Where two photos of the same receipt overlap. */
+export interface PageOverlap {
+  /** Lines of the previous photos before this index are kept. */
+  previousEnd: number
+  /** Lines of the next photo from this index on are appended. */
+  nextStart: number
+  /** How many lines both photos show. */
+  lines: number
+}
+
+// Two matching lines rarely repeat by chance; one could be a repeated item
+const MIN_OVERLAP_LINES = 2
+// A line cut off at a photo's edge is misread and may not match its copy
+const EDGE_SLACK_LINES = 1
+const MIN_LINE_SIMILARITY = 0.8
+// Separators and stray marks match anything alike, so they do not count as overlap
+const MIN_DISTINCT_LINE_LENGTH = 3
+
+/** Letters and digits only, so "12,50" and "12.50" or extra spaces still match. */
+const normalizeLine = (text: string) => text.toUpperCase().replace(/[^\p{L}\p{N}]/gu, "")
+
+function editDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previousRow = row
+  }
+
+  return previousRow[b.length]
+}
+
+/** 1 for lines that read the same, down to 0 for entirely different ones. */
+export function lineSimilarity(a: string, b: string): number {
+  const normalizedA = normalizeLine(a)
+  const normalizedB = normalizeLine(b)
+  const longest = Math.max(normalizedA.length, normalizedB.length)
+
+  return longest === 0 ? 1 : 1 - editDistance(normalizedA, normalizedB) / longest
+}
+
+/**
+ * Finds the lines at the bottom of the previous photos that the next photo
+ * repeats at its top, allowing a cut-off line at either edge. Returns null
+ * when the photos don't overlap.
+ */
+export function findPageOverlap(previous: string[], next: string[]): PageOverlap | null {
+  let best: PageOverlap | null = null
+
+  for (let slack = 0; slack <= EDGE_SLACK_LINES; slack++) {
+    const previousEnd = previous.length - slack
+    for (let nextOffset = 0; nextOffset <= EDGE_SLACK_LINES; nextOffset++) {
+      const longest = Math.min(previousEnd, next.length - nextOffset)
+
+      for (let length = longest; length > (best?.lines ?? 0); length--) {
+        const previousStart = previousEnd - length
+        const overlapping = next.slice(nextOffset, nextOffset + length)
+        const matches = overlapping.every(
+          (text, line) => lineSimilarity(previous[previousStart + line], text) >= MIN_LINE_SIMILARITY
+        )
+        if (!matches) {
+          continue
+        }
+
+        const distinctLines = overlapping.filter((text) => normalizeLine(text).length >= MIN_DISTINCT_LINE_LENGTH)
+        if (distinctLines.length >= MIN_OVERLAP_LINES) {
+          best = { previousEnd, nextStart: nextOffset + length, lines: length }
+        }
+        break
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Joins the lines of several photos of one receipt, taken top to bottom,
+ * keeping lines that two photos both show only once.
+ */
+export function stitchPages(pages: string[][]): StitchedLine[] {
+  let stitched: StitchedLine[] = []
+
+  pages.forEach((lines, page) => {
+    const pageLines = lines.map((text, index) => ({ text, page, index }))
+    const overlap = findPageOverlap(stitched.map((line) => line.text), lines)
+
+    stitched = overlap
+      ? [...stitched.slice(0, overlap.previousEnd), ...pageLines.slice(overlap.nextStart)]
+      : [...stitched, ...pageLines]
+  })
+
+  return stitched
+}
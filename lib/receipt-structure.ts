@@ -0,0 +1,271 @@
+export type PaymentMethod = "cash" | "card" | "visa" | "mastercard" | "amex" | "discover" | "mobile"
+
+export interface ReceiptField<T> {
+  value: T
+  /** Between 0 and 1. */
+  confidence: number
+  /** Line of the OCR text the value was read from. */
+  lineIndex: number
+}
+
+export interface ParsedItemText {
+  description: string
+  quantity: number
+  unitPrice: number
+  /** The line printed its own unit price ("2 @ 7.00") that agrees with the line price. */
+  unitPriceConfirmed: boolean
+}
+
+export const TRAILING_AMOUNTS_PATTERN = /(?:\s*[$€£¥₹₽]?\s*\d+(?:[.,'’]\d+)*\s*[$€£¥₹₽]?)+\s*$/
+
+const MERCHANT_SEARCH_LINES = 5
+const NON_MERCHANT_PATTERN =
+  /\b(RECEIPT|INVOICE|TABLE|SERVER|GUEST|CHECK|ORDER|TEL|PHONE|FAX|WWW|HTTPS?|STORE\s*#|TERMINAL|CASHIER)\b|@|\.(COM|NET|ORG)\b/i
+const WELCOME_PREFIX_PATTERN = /^WELCOME\s+TO\s+/i
+const PRICE_PATTERN = /\d[.,]\d{2}\b/
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+const MONTH_PATTERN = `(${MONTH_NAMES.join("|")})[A-Z]*\\.?`
+const ISO_DATE_PATTERN = /\b(\d{4})([./-])(\d{1,2})\2(\d{1,2})\b/
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})([./-])(\d{1,2})\2(\d{4}|\d{2})\b/
+const DAY_FIRST_NAMED_DATE_PATTERN = new RegExp(`\\b(\\d{1,2})[\\s-]*${MONTH_PATTERN}[\\s,-]*(\\d{4}|\\d{2})\\b`, "i")
+const MONTH_FIRST_NAMED_DATE_PATTERN = new RegExp(`\\b${MONTH_PATTERN}\\s*(\\d{1,2}),?\\s+(\\d{4}|\\d{2})\\b`, "i")
+const DATE_LABEL_PATTERN = /\bDATE\b/i
+const TIME_PATTERN = /\b([01]?\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?(?:\s*([AP])\.?M\.?\b)?/i
+
+const PAYMENT_METHOD_PATTERNS: [pattern: RegExp, method: PaymentMethod, confidence: number][] = [
+  [/\bVISA\b/i, "visa", 0.9],
+  [/\bMASTER\s*CARD\b/i, "mastercard", 0.9],
+  [/\b(AMEX|AMERICAN\s*EXPRESS)\b/i, "amex", 0.9],
+  [/\bDISCOVER\b/i, "discover", 0.9],
+  [/\b(APPLE\s*PAY|GOOGLE\s*PAY|CONTACTLESS)\b/i, "mobile", 0.8],
+  [/\b(DEBIT|CREDIT|CARD)\b/i, "card", 0.7],
+  [/\bCASH\b/i, "cash", 0.85],
+]
+
+const UNIT_PRICE_PATTERN =
+  /\s(\d{1,3})\s*(?:@|[xX×])\s*[$€£¥₹₽]?\s*(\d+[.,]\d{2})\s*[$€£¥₹₽]?\s+[$€£¥₹₽]?\s*\d+[.,]\d{2}\s*[$€£¥₹₽]?\s*$/
+const LEADING_QUANTITY_PATTERN = /^(\d{1,3})\s*(?:[xX×]\s+|\s(?=\p{L}))/u
+
+const normalizeLine = (line: string) => line.replace(/\s+/g, " ").trim()
+
+const parseDecimal = (value: string) => parseFloat(value.replace(",", "."))
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const fullYear = year < 100 ? 2000 + year : year
+  const date = new Date(Date.UTC(fullYear, month - 1, day))
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+
+  return date.toISOString().slice(0, 10)
+}
+
+const monthFromName = (name: string) => MONTH_NAMES.indexOf(name.slice(0, 3).toUpperCase()) + 1
+
+/**
+ * Reads a date from a single line. Numeric dates are read day first unless
+ * only month first makes sense, except slash-separated dates, which follow
+ * the US order; ambiguous readings get a lower confidence.
+ */
+function parseDate(line: string): { value: string; confidence: number } | null {
+  const iso = ISO_DATE_PATTERN.exec(line)
+  if (iso) {
+    const value = toIsoDate(Number(iso[1]), Number(iso[3]), Number(iso[4]))
+    if (value) return { value, confidence: 0.95 }
+  }
+
+  const named = DAY_FIRST_NAMED_DATE_PATTERN.exec(line)
+  if (named) {
+    const value = toIsoDate(Number(named[3]), monthFromName(named[2]), Number(named[1]))
+    if (value) return { value, confidence: 0.9 }
+  }
+
+  const monthFirst = MONTH_FIRST_NAMED_DATE_PATTERN.exec(line)
+  if (monthFirst) {
+    const value = toIsoDate(Number(monthFirst[3]), monthFromName(monthFirst[1]), Number(monthFirst[2]))
+    if (value) return { value, confidence: 0.9 }
+  }
+
+  const numeric = NUMERIC_DATE_PATTERN.exec(line)
+  if (numeric) {
+    const first = Number(numeric[1])
+    const second = Number(numeric[3])
+    const year = Number(numeric[4])
+    const isAmbiguous = first <= 12 && second <= 12 && first !== second
+    const isMonthFirst = second > 12 || (first <= 12 && numeric[2] === "/")
+    const value = isMonthFirst ? toIsoDate(year, first, second) : toIsoDate(year, second, first)
+    if (value) return { value, confidence: isAmbiguous ? 0.6 : 0.85 }
+  }
+
+  return null
+}
+
+function parseTime(line: string): string | null {
+  const match = TIME_PATTERN.exec(line)
+  if (!match) {
+    return null
+  }
+
+  let hours = Number(match[1])
+  const meridiem = match[3]?.toUpperCase()
+  if (meridiem && hours > 12) return null
+  if (meridiem === "P" && hours < 12) hours += 12
+  if (meridiem === "A" && hours === 12) hours = 0
+
+  return `${String(hours).padStart(2, "0")}:${match[2]}`
+}
+
+export function isDateLine(line: string): boolean {
+  return parseDate(line) !== null
+}
+
+/** True for lines such as "03/14/2024 7:42 PM" whose numbers are all date or time. */
+export function isDateTimeOnlyLine(line: string): boolean {
+  const remainder = [
+    ISO_DATE_PATTERN,
+    DAY_FIRST_NAMED_DATE_PATTERN,
+    MONTH_FIRST_NAMED_DATE_PATTERN,
+    NUMERIC_DATE_PATTERN,
+    TIME_PATTERN,
+  ].reduce((text, pattern) => text.replace(pattern, " "), line)
+
+  return remainder !== line && !/\d/.test(remainder)
+}
+
+/**
+ * Takes the merchant name from the first meaningful line at the top of the
+ * receipt, skipping addresses, phone numbers, dates and headings such as
+ * "RECEIPT". Every skipped line lowers the confidence.
+ */
+export function findMerchant(lines: string[]): ReceiptField<string> | null {
+  let skipped = 0
+
+  for (const [lineIndex, rawLine] of lines.slice(0, MERCHANT_SEARCH_LINES).entries()) {
+    const line = normalizeLine(rawLine).replace(WELCOME_PREFIX_PATTERN, "")
+    if (!line) {
+      continue
+    }
+
+    const letterCount = line.match(/\p{L}/gu)?.length ?? 0
+    const isMerchantLike =
+      letterCount >= 3 &&
+      !/^\d/.test(line) &&
+      !NON_MERCHANT_PATTERN.test(line) &&
+      !PRICE_PATTERN.test(line) &&
+      !isDateLine(line) &&
+      !TIME_PATTERN.test(line)
+
+    if (!isMerchantLike) {
+      skipped++
+      continue
+    }
+
+    const mostlyLetters = letterCount / line.replace(/\s/g, "").length >= 0.6
+    const confidence = Math.max(0.2, 0.85 - skipped * 0.15 - (mostlyLetters ? 0 : 0.2))
+
+    return { value: line, confidence, lineIndex }
+  }
+
+  return null
+}
+
+/** Finds the transaction date as YYYY-MM-DD, preferring lines labelled "Date". */
+export function findTransactionDate(lines: string[]): ReceiptField<string> | null {
+  const candidates = lines
+    .map((line, lineIndex) => {
+      const parsed = parseDate(line)
+      return parsed
+        ? {
+            value: parsed.value,
+            confidence: Math.min(0.98, parsed.confidence + (DATE_LABEL_PATTERN.test(line) ? 0.05 : 0)),
+            lineIndex,
+          }
+        : null
+    })
+    .filter((candidate): candidate is ReceiptField<string> => candidate !== null)
+
+  return candidates.sort((a, b) => b.confidence - a.confidence || a.lineIndex - b.lineIndex)[0] ?? null
+}
+
+/**
+ * Finds the transaction time as 24-hour HH:mm. A time printed on the same
+ * line as the date is the most trustworthy.
+ */
+export function findTransactionTime(lines: string[], dateLineIndex: number | null = null): ReceiptField<string> | null {
+  const order = lines.map((_, lineIndex) => lineIndex)
+  if (dateLineIndex !== null) {
+    order.sort((a, b) => Number(b === dateLineIndex) - Number(a === dateLineIndex))
+  }
+
+  for (const lineIndex of order) {
+    const value = parseTime(lines[lineIndex])
+    if (value) {
+      return { value, confidence: lineIndex === dateLineIndex ? 0.9 : 0.75, lineIndex }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Looks for the payment method, starting at `fromLineIndex` (usually the
+ * total) because tenders are printed below it. Matches above that line are
+ * only used as a fallback and are trusted less.
+ */
+export function findPaymentMethod(lines: string[], fromLineIndex = 0): ReceiptField<PaymentMethod> | null {
+  const search = (lineIndexes: number[], confidenceFactor: number): ReceiptField<PaymentMethod> | null => {
+    for (const lineIndex of lineIndexes) {
+      const match = PAYMENT_METHOD_PATTERNS.find(([pattern]) => pattern.test(lines[lineIndex]))
+      if (match) {
+        return { value: match[1], confidence: match[2] * confidenceFactor, lineIndex }
+      }
+    }
+
+    return null
+  }
+
+  const lineIndexes = lines.map((_, lineIndex) => lineIndex)
+  return (
+    search(lineIndexes.slice(fromLineIndex), 1) ??
+    search(lineIndexes.slice(0, fromLineIndex).reverse(), 0.7)
+  )
+}
+
+/**
+ * Splits a line item into description, quantity and unit price. Handles a
+ * leading count ("2 X IPA 14.00", "2 IPA 14.00") and a printed unit price
+ * ("IPA 2 @ 7.00 14.00"); anything else is a single item.
+ */
+export function parseItemText(context: string, price: number): ParsedItemText {
+  const line = normalizeLine(context)
+
+  const unitPriceMatch = UNIT_PRICE_PATTERN.exec(line)
+  if (unitPriceMatch) {
+    const quantity = Number(unitPriceMatch[1])
+    const unitPrice = parseDecimal(unitPriceMatch[2])
+    if (quantity > 0) {
+      return {
+        description: line.slice(0, unitPriceMatch.index).trim(),
+        quantity,
+        unitPrice,
+        unitPriceConfirmed: Math.round(quantity * unitPrice * 100) === Math.round(price * 100),
+      }
+    }
+  }
+
+  const description = line.replace(TRAILING_AMOUNTS_PATTERN, "").trim()
+  const quantityMatch = LEADING_QUANTITY_PATTERN.exec(description)
+  const quantity = quantityMatch ? Number(quantityMatch[1]) : 1
+
+  if (!quantityMatch || quantity === 0) {
+    return { description, quantity: 1, unitPrice: price, unitPriceConfirmed: false }
+  }
+
+  return {
+    description: description.slice(quantityMatch[0].length).trim(),
+    quantity,
+    unitPrice: Math.round((price / quantity) * 100) / 100,
+    unitPriceConfirmed: false,
+  }
+}
@@ -0,0 +1,177 @@
+import type { CurrencyCode } from "./currency"
+import type { ReceiptLanguage } from "./receipt-keywords"
+
+export interface TippingConvention {
+  name: string
+  currency: CurrencyCode
+  /** Tip percentages offered as buttons. */
+  presets: number[]
+  defaultTip: number
+  /** Restaurants commonly add a service charge to the bill already. */
+  serviceChargeCustomary: boolean
+  /** Tips are usually worked out on the amount before sales tax. */
+  tipOnPreTax: boolean
+  /** Languages receipts are printed in, most common first. */
+  receiptLanguages: ReceiptLanguage[]
+}
+
+export const TIPPING_CONVENTIONS = {
+  US: {
+    name: "United States",
+    currency: "USD",
+    presets: [10, 15, 18, 20, 25],
+    defaultTip: 15,
+    serviceChargeCustomary: false,
+    tipOnPreTax: true,
+    receiptLanguages: ["en"],
+  },
+  CA: {
+    name: "Canada",
+    currency: "CAD",
+    presets: [10, 15, 18, 20, 25],
+    defaultTip: 15,
+    serviceChargeCustomary: false,
+    tipOnPreTax: true,
+    receiptLanguages: ["en", "fr"],
+  },
+  GB: {
+    name: "United Kingdom",
+    currency: "GBP",
+    presets: [0, 10, 12.5, 15],
+    defaultTip: 10,
+    serviceChargeCustomary: true,
+    tipOnPreTax: false,
+    receiptLanguages: ["en"],
+  },
+  IE: {
+    name: "Ireland",
+    currency: "EUR",
+    presets: [0, 10, 12.5, 15],
+    defaultTip: 10,
+    serviceChargeCustomary: false,
+    tipOnPreTax: false,
+    receiptLanguages: ["en"],
+  },
+  DE: {
+    name: "Germany",
+    currency: "EUR",
+    presets: [0, 5, 10, 15],
+    defaultTip: 10,
+    serviceChargeCustomary: false,
+    tipOnPreTax: false,
+    receiptLanguages: ["de", "en"],
+  },
+  FR: {
+    name: "France",
+    currency: "EUR",
+    presets: [0, 5, 10],
+    defaultTip: 5,
+    serviceChargeCustomary: true,
+    tipOnPreTax: false,
+    receiptLanguages: ["fr", "en"],
+  },
+  ES: {
+    name: "Spain",
+    currency: "EUR",
+    presets: [0, 5, 10],
+    defaultTip: 5,
+    serviceChargeCustomary: false,
+    tipOnPreTax: false,
+    receiptLanguages: ["es", "en"],
+  },
+  IT: {
+    name: "Italy",
+    currency: "EUR",
+    presets: [0, 5, 10],
+    defaultTip: 0,
+    serviceChargeCustomary: true,
+    tipOnPreTax: false,
+    receiptLanguages: ["it", "en"],
+  },
+  NL: {
+    name: "Netherlands",
+    currency: "EUR",
+    presets: [0, 5, 10],
+    defaultTip: 5,
+    serviceChargeCustomary: false,
+    tipOnPreTax: false,
+    receiptLanguages: ["nl", "en"],
+  },
+  CH: {
+    name: "Switzerland",
+    currency: "CHF",
+    presets: [0, 5, 10],
+    defaultTip: 5,
+    serviceChargeCustomary: true,
+    tipOnPreTax: false,
+    receiptLanguages: ["de", "fr", "it", "en"],
+  },
+  JP: {
+    name: "Japan",
+    currency: "JPY",
+    presets: [0, 5, 10],
+    defaultTip: 0,
+    serviceChargeCustomary: false,
+    tipOnPreTax: false,
+    receiptLanguages: ["ja", "en"],
+  },
+  AU: {
+    name: "Australia",
+    currency: "AUD",
+    presets: [0, 5, 10, 15],
+    defaultTip: 5,
+    serviceChargeCustomary: false,
+    tipOnPreTax: false,
+    receiptLanguages: ["en"],
+  },
+  IN: {
+    name: "India",
+    currency: "INR",
+    presets: [0, 5, 10, 15],
+    defaultTip: 10,
+    serviceChargeCustomary: true,
+    tipOnPreTax: false,
+    receiptLanguages: ["en"],
+  },
+} satisfies Record<string, TippingConvention>
+
+export type RegionCode = keyof typeof TIPPING_CONVENTIONS
+
+export const DEFAULT_REGION: RegionCode = "US"
+
+export const MAX_TIP_PRESETS = 6
+
+export function isRegionCode(value: unknown): value is RegionCode {
+  return typeof value === "string" && Object.hasOwn(TIPPING_CONVENTIONS, value)
+}
+
+/**
+ * Cleans up a user-defined preset list: keeps percentages between 0 and 100,
+ * drops duplicates and sorts ascending. Returns null when nothing usable is
+ * left or the list would not fit the button row.
+ */
+export function sanitizeTipPresets(values: unknown[]): number[] | null {
+  const presets = [
+    ...new Set(
+      values.filter(
+        (value): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100
+      )
+    ),
+  ].sort((a, b) => a - b)
+
+  return presets.length > 0 && presets.length <= MAX_TIP_PRESETS ? presets : null
+}
+
+/** Parses a list typed as "10, 12.5, 15" (percent signs allowed). */
+export function parseTipPresets(text: string): number[] | null {
+  const parts = text
+    .split(/[,;\s]+/)
+    .map((part) => part.replace(/%$/, ""))
+    .filter(Boolean)
+
+  if (parts.length === 0 || parts.some((part) => !/^\d+(?:\.\d+)?$/.test(part))) {
+    return null
+  }
+
+  return sanitizeTipPresets(parts.map(Number))
+}
@@ -0,0 +1,170 @@
+import type { CategorizedAmount } from "./number-utils"
+
+/**
+ * Points each signal adds to (or, when negative, takes from) an amount's
+ * chance of being the receipt total. Signals scaled by a measurement, such as
+ * the line position, add their weight times that measurement.
+ */
+export interface TotalScoringWeights {
+  /** Labelled as the amount due, e.g. "GRAND TOTAL" or "Zu zahlen". */
+  grandTotalLabel: number
+  /** Any total label or hint, e.g. "TOTAL" or "Summe". */
+  totalLabel: number
+  /** Total labels that aren't the bill total, e.g. "TOTAL SAVINGS" or "Total items". */
+  misleadingTotalLabel: number
+  /** Tendered, change or card lines. */
+  paymentLine: number
+  totalCategory: number
+  subtotalCategory: number
+  /** Tax and tip lines. */
+  chargeCategory: number
+  itemCategory: number
+  /** Subtotal plus tax and tip add up to the amount; scaled by how sure that match is. */
+  addsUp: number
+  /** The receipt has subtotal, tax or tip lines, but they don't add up to the amount. */
+  doesNotAddUp: number
+  /** Scaled by the amount over the largest amount on the receipt. */
+  relativeValue: number
+  /** Among the three largest amounts. */
+  largestValues: number
+  /** Scaled from 0 on the first line to 1 on the last. */
+  linePosition: number
+  /** Below 1, e.g. a deposit or a rounding line. */
+  underOneUnit: number
+  /** Digits were repaired from OCR confusions such as O for 0. */
+  correctedDigits: number
+  /** Scaled by how unsure OCR was of the amount's characters. */
+  lowWordConfidence: number
+  /** Printed in the right-aligned price column. */
+  priceColumn: number
+  /** The rest of the receipt adds up to the amount to the cent. */
+  reconciles: number
+  /** Receipts whose best amount scores less have no detected total. */
+  minimumScore: number
+}
+
+export type TotalScoringSignal = Exclude<keyof TotalScoringWeights, "minimumScore">
+
+/** What the receipt says about one amount, measured before any weights apply. */
+export interface TotalCandidateSignals {
+  grandTotalLabel: boolean
+  totalLabel: boolean
+  misleadingTotalLabel: boolean
+  paymentLine: boolean
+  category: CategorizedAmount["category"]
+  /** Confidence that subtotal, tax and tip add up to the amount; null when they don't. */
+  addsUp: number | null
+  /** The receipt has subtotal, tax or tip lines to add up. */
+  hasRelationshipAnchors: boolean
+  /** Amount over the largest amount, between 0 and 1. */
+  relativeValue: number
+  largestValues: boolean
+  /** Between 0 on the first line and 1 on the last. */
+  linePosition: number
+  underOneUnit: boolean
+  correctedDigits: boolean
+  /** OCR confidence in the amount's characters, between 0 and 1, when known. */
+  wordConfidence: number | null
+  priceColumn: boolean
+}
+
+export interface ScoreContribution {
+  signal: TotalScoringSignal
+  points: number
+}
+
+/** An amount's score and the signals that make it up, in the order they were applied. */
+export interface TotalScore {
+  score: number
+  contributions: ScoreContribution[]
+}
+
+export const DEFAULT_TOTAL_SCORING_WEIGHTS: TotalScoringWeights = {
+  grandTotalLabel: 4.2,
+  totalLabel: 1.8,
+  misleadingTotalLabel: -2.2,
+  paymentLine: -2.8,
+  totalCategory: 1.4,
+  subtotalCategory: 0.4,
+  chargeCategory: -0.8,
+  itemCategory: -0.4,
+  addsUp: 2.4,
+  doesNotAddUp: -0.6,
+  relativeValue: 1,
+  largestValues: 0.5,
+  linePosition: 1.6,
+  underOneUnit: -1,
+  correctedDigits: -0.3,
+  lowWordConfidence: -1.2,
+  priceColumn: 0.4,
+  reconciles: 3,
+  minimumScore: 1.2,
+}
+
+const SIGNAL_DESCRIPTIONS: Record<TotalScoringSignal, string> = {
+  grandTotalLabel: "Labelled as the amount due",
+  totalLabel: "Labelled as a total",
+  misleadingTotalLabel: "Label looks like a total but isn't the bill total",
+  paymentLine: "Looks like a payment or change line",
+  totalCategory: "Reads as the total line",
+  subtotalCategory: "Reads as the subtotal line",
+  chargeCategory: "Reads as a tax or tip line",
+  itemCategory: "Reads as an item line",
+  addsUp: "Subtotal, tax and tip add up to it",
+  doesNotAddUp: "Subtotal, tax and tip don't add up to it",
+  relativeValue: "Size compared to the largest amount",
+  largestValues: "One of the three largest amounts",
+  linePosition: "Position towards the bottom of the receipt",
+  underOneUnit: "Less than 1",
+  correctedDigits: "Digits were repaired from likely misreads",
+  lowWordConfidence: "Characters were hard to read",
+  priceColumn: "In the price column",
+  reconciles: "The receipt adds up to it exactly",
+}
+
+export function resolveTotalScoringWeights(overrides: Partial<TotalScoringWeights> = {}): TotalScoringWeights {
+  return { ...DEFAULT_TOTAL_SCORING_WEIGHTS, ...overrides }
+}
+
+export function addScoreContribution(score: TotalScore, signal: TotalScoringSignal, points: number): TotalScore {
+  if (points === 0) {
+    return score
+  }
+
+  return { score: score.score + points, contributions: [...score.contributions, { signal, points }] }
+}
+
+/** Scores how likely an amount is the total; signals that don't apply are left out of the trace. */
+export function scoreTotalCandidate(
+  signals: TotalCandidateSignals,
+  weights: TotalScoringWeights = DEFAULT_TOTAL_SCORING_WEIGHTS
+): TotalScore {
+  const applied: [TotalScoringSignal, number][] = [
+    ["grandTotalLabel", signals.grandTotalLabel ? 1 : 0],
+    ["totalLabel", signals.totalLabel ? 1 : 0],
+    ["misleadingTotalLabel", signals.misleadingTotalLabel ? 1 : 0],
+    ["paymentLine", signals.paymentLine || signals.category === "payment" ? 1 : 0],
+    ["totalCategory", signals.category === "total" ? 1 : 0],
+    ["subtotalCategory", signals.category === "subtotal" ? 1 : 0],
+    ["chargeCategory", signals.category === "tax" || signals.category === "tip" ? 1 : 0],
+    ["itemCategory", signals.category === "item" ? 1 : 0],
+    ["addsUp", signals.addsUp ?? 0],
+    ["doesNotAddUp", signals.addsUp === null && signals.hasRelationshipAnchors ? 1 : 0],
+    ["relativeValue", signals.relativeValue],
+    ["largestValues", signals.largestValues ? 1 : 0],
+    ["linePosition", signals.linePosition],
+    ["underOneUnit", signals.underOneUnit ? 1 : 0],
+    ["correctedDigits", signals.correctedDigits ? 1 : 0],
+    ["lowWordConfidence", signals.wordConfidence === null ? 0 : 1 - signals.wordConfidence],
+    ["priceColumn", signals.priceColumn ? 1 : 0],
+  ]
+
+  return applied.reduce<TotalScore>(
+    (score, [signal, measurement]) => addScoreContribution(score, signal, weights[signal] * measurement),
+    { score: 0, contributions: [] }
+  )
+}
+
+export function describeScoringSignal(signal: TotalScoringSignal): string {
+  return SIGNAL_DESCRIPTIONS[signal]
+}
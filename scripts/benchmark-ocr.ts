@@ -0,0 +1,139 @@
+// Runs extractAmountsFromText over the receipt corpus in tests/fixtures/corpus
+// and reports per-field accuracy and how well the total's confidence matches
+// how often it is right. Pass --json for machine-readable output to compare
+// scoring changes against, and --weights <file> to try total scoring weight
+// overrides (a JSON object of TotalScoringWeights) against the defaults.
+// --fit-calibration prints TOTAL_CONFIDENCE_CALIBRATION refitted to the
+// corpus, to paste into lib/confidence-calibration.ts after scoring changes.
+// The shipped calibration is fitted to this corpus, so calibration and review
+// figures are also reported cross-validated, on receipts left out of the fit.
+import { readFileSync } from "node:fs"
+
+import { fitConfidenceCalibration, REVIEW_CONFIDENCE_THRESHOLD } from "../lib/confidence-calibration"
+import type { TotalScoringWeights } from "../lib/total-scoring"
+import {
+  CORPUS_FIELDS,
+  crossValidateCorpus,
+  evaluateReceipt,
+  isTotalCorrect,
+  loadReceiptCorpus,
+  summarizeCorpus,
+  withReviewThreshold,
+} from "../tests/fixtures/corpus"
+
+// Review thresholds compared on the cross-validated results
+const REVIEW_THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9]
+
+const weightsFlag = process.argv.indexOf("--weights")
+const weightsFile = weightsFlag >= 0 ? process.argv[weightsFlag + 1] : undefined
+if (weightsFlag >= 0 && !weightsFile) {
+  throw new Error("--weights needs a JSON file of scoring weights")
+}
+const weights = weightsFile
+  ? (JSON.parse(readFileSync(weightsFile, "utf8")) as Partial<TotalScoringWeights>)
+  : undefined
+
+const corpus = loadReceiptCorpus()
+const results = corpus.map((receipt) => evaluateReceipt(receipt, { weights }))
+const summary = summarizeCorpus(results)
+const rawResults = corpus.map((receipt) => evaluateReceipt(receipt, { weights, calibration: null }))
+const rawSummary = summarizeCorpus(rawResults)
+const heldOutResults = crossValidateCorpus(corpus, { weights })
+const heldOutSummary = summarizeCorpus(heldOutResults)
+const thresholds = REVIEW_THRESHOLDS.map((threshold) => ({
+  threshold,
+  review: summarizeCorpus(withReviewThreshold(heldOutResults, threshold)).review,
+}))
+const misses = results.flatMap((result) =>
+  result.fields
+    .filter((field) => !field.correct)
+    .map((field) => ({
+      receipt: result.receipt.id,
+      field: field.field,
+      expected: field.expected,
+      actual: field.actual,
+      knownIssue: result.receipt.knownIssues?.[field.field] ?? null,
+    }))
+)
+
+if (process.argv.includes("--fit-calibration")) {
+  const points = fitConfidenceCalibration(
+    rawResults.map((result) => ({ confidence: result.confidence, correct: isTotalCorrect(result) }))
+  )
+
+  console.log("export const TOTAL_CONFIDENCE_CALIBRATION: CalibrationPoint[] = [")
+  for (const point of points) {
+    console.log(`  { raw: ${point.raw}, calibrated: ${point.calibrated} },`)
+  }
+  console.log("]")
+} else if (process.argv.includes("--json")) {
+  console.log(
+    JSON.stringify(
+      {
+        ...summary,
+        raw: { expectedCalibrationError: rawSummary.expectedCalibrationError, brierScore: rawSummary.brierScore },
+        crossValidated: {
+          expectedCalibrationError: heldOutSummary.expectedCalibrationError,
+          brierScore: heldOutSummary.brierScore,
+          review: heldOutSummary.review,
+          thresholds,
+        },
+        misses,
+      },
+      null,
+      2
+    )
+  )
+} else {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+  const amount = (value: number | null) => (value === null ? "none" : value.toFixed(2))
+
+  console.log(`Receipts: ${summary.receipts}, fully correct: ${summary.fullyCorrect}\n`)
+
+  console.log("Accuracy")
+  for (const field of CORPUS_FIELDS) {
+    const { checked, correct } = summary.fields[field]
+    console.log(`  ${field.padEnd(9)} ${String(correct).padStart(3)}/${checked}  ${checked > 0 ? percent(correct / checked) : "-"}`)
+  }
+
+  console.log("\nTotal confidence calibration (fitted on these receipts)")
+  for (const bin of summary.calibration) {
+    const range = `${bin.range[0].toFixed(1)}-${bin.range[1].toFixed(1)}`
+    const detail = bin.receipts > 0 ? `confidence ${percent(bin.meanConfidence)}, correct ${percent(bin.accuracy)}` : ""
+    console.log(`  ${range}  ${String(bin.receipts).padStart(3)} receipts  ${detail}`)
+  }
+  console.log(
+    `  Expected calibration error ${summary.expectedCalibrationError.toFixed(3)}` +
+      ` (uncalibrated ${rawSummary.expectedCalibrationError.toFixed(3)})`
+  )
+  console.log(`  Brier score ${summary.brierScore.toFixed(3)} (uncalibrated ${rawSummary.brierScore.toFixed(3)})`)
+
+  const { flagged, wrongTotals, wrongTotalsFlagged } = summary.review
+  console.log(
+    `\nReview: ${flagged} of ${summary.receipts} totals flagged, ` +
+      `catching ${wrongTotalsFlagged} of ${wrongTotals} wrong totals`
+  )
+
+  console.log("\nCross-validated, each receipt scored with a calibration fitted without it")
+  console.log(
+    `  Expected calibration error ${heldOutSummary.expectedCalibrationError.toFixed(3)}` +
+      ` (uncalibrated ${rawSummary.expectedCalibrationError.toFixed(3)})`
+  )
+  console.log(`  Brier score ${heldOutSummary.brierScore.toFixed(3)} (uncalibrated ${rawSummary.brierScore.toFixed(3)})`)
+  console.log("  Review threshold  flagged  precision  recall")
+  for (const { threshold, review } of thresholds) {
+    const current = threshold === REVIEW_CONFIDENCE_THRESHOLD ? "  (current)" : ""
+    console.log(
+      `  ${threshold.toFixed(1).padEnd(16)}  ${String(review.flagged).padStart(7)}` +
+        `  ${percent(review.precision).padStart(9)}  ${percent(review.recall).padStart(6)}${current}`
+    )
+  }
+
+  if (misses.length > 0) {
+    console.log("\nMisses")
+    for (const miss of misses) {
+      const note = miss.knownIssue ? ` (known: ${miss.knownIssue})` : ""
+      console.log(`  ${miss.receipt} ${miss.field}: expected ${amount(miss.expected)}, got ${amount(miss.actual)}${note}`)
+    }
+  }
+}
@@ -0,0 +1,36 @@
+// Downloads the Tesseract language packs the receipt scanner can load into
+// public/tessdata, so they are served by the app itself. The tesseract.js
+// worker and core still load from its default CDN. Runs before `npm run dev`
+// and `npm run build`, and skips packs that are already there. Without
+// network access it only warns: the scanner then loads the packs from the
+// same CDN at runtime.
+import { existsSync } from "node:fs"
+import { mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+
+// Keep in sync with TESSERACT_LANGUAGES in lib/receipt-keywords.ts
+const LANGUAGES = ["eng", "deu", "fra", "spa", "ita", "nld", "jpn"]
+// The LSTM-only integer models tesseract.js loads with its default engine mode
+const SOURCE = "https://cdn.jsdelivr.net/npm/@tesseract.js-data/{lang}/4.0.0_best_int/{lang}.traineddata.gz"
+const TARGET_DIR = join(process.cwd(), "public", "tessdata")
+
+await mkdir(TARGET_DIR, { recursive: true })
+
+for (const lang of LANGUAGES) {
+  const target = join(TARGET_DIR, `${lang}.traineddata.gz`)
+  if (existsSync(target)) {
+    continue
+  }
+
+  try {
+    const response = await fetch(SOURCE.replaceAll("{lang}", lang))
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`)
+    }
+
+    await writeFile(target, Buffer.from(await response.arrayBuffer()))
+    console.log(`Saved ${target}`)
+  } catch (error) {
+    console.warn(`Could not download ${lang} language data, OCR will load it from the CDN: ${error.message}`)
+  }
+}
@@ -0,0 +1,366 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  allocateProportionally,
+  calculateBill,
+  fromCents,
+  splitEvenly,
+  summarizeShares,
+  toCents,
+  type RoundingMode,
+  type RoundingTarget,
+} from "../lib/bill-calculator"
+
+describe("toCents", () => {
+  it("converts decimal amounts to integer cents", () => {
+    expect(toCents(12.34)).toBe(1234)
+    expect(toCents(0.1 + 0.2)).toBe(30)
+  })
+
+  it("rounds half-cent values as written", () => {
+    expect(toCents(1.005)).toBe(101)
+  })
+
+  it("treats non-finite input as zero", () => {
+    expect(toCents(Number.NaN)).toBe(0)
+    expect(toCents(Number.POSITIVE_INFINITY)).toBe(0)
+  })
+
+  it("round-trips with fromCents", () => {
+    expect(fromCents(toCents(45.67))).toBe(45.67)
+  })
+
+  it("supports currencies without minor units", () => {
+    expect(toCents(1234.6, 0)).toBe(1235)
+    expect(fromCents(1235, 0)).toBe(1235)
+  })
+})
+
+describe("allocateProportionally", () => {
+  it("splits in proportion to weights and sums to the total", () => {
+    expect(allocateProportionally(1000, [1, 3])).toEqual([250, 750])
+    expect(allocateProportionally(100, [1, 1, 1])).toEqual([34, 33, 33])
+  })
+
+  it("hands leftover cents to the largest remainders first", () => {
+    expect(allocateProportionally(10, [1, 2, 2])).toEqual([2, 4, 4])
+    expect(allocateProportionally(11, [1, 2, 2])).toEqual([2, 5, 4])
+  })
+
+  it("splits evenly when every weight is zero", () => {
+    expect(allocateProportionally(5, [0, 0])).toEqual([3, 2])
+  })
+
+  it("returns an empty list without weights", () => {
+    expect(allocateProportionally(500, [])).toEqual([])
+  })
+})
+
+describe("splitEvenly", () => {
+  it("gives leftover cents to the first people", () => {
+    expect(splitEvenly(10000, 3)).toEqual([3334, 3333, 3333])
+    expect(splitEvenly(10001, 3)).toEqual([3334, 3334, 3333])
+  })
+})
+
+describe("summarizeShares", () => {
+  it("groups equal shares, largest first", () => {
+    expect(summarizeShares([3334, 3334, 3333])).toEqual([
+      { cents: 3334, count: 2 },
+      { cents: 3333, count: 1 },
+    ])
+  })
+
+  it("returns a single group for an exact split", () => {
+    expect(summarizeShares([2500, 2500])).toEqual([{ cents: 2500, count: 2 }])
+  })
+})
+
+describe("calculateBill", () => {
+  it("computes tip and total without rounding", () => {
+    const result = calculateBill({ billAmount: 50, tipPercent: 15, numberOfPeople: 1, roundingMode: "none" })
+
+    expect(result).toMatchObject({
+      billCents: 5000,
+      tipCents: 750,
+      totalCents: 5750,
+      perPersonCents: 5750,
+      tipPerPersonCents: 750,
+    })
+  })
+
+  it("rounds the tip to the nearest cent", () => {
+    const result = calculateBill({ billAmount: 33.33, tipPercent: 18, numberOfPeople: 1, roundingMode: "none" })
+
+    expect(result.tipCents).toBe(600)
+    expect(result.totalCents).toBe(3933)
+  })
+
+  it("splits evenly between people", () => {
+    const result = calculateBill({ billAmount: 80, tipPercent: 25, numberOfPeople: 4, roundingMode: "none" })
+
+    expect(result.perPersonCents).toBe(2500)
+    expect(result.tipPerPersonCents).toBe(500)
+  })
+
+  it("rounds the per-person amount up to whole units and adjusts the tip", () => {
+    const result = calculateBill({ billAmount: 47.3, tipPercent: 20, numberOfPeople: 3, roundingMode: "up" })
+
+    expect(result.perPersonCents).toBe(1900)
+    expect(result.totalCents).toBe(5700)
+    expect(result.tipCents).toBe(5700 - 4730)
+  })
+
+  it("rounds the per-person amount down to whole units", () => {
+    const result = calculateBill({ billAmount: 47.3, tipPercent: 20, numberOfPeople: 3, roundingMode: "down" })
+
+    expect(result.perPersonCents).toBe(1800)
+    expect(result.totalCents).toBe(5400)
+    expect(result.tipCents).toBe(5400 - 4730)
+  })
+
+  it("leaves whole per-person amounts untouched when rounding", () => {
+    const result = calculateBill({ billAmount: 40, tipPercent: 25, numberOfPeople: 2, roundingMode: "up" })
+
+    expect(result.perPersonCents).toBe(2500)
+    expect(result.tipCents).toBe(1000)
+  })
+
+  it("tips on the full bill by default even when tax is given", () => {
+    const result = calculateBill({
+      billAmount: 54,
+      taxAmount: 4,
+      tipPercent: 20,
+      numberOfPeople: 1,
+      roundingMode: "none",
+    })
+
+    expect(result.tipBaseCents).toBe(5400)
+    expect(result.tipCents).toBe(1080)
+  })
+
+  it("tips on the pre-tax subtotal when requested", () => {
+    const result = calculateBill({
+      billAmount: 54,
+      taxAmount: 4,
+      tipOnPreTax: true,
+      tipPercent: 20,
+      numberOfPeople: 2,
+      roundingMode: "none",
+    })
+
+    expect(result).toMatchObject({
+      billCents: 5400,
+      taxCents: 400,
+      tipBaseCents: 5000,
+      tipCents: 1000,
+      totalCents: 6400,
+      perPersonCents: 3200,
+    })
+  })
+
+  it("never tips on an included service charge", () => {
+    const result = calculateBill({
+      billAmount: 88.38,
+      taxAmount: 5.78,
+      tipOnPreTax: true,
+      serviceChargeAmount: 12.6,
+      tipPercent: 20,
+      numberOfPeople: 1,
+      roundingMode: "none",
+    })
+
+    expect(result).toMatchObject({
+      serviceChargeCents: 1260,
+      tipBaseCents: 7000,
+      tipCents: 1400,
+      totalCents: 10238,
+    })
+  })
+
+  it("only tops an included service charge up to the tip percentage", () => {
+    const input = {
+      billAmount: 82.6,
+      serviceChargeAmount: 12.6,
+      tipPercent: 20,
+      tipIncludesServiceCharge: true,
+      numberOfPeople: 1,
+      roundingMode: "none" as const,
+    }
+
+    expect(calculateBill(input).tipCents).toBe(140)
+    expect(calculateBill({ ...input, tipPercent: 15 }).tipCents).toBe(0)
+  })
+
+  it("caps tax at the bill amount", () => {
+    const result = calculateBill({
+      billAmount: 10,
+      taxAmount: 25,
+      tipOnPreTax: true,
+      tipPercent: 20,
+      numberOfPeople: 1,
+      roundingMode: "none",
+    })
+
+    expect(result.taxCents).toBe(1000)
+    expect(result.tipCents).toBe(0)
+  })
+
+  it("rounds the per-person amount to the nearest whole unit", () => {
+    const result = calculateBill({ billAmount: 47.3, tipPercent: 20, numberOfPeople: 3, roundingMode: "nearest" })
+
+    expect(result.perPersonCents).toBe(1900)
+  })
+
+  it("rounds the per-person amount to a custom increment", () => {
+    const result = calculateBill({
+      billAmount: 40,
+      tipPercent: 18,
+      numberOfPeople: 3,
+      roundingMode: "up",
+      roundingIncrement: 25,
+    })
+
+    expect(result.perPersonCents).toBe(1575)
+    expect(result.totalCents).toBe(4725)
+  })
+
+  it("rounds the grand total instead of each share", () => {
+    const result = calculateBill({
+      billAmount: 47.3,
+      tipPercent: 20,
+      numberOfPeople: 3,
+      roundingMode: "up",
+      roundingIncrement: 500,
+      roundingTarget: "total",
+    })
+
+    expect(result.totalCents).toBe(6000)
+    expect(result.tipCents).toBe(6000 - 4730)
+    expect(result.perPersonShares).toEqual([2000, 2000, 2000])
+  })
+
+  it("never rounds the total down below the bill", () => {
+    const total = calculateBill({
+      billAmount: 47.3,
+      tipPercent: 5,
+      numberOfPeople: 1,
+      roundingMode: "down",
+      roundingIncrement: 1000,
+      roundingTarget: "total",
+    })
+    const perPerson = calculateBill({
+      billAmount: 47.3,
+      tipPercent: 5,
+      numberOfPeople: 3,
+      roundingMode: "down",
+      roundingIncrement: 500,
+    })
+
+    expect(total.totalCents).toBe(4730)
+    expect(total.tipCents).toBe(0)
+    expect(perPerson.totalCents).toBe(4730)
+    expect(perPerson.tipShares.every((share) => share >= 0)).toBe(true)
+  })
+
+  it("rounds only the tip", () => {
+    const result = calculateBill({
+      billAmount: 47.3,
+      tipPercent: 20,
+      numberOfPeople: 1,
+      roundingMode: "nearest",
+      roundingTarget: "tip",
+    })
+
+    expect(result.tipCents).toBe(900)
+    expect(result.totalCents).toBe(5630)
+  })
+
+  it("falls back to whole units for an invalid increment", () => {
+    const result = calculateBill({
+      billAmount: 47.3,
+      tipPercent: 20,
+      numberOfPeople: 3,
+      roundingMode: "up",
+      roundingIncrement: 0,
+    })
+
+    expect(result.perPersonCents).toBe(1900)
+  })
+
+  it("works in whole yen for zero-decimal currencies", () => {
+    const result = calculateBill({
+      billAmount: 10000,
+      tipPercent: 10,
+      numberOfPeople: 3,
+      roundingMode: "none",
+      minorUnitDigits: 0,
+    })
+
+    expect(result.billCents).toBe(10000)
+    expect(result.tipCents).toBe(1000)
+    expect(result.perPersonShares).toEqual([3667, 3667, 3666])
+  })
+
+  it("splits $100 three ways to the cent", () => {
+    const result = calculateBill({ billAmount: 100, tipPercent: 0, numberOfPeople: 3, roundingMode: "none" })
+
+    expect(result.perPersonShares).toEqual([3334, 3333, 3333])
+    expect(result.totalCents).toBe(10000)
+  })
+
+  it("always reconciles per-person and tip shares with the displayed totals", () => {
+    const roundingModes: RoundingMode[] = ["none", "up", "down", "nearest"]
+    const roundingTargets: RoundingTarget[] = ["per-person", "total", "tip"]
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+    for (const roundingMode of roundingModes) {
+      for (const roundingTarget of roundingTargets) {
+        for (let people = 1; people <= 12; people++) {
+          for (const billAmount of [0.01, 1, 9.99, 33.33, 100, 123.45, 1000.07]) {
+            for (const tipPercent of [0, 12.5, 18]) {
+              const result = calculateBill({
+                billAmount,
+                tipPercent,
+                numberOfPeople: people,
+                roundingMode,
+                roundingIncrement: 25,
+                roundingTarget,
+              })
+
+              expect(result.perPersonShares).toHaveLength(people)
+              expect(sum(result.perPersonShares)).toBe(result.totalCents)
+              expect(sum(result.tipShares)).toBe(result.tipCents)
+              expect(result.totalCents).toBe(result.billCents + result.tipCents)
+              expect(Math.max(...result.perPersonShares) - Math.min(...result.perPersonShares)).toBeLessThanOrEqual(1)
+            }
+          }
+        }
+      }
+    }
+  })
+
+  it("treats invalid inputs as an empty single-person bill", () => {
+    const result = calculateBill({
+      billAmount: Number.NaN,
+      tipPercent: -10,
+      numberOfPeople: 0,
+      roundingMode: "none",
+    })
+
+    expect(result).toEqual({
+      billCents: 0,
+      taxCents: 0,
+      serviceChargeCents: 0,
+      tipBaseCents: 0,
+      tipCents: 0,
+      totalCents: 0,
+      perPersonCents: 0,
+      tipPerPersonCents: 0,
+      perPersonShares: [0],
+      tipShares: [0],
+      numberOfPeople: 1,
+      minorUnitDigits: 2,
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest"
+
+import { calculateBill } from "../lib/bill-calculator"
+import { splitBill, splitByItems, type LineItem, type Participant } from "../lib/bill-split"
+
+const bill = { billCents: 10800, taxCents: 800, tipCents: 2000 }
+
+const participant = (
+  name: string,
+  shareKind: Participant["shareKind"],
+  shareValue: number
+): Participant => ({ id: name.toLowerCase(), name, shareKind, shareValue })
+
+const sumTotals = (shares: { totalCents: number }[]) =>
+  shares.reduce((sum, share) => sum + share.totalCents, 0)
+
+describe("splitBill", () => {
+  it("splits by weight and allocates tax and tip proportionally", () => {
+    const result = splitBill(bill, [participant("Ana", "weight", 3), participant("Ben", "weight", 1)])
+
+    expect(result.unallocatedCents).toBe(0)
+    expect(result.shares[0]).toMatchObject({ baseCents: 7500, taxCents: 600, tipCents: 1500, totalCents: 9600 })
+    expect(result.shares[1]).toMatchObject({ baseCents: 2500, taxCents: 200, tipCents: 500, totalCents: 3200 })
+  })
+
+  it("gives fixed amounts first and shares the remainder among weighted participants", () => {
+    const result = splitBill(bill, [
+      participant("Drinks only", "fixed", 6),
+      participant("Ana", "weight", 1),
+      participant("Ben", "weight", 1),
+    ])
+
+    expect(result.shares.map((share) => share.baseCents)).toEqual([600, 4700, 4700])
+    expect(result.shares[0].taxCents).toBe(48)
+    expect(result.shares[0].tipCents).toBe(120)
+    expect(sumTotals(result.shares)).toBe(12800)
+  })
+
+  it("takes percentages of the pre-tax bill", () => {
+    const result = splitBill(bill, [participant("Ana", "percent", 40), participant("Ben", "weight", 1)])
+
+    expect(result.shares[0].baseCents).toBe(4000)
+    expect(result.shares[1].baseCents).toBe(6000)
+  })
+
+  it("always reconciles to the bill total to the cent", () => {
+    const oddBill = { billCents: 10001, taxCents: 737, tipCents: 1853 }
+    const result = splitBill(oddBill, [
+      participant("A", "weight", 1),
+      participant("B", "weight", 1),
+      participant("C", "weight", 1),
+    ])
+
+    expect(sumTotals(result.shares)).toBe(10001 + 1853)
+    expect(result.shares.reduce((sum, share) => sum + share.taxCents, 0)).toBe(737)
+  })
+
+  it("reports a remainder nobody covers", () => {
+    const result = splitBill(bill, [participant("Ana", "fixed", 30), participant("Ben", "percent", 50)])
+
+    expect(result.unallocatedCents).toBe(2000)
+  })
+
+  it("reports shares that exceed the bill", () => {
+    const result = splitBill(bill, [participant("Ana", "fixed", 80), participant("Ben", "fixed", 40)])
+
+    expect(result.unallocatedCents).toBe(-2000)
+  })
+})
+
+describe("splitByItems", () => {
+  const people = [
+    { id: "ana", name: "Ana" },
+    { id: "ben", name: "Ben" },
+    { id: "cy", name: "Cy" },
+  ]
+
+  const item = (description: string, price: number, assignedTo: string[]): LineItem => ({
+    id: description,
+    description,
+    price,
+    assignedTo,
+  })
+
+  it("charges each person for their own items and shares tax and tip pro rata", () => {
+    const result = splitByItems(bill, people, [
+      item("Steak", 50, ["ana"]),
+      item("Salad", 20, ["ben"]),
+      item("Pasta", 30, ["cy"]),
+    ])
+
+    expect(result.unallocatedCents).toBe(0)
+    expect(result.shares[0]).toMatchObject({ baseCents: 5000, taxCents: 400, tipCents: 1000, totalCents: 6400 })
+    expect(result.shares[1]).toMatchObject({ baseCents: 2000, taxCents: 160, tipCents: 400 })
+    expect(sumTotals(result.shares)).toBe(12800)
+  })
+
+  it("shares an included service charge like tax instead of leaving it unallocated", () => {
+    const result = splitByItems({ ...bill, billCents: 11800, serviceChargeCents: 1000 }, people, [
+      item("Steak", 50, ["ana"]),
+      item("Salad", 20, ["ben"]),
+      item("Pasta", 30, ["cy"]),
+    ])
+
+    expect(result.unallocatedCents).toBe(0)
+    expect(result.shares[0]).toMatchObject({ serviceChargeCents: 500, totalCents: 6900 })
+    expect(sumTotals(result.shares)).toBe(13800)
+  })
+
+  it("shares the tax by item subtotal when the tip is on the full bill", () => {
+    const breakdown = calculateBill({
+      billAmount: 54,
+      taxAmount: 4,
+      tipOnPreTax: false,
+      tipPercent: 20,
+      numberOfPeople: 2,
+      roundingMode: "none",
+    })
+    const result = splitByItems(breakdown, people.slice(0, 2), [
+      item("Steak", 30, ["ana"]),
+      item("Salad", 20, ["ben"]),
+    ])
+
+    expect(result.unallocatedCents).toBe(0)
+    expect(result.shares[0]).toMatchObject({ baseCents: 3000, taxCents: 240 })
+    expect(result.shares[1]).toMatchObject({ baseCents: 2000, taxCents: 160 })
+    expect(sumTotals(result.shares)).toBe(breakdown.totalCents)
+  })
+
+  it("splits shared items evenly with leftover cents going to the first assignee", () => {
+    const result = splitByItems({ billCents: 1000, taxCents: 0, tipCents: 0 }, people, [
+      item("Nachos", 10, ["ana", "ben", "cy"]),
+    ])
+
+    expect(result.shares.map((share) => share.baseCents)).toEqual([334, 333, 333])
+  })
+
+  it("reports unassigned items and ignores unknown participants", () => {
+    const result = splitByItems(bill, people, [
+      item("Steak", 50, ["ana"]),
+      item("Wine", 30, []),
+      item("Dessert", 20, ["someone-removed"]),
+    ])
+
+    expect(result.shares[0].baseCents).toBe(5000)
+    expect(result.unallocatedCents).toBe(5000)
+    expect(result.shares[0].taxCents).toBe(800)
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+
+import { calibrateConfidence, fitConfidenceCalibration } from "../lib/confidence-calibration"
+
+const points = [
+  { raw: 0, calibrated: 0 },
+  { raw: 0.5, calibrated: 0.7 },
+  { raw: 0.9, calibrated: 0.9 },
+]
+
+describe("calibrateConfidence", () => {
+  it("interpolates between calibration points", () => {
+    expect(calibrateConfidence(0.25, points)).toBeCloseTo(0.35)
+    expect(calibrateConfidence(0.7, points)).toBeCloseTo(0.8)
+    expect(calibrateConfidence(0.5, points)).toBe(0.7)
+  })
+
+  it("holds the last point's value above it", () => {
+    expect(calibrateConfidence(0.98, points)).toBe(0.9)
+  })
+
+  it("leaves the confidence raw without points", () => {
+    expect(calibrateConfidence(0.42, [])).toBe(0.42)
+  })
+})
+
+describe("fitConfidenceCalibration", () => {
+  it("pools steps that are right less often than the ones below them", () => {
+    const fitted = fitConfidenceCalibration([
+      { confidence: 0.2, correct: false },
+      { confidence: 0.4, correct: true },
+      { confidence: 0.6, correct: false },
+      { confidence: 0.9, correct: true },
+      { confidence: 0.9, correct: true },
+    ])
+
+    expect(fitted.map((point) => point.raw)).toEqual([0, 0.2, 0.4, 0.6, 0.9])
+    fitted.slice(1).forEach((point, index) => expect(point.calibrated).toBeGreaterThanOrEqual(fitted[index].calibrated))
+  })
+
+  it("holds a pooled step's value across its whole range", () => {
+    const fitted = fitConfidenceCalibration([
+      { confidence: 0.4, correct: true },
+      { confidence: 0.6, correct: false },
+      { confidence: 0.9, correct: true },
+    ])
+
+    expect(calibrateConfidence(0.4, fitted)).toBe(calibrateConfidence(0.6, fitted))
+    expect(calibrateConfidence(0.75, fitted)).toBeGreaterThan(calibrateConfidence(0.6, fitted))
+  })
+
+  it("pulls sparse steps towards their raw confidence", () => {
+    const [, point] = fitConfidenceCalibration([{ confidence: 0.3, correct: true }])
+
+    expect(point.raw).toBe(0.3)
+    expect(point.calibrated).toBeGreaterThan(0.3)
+    expect(point.calibrated).toBeLessThan(1)
+  })
+})
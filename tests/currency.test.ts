@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  detectCurrencyFromText,
+  formatMinorUnits,
+  formatMoney,
+  getCurrencySymbol,
+  getMinorUnitDigits,
+  isCurrencyCode,
+} from "../lib/currency"
+
+describe("getMinorUnitDigits", () => {
+  it("knows zero-decimal currencies", () => {
+    expect(getMinorUnitDigits("USD")).toBe(2)
+    expect(getMinorUnitDigits("EUR")).toBe(2)
+    expect(getMinorUnitDigits("JPY")).toBe(0)
+  })
+})
+
+describe("formatMoney", () => {
+  it("formats with the locale's conventions", () => {
+    expect(formatMoney(1234.5, "USD", "en-US")).toBe("$1,234.50")
+    expect(formatMoney(1234.5, "EUR", "de-DE")).toBe("1.234,50\u00A0€")
+  })
+
+  it("drops decimals for JPY", () => {
+    expect(formatMoney(1234, "JPY", "en-US")).toBe("¥1,234")
+  })
+})
+
+describe("formatMinorUnits", () => {
+  it("scales by the currency's decimals", () => {
+    expect(formatMinorUnits(3334, "USD", "en-US")).toBe("$33.34")
+    expect(formatMinorUnits(3334, "JPY", "en-US")).toBe("¥3,334")
+  })
+})
+
+describe("getCurrencySymbol", () => {
+  it("returns the symbol for the locale", () => {
+    expect(getCurrencySymbol("GBP", "en-GB")).toBe("£")
+  })
+})
+
+describe("isCurrencyCode", () => {
+  it("accepts only supported codes", () => {
+    expect(isCurrencyCode("EUR")).toBe(true)
+    expect(isCurrencyCode("XYZ")).toBe(false)
+    expect(isCurrencyCode(null)).toBe(false)
+  })
+})
+
+describe("detectCurrencyFromText", () => {
+  it("reads ISO codes next to an amount, ahead of a bare dollar sign", () => {
+    expect(detectCurrencyFromText("TOTAL CHF 1'234.56")).toBe("CHF")
+    expect(detectCurrencyFromText("TOTAL 45.00 CAD")).toBe("CAD")
+    expect(detectCurrencyFromText("TOTAL CAD $45.00")).toBe("CAD")
+  })
+
+  it("ignores ISO codes that aren't next to an amount", () => {
+    expect(detectCurrencyFromText("Dry rub wings 12.00")).toBeNull()
+    expect(detectCurrencyFromText("DRY RUB WINGS $12.00")).toBe("USD")
+  })
+
+  it("prefers unambiguous symbols over ISO codes", () => {
+    expect(detectCurrencyFromText("Summe 12,50 €\nUSD 13.60")).toBe("EUR")
+  })
+
+  it("recognizes unambiguous symbols", () => {
+    expect(detectCurrencyFromText("Summe 12,50 €\nMwSt 2,00 €")).toBe("EUR")
+    expect(detectCurrencyFromText("TOTAL ¥1,200")).toBe("JPY")
+  })
+
+  it("falls back to USD for a bare dollar sign", () => {
+    expect(detectCurrencyFromText("TOTAL $51.50")).toBe("USD")
+  })
+
+  it("returns null without currency hints", () => {
+    expect(detectCurrencyFromText("TOTAL 51.50")).toBeNull()
+  })
+})
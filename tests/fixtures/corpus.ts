@@ -0,0 +1,232 @@
+import { readFileSync, readdirSync } from "node:fs"
+import { join } from "node:path"
+
+import { fitConfidenceCalibration } from "../../lib/confidence-calibration"
+import type { ReceiptLanguage } from "../../lib/receipt-keywords"
+import {
+  extractAmountsFromText,
+  type ExtractAmountsOptions,
+  type ExtractedData,
+  type ReviewReason,
+} from "../../lib/receipt-ocr"
+
+export type CorpusField = "total" | "subtotal" | "tax" | "tip"
+
+/**
+ * Amounts the receipt states. A number must be read to the cent, null means
+ * the receipt doesn't print the field, and a missing field isn't checked.
+ */
+export type CorpusExpectation = { total: number | null } & Partial<Record<Exclude<CorpusField, "total">, number | null>>
+
+/** `<id>.json` next to `<id>.txt` in tests/fixtures/corpus. */
+export interface CorpusReceipt {
+  id: string
+  name: string
+  /** BCP 47 locale the receipt was printed in. */
+  locale: string
+  languages: ReceiptLanguage[]
+  /** Kind of receipt, e.g. "restaurant", "grocery" or "ocr-noise". */
+  format: string
+  expected: CorpusExpectation
+  /** Why the extractor currently misreads a field; those fields are expected to fail. */
+  knownIssues?: Partial<Record<CorpusField, string>>
+  text: string
+}
+
+export interface FieldResult {
+  field: CorpusField
+  expected: number | null
+  actual: number | null
+  correct: boolean
+}
+
+export interface CorpusResult {
+  receipt: CorpusReceipt
+  /** Confidence the extractor reported for the total. */
+  confidence: number
+  /** The extractor asked for the total to be reviewed. */
+  needsReview: boolean
+  /** Why; empty without a total. */
+  reviewReasons: ReviewReason[]
+  fields: FieldResult[]
+  /** Every checked field was read correctly. */
+  correct: boolean
+}
+
+export interface CalibrationBin {
+  /** Lower and upper confidence bound. */
+  range: [number, number]
+  receipts: number
+  meanConfidence: number
+  /** Share of receipts in the bin whose total was right. */
+  accuracy: number
+}
+
+export interface CorpusSummary {
+  receipts: number
+  /** Receipts with every checked field right. */
+  fullyCorrect: number
+  fields: Record<CorpusField, { checked: number; correct: number }>
+  calibration: CalibrationBin[]
+  /** Mean gap between confidence and accuracy, weighted by bin size; 0 is perfectly calibrated. */
+  expectedCalibrationError: number
+  /** Mean squared gap between confidence and whether the total was right. */
+  brierScore: number
+  /**
+   * Receipts flagged for review and how many of the wrong totals were among
+   * them; precision is the share of flagged totals that were wrong, recall
+   * the share of wrong totals that were flagged.
+   */
+  review: { flagged: number; wrongTotals: number; wrongTotalsFlagged: number; precision: number; recall: number }
+}
+
+export const CORPUS_DIR = join(process.cwd(), "tests", "fixtures", "corpus")
+export const CORPUS_FIELDS: CorpusField[] = ["total", "subtotal", "tax", "tip"]
+const CALIBRATION_BINS = 5
+const CROSS_VALIDATION_FOLDS = 5
+
+export function loadReceiptCorpus(directory = CORPUS_DIR): CorpusReceipt[] {
+  return readdirSync(directory)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      const id = file.slice(0, -".json".length)
+      const metadata = JSON.parse(readFileSync(join(directory, file), "utf8")) as Omit<CorpusReceipt, "id" | "text">
+      const text = readFileSync(join(directory, `${id}.txt`), "utf8").trimEnd()
+
+      return { ...metadata, id, text }
+    })
+}
+
+export const toCents = (value: number | null) => (value === null ? null : Math.round(value * 100))
+
+function readField(data: ExtractedData, field: CorpusField): number | null {
+  switch (field) {
+    case "total":
+      return data.amount > 0 ? data.amount : null
+    case "subtotal":
+      return data.subtotal
+    case "tax":
+      return data.tax
+    case "tip":
+      return data.serviceCharge
+  }
+}
+
+export function evaluateReceipt(
+  receipt: CorpusReceipt,
+  options: Pick<ExtractAmountsOptions, "weights" | "calibration"> = {}
+): CorpusResult {
+  const data = extractAmountsFromText(receipt.text, { ...options, languages: receipt.languages })
+  const fields = CORPUS_FIELDS.filter((field) => receipt.expected[field] !== undefined).map((field): FieldResult => {
+    const expected = receipt.expected[field] ?? null
+    const actual = readField(data, field)
+    return { field, expected, actual, correct: toCents(expected) === toCents(actual) }
+  })
+
+  return {
+    receipt,
+    confidence: data.amount > 0 ? data.confidence : 0,
+    needsReview: data.reviewReasons.length > 0,
+    reviewReasons: data.reviewReasons,
+    fields,
+    correct: fields.every((field) => field.correct),
+  }
+}
+
+/**
+ * Reads every receipt with a total confidence calibration it wasn't fitted
+ * on: each of `folds` groups of receipts uses a calibration fitted on the
+ * other groups. Unlike scoring the shipped calibration on the corpus it was
+ * fitted to, this shows the calibration error and review figures new
+ * receipts can expect.
+ */
+export function crossValidateCorpus(
+  corpus: CorpusReceipt[],
+  { folds = CROSS_VALIDATION_FOLDS, weights }: { folds?: number } & Pick<ExtractAmountsOptions, "weights"> = {}
+): CorpusResult[] {
+  const rawResults = corpus.map((receipt) => evaluateReceipt(receipt, { weights, calibration: null }))
+  const foldOf = (index: number) => index % folds
+
+  return Array.from({ length: folds }, (_, fold) => {
+    const calibration = fitConfidenceCalibration(
+      rawResults
+        .filter((_, index) => foldOf(index) !== fold)
+        .map((result) => ({ confidence: result.confidence, correct: isTotalCorrect(result) }))
+    )
+
+    return corpus
+      .filter((_, index) => foldOf(index) === fold)
+      .map((receipt) => evaluateReceipt(receipt, { weights, calibration }))
+  }).flat()
+}
+
+export function isTotalCorrect(result: CorpusResult): boolean {
+  return result.fields.find((field) => field.field === "total")?.correct ?? false
+}
+
+/** Flags the results for review as if the extractor used a different confidence threshold. */
+export function withReviewThreshold(results: CorpusResult[], threshold: number): CorpusResult[] {
+  return results.map((result) => {
+    // Like the extractor, a receipt without a total isn't flagged as uncertain
+    const hasTotal = (result.fields.find((field) => field.field === "total")?.actual ?? null) !== null
+    const isUncertain = hasTotal && result.confidence < threshold
+
+    return { ...result, needsReview: isUncertain || result.reviewReasons.includes("does-not-add-up") }
+  })
+}
+
+export function summarizeCorpus(results: CorpusResult[]): CorpusSummary {
+  const fields = Object.fromEntries(
+    CORPUS_FIELDS.map((field) => {
+      const checked = results.flatMap((result) => result.fields.filter((fieldResult) => fieldResult.field === field))
+      return [field, { checked: checked.length, correct: checked.filter((fieldResult) => fieldResult.correct).length }]
+    })
+  ) as CorpusSummary["fields"]
+
+  const totals = results.map((result) => ({
+    confidence: result.confidence,
+    correct: result.fields.find((field) => field.field === "total")?.correct ? 1 : 0,
+    needsReview: result.needsReview,
+  }))
+  const wrongTotals = totals.filter((total) => total.correct === 0)
+
+  const calibration = Array.from({ length: CALIBRATION_BINS }, (_, bin): CalibrationBin => {
+    const low = bin / CALIBRATION_BINS
+    const high = (bin + 1) / CALIBRATION_BINS
+    // The top bin includes a confidence of exactly 1
+    const inBin = totals.filter(
+      ({ confidence }) => confidence >= low && (confidence < high || bin === CALIBRATION_BINS - 1)
+    )
+    const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0)
+
+    return {
+      range: [low, high],
+      receipts: inBin.length,
+      meanConfidence: mean(inBin.map((total) => total.confidence)),
+      accuracy: mean(inBin.map((total) => total.correct)),
+    }
+  })
+
+  const count = Math.max(1, totals.length)
+  const flagged = totals.filter((total) => total.needsReview).length
+  const wrongTotalsFlagged = wrongTotals.filter((total) => total.needsReview).length
+  return {
+    receipts: results.length,
+    fullyCorrect: results.filter((result) => result.correct).length,
+    fields,
+    calibration,
+    expectedCalibrationError: calibration.reduce(
+      (sum, bin) => sum + (bin.receipts / count) * Math.abs(bin.accuracy - bin.meanConfidence),
+      0
+    ),
+    brierScore: totals.reduce((sum, total) => sum + (total.confidence - total.correct) ** 2, 0) / count,
+    review: {
+      flagged,
+      wrongTotals: wrongTotals.length,
+      wrongTotalsFlagged,
+      precision: flagged > 0 ? wrongTotalsFlagged / flagged : 0,
+      recall: wrongTotals.length > 0 ? wrongTotalsFlagged / wrongTotals.length : 0,
+    },
+  }
+}
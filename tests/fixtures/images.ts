@@ -0,0 +1,12 @@
+import type { GrayImage } from "../../lib/image-preprocessing"
+
+/** Builds a grayscale image from the brightness (0-255) of each pixel. */
+export function grayImage(width: number, height: number, valueAt: (x: number, y: number) => number): GrayImage {
+  const data = new Uint8ClampedArray(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = valueAt(x, y)
+    }
+  }
+  return { width, height, data }
+}
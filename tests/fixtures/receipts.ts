@@ -0,0 +1,200 @@
+import type { StructuredReceipt } from "../../lib/receipt-ocr"
+
+type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T
+
+export interface ReceiptFixture {
+  name: string
+  text: string
+  expected: DeepPartial<StructuredReceipt>
+}
+
+export const RECEIPT_FIXTURES: ReceiptFixture[] = [
+  {
+    name: "US diner with sales tax and a card payment",
+    text: `JOE'S DINER
+123 MAIN ST, SPRINGFIELD
+TEL (555) 123-4567
+03/14/2024 7:42 PM
+SERVER: AMY TABLE 12
+2 X COFFEE 5.00
+PANCAKES 9.50
+BACON SIDE 3.25
+SUBTOTAL 17.75
+TAX 8.25% 1.46
+TOTAL 19.21
+VISA ****1234 19.21
+THANK YOU`,
+    expected: {
+      merchant: { value: "JOE'S DINER", lineIndex: 0 },
+      date: { value: "2024-03-14", lineIndex: 3 },
+      time: { value: "19:42", lineIndex: 3 },
+      lineItems: [
+        { description: "COFFEE", quantity: 2, unitPrice: 2.5, price: 5, lineIndex: 5 },
+        { description: "PANCAKES", quantity: 1, price: 9.5, lineIndex: 6 },
+        { description: "BACON SIDE", quantity: 1, price: 3.25, lineIndex: 7 },
+      ],
+      subtotal: { value: 17.75, lineIndex: 8 },
+      taxes: [{ label: "TAX", rate: 8.25, amount: 1.46, lineIndex: 9 }],
+      serviceCharges: [],
+      total: { value: 19.21, lineIndex: 10 },
+      payment: { value: "visa", lineIndex: 11 },
+    },
+  },
+  {
+    name: "Canadian restaurant with GST and PST listed separately",
+    text: `Maple Leaf Bistro
+Vancouver BC
+Date: 2024-07-02 13:05
+Poutine 12.00
+Caesar Salad 14.50
+Sparkling Water 3.50
+Subtotal 30.00
+GST 5% 1.50
+PST 7% 2.10
+Total 33.60
+Mastercard 33.60`,
+    expected: {
+      merchant: { value: "Maple Leaf Bistro", lineIndex: 0 },
+      date: { value: "2024-07-02", lineIndex: 2 },
+      time: { value: "13:05", lineIndex: 2 },
+      lineItems: [
+        { description: "Poutine", price: 12 },
+        { description: "Caesar Salad", price: 14.5 },
+        { description: "Sparkling Water", price: 3.5 },
+      ],
+      subtotal: { value: 30 },
+      taxes: [
+        { label: "GST", rate: 5, amount: 1.5, lineIndex: 7 },
+        { label: "PST", rate: 7, amount: 2.1, lineIndex: 8 },
+      ],
+      total: { value: 33.6, lineIndex: 9 },
+      payment: { value: "mastercard" },
+    },
+  },
+  {
+    name: "UK restaurant with a discretionary service charge",
+    text: `WELCOME TO THE RED LION
+14 High Street
+12 Jan 2024
+Fish and Chips 15.95
+Sticky Toffee Pudding 7.50
+Subtotal 23.45
+Service Charge 12.5% 2.93
+Total 26.38
+Contactless 26.38`,
+    expected: {
+      merchant: { value: "THE RED LION", lineIndex: 0 },
+      date: { value: "2024-01-12", lineIndex: 2 },
+      time: null,
+      lineItems: [
+        { description: "Fish and Chips", price: 15.95 },
+        { description: "Sticky Toffee Pudding", price: 7.5 },
+      ],
+      subtotal: { value: 23.45 },
+      taxes: [],
+      serviceCharges: [{ label: "Service Charge", rate: 12.5, amount: 2.93, lineIndex: 6 }],
+      total: { value: 26.38, lineIndex: 7 },
+      payment: { value: "mobile" },
+    },
+  },
+  {
+    name: "European café receipt with comma decimals and unit prices",
+    text: `Café Sonnenschein
+Berlin
+05.11.2024 09:15
+Cappuccino 2 x 3,20 6,40
+Croissant 2,80
+Subtotal 9,20
+Total 9,20
+Cash 10,00
+Change 0,80`,
+    expected: {
+      merchant: { value: "Café Sonnenschein", lineIndex: 0 },
+      date: { value: "2024-11-05", lineIndex: 2 },
+      time: { value: "09:15", lineIndex: 2 },
+      lineItems: [
+        { description: "Cappuccino", quantity: 2, unitPrice: 3.2, price: 6.4, lineIndex: 3 },
+        { description: "Croissant", quantity: 1, price: 2.8, lineIndex: 4 },
+      ],
+      subtotal: { value: 9.2, lineIndex: 5 },
+      total: { value: 9.2, lineIndex: 6 },
+      payment: { value: "cash", lineIndex: 7 },
+    },
+  },
+  {
+    name: "Bar tab with an automatic gratuity and a suggested tip below the total",
+    text: `THE COPPER TAP
+Order #4821
+Oct 3, 2024 11:58 PM
+3 IPA 21.00
+NACHOS 11.00
+SUBTOTAL 32.00
+GRATUITY 18% 5.76
+TAX 2.64
+TOTAL 40.40
+Suggested tip 20%: 6.40
+AMEX 40.40`,
+    expected: {
+      merchant: { value: "THE COPPER TAP", lineIndex: 0 },
+      date: { value: "2024-10-03", lineIndex: 2 },
+      time: { value: "23:58", lineIndex: 2 },
+      lineItems: [
+        { description: "IPA", quantity: 3, unitPrice: 7, price: 21 },
+        { description: "NACHOS", quantity: 1, price: 11 },
+      ],
+      subtotal: { value: 32 },
+      taxes: [{ label: "TAX", rate: null, amount: 2.64, lineIndex: 7 }],
+      serviceCharges: [{ label: "GRATUITY", rate: 18, amount: 5.76, lineIndex: 6 }],
+      total: { value: 40.4, lineIndex: 8 },
+      payment: { value: "amex", lineIndex: 10 },
+    },
+  },
+  {
+    name: "Grocery receipt with a coupon and a bag fee",
+    text: `FRESH MART
+Milk 3.49
+Bread 2.99
+Coupon Bread -1.00
+Subtotal 5.48
+Bag Fee 0.10
+Tax 0.44
+Total 6.02
+Debit 6.02`,
+    expected: {
+      merchant: { value: "FRESH MART", lineIndex: 0 },
+      lineItems: [
+        { description: "Milk", price: 3.49, lineIndex: 1 },
+        { description: "Bread", price: 2.99, lineIndex: 2 },
+      ],
+      discounts: [{ label: "Coupon Bread", amount: 1, lineIndex: 3 }],
+      fees: [{ label: "Bag Fee", amount: 0.1, lineIndex: 5 }],
+      taxes: [{ label: "Tax", amount: 0.44, lineIndex: 6 }],
+      total: { value: 6.02, lineIndex: 7 },
+      payment: { value: "card", lineIndex: 8 },
+      reconciliation: { itemsMatchSubtotal: true, totalMatches: true, misreads: [] },
+    },
+  },
+  {
+    name: "Takeaway paid in cash with change",
+    text: `GOLDEN DRAGON TAKEAWAY
+Kung Pao Chicken 10.50
+Fried Rice 4.00
+Spring Rolls 3.50
+TOTAL 18.00
+CASH 20.00
+CHANGE 2.00`,
+    expected: {
+      merchant: { value: "GOLDEN DRAGON TAKEAWAY", lineIndex: 0 },
+      date: null,
+      lineItems: [
+        { description: "Kung Pao Chicken", price: 10.5 },
+        { description: "Fried Rice", price: 4 },
+        { description: "Spring Rolls", price: 3.5 },
+      ],
+      subtotal: null,
+      taxes: [],
+      total: { value: 18, lineIndex: 4 },
+      payment: { value: "cash", lineIndex: 5 },
+    },
+  },
+]
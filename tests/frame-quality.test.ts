@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  STEADY_CAPTURE_MS,
+  assessFrame,
+  isReadyToCapture,
+  measureMotion,
+  measureSharpness,
+  trackSteadiness,
+} from "../lib/frame-quality"
+import { grayImage } from "./fixtures/images"
+
+/** Crisp dark print on white paper, shifted right by `offset` pixels. */
+const printedReceipt = (offset = 0) =>
+  grayImage(240, 160, (x, y) => (y % 12 < 3 && (x - offset) % 9 < 5 ? 30 : 225))
+
+/** The same print, out of focus: soft waves instead of edges. */
+const blurredReceipt = () => grayImage(240, 160, (x, y) => 170 + 40 * Math.sin(y / 6) * Math.sin(x / 8))
+
+describe("measureSharpness", () => {
+  it("rates crisp print above blurred print", () => {
+    expect(measureSharpness(printedReceipt())).toBeGreaterThan(measureSharpness(blurredReceipt()) * 10)
+  })
+})
+
+describe("measureMotion", () => {
+  it("is zero for identical frames and grows when the camera moves", () => {
+    expect(measureMotion(printedReceipt(), printedReceipt())).toBe(0)
+    expect(measureMotion(printedReceipt(3), printedReceipt())).toBeGreaterThan(20)
+    expect(measureMotion(printedReceipt(), grayImage(10, 10, () => 0))).toBeNull()
+  })
+})
+
+describe("assessFrame", () => {
+  it("accepts a steady, sharp, well-lit frame", () => {
+    const quality = assessFrame(printedReceipt(), printedReceipt())
+
+    expect(quality.issue).toBeNull()
+    expect(quality.motion).toBe(0)
+  })
+
+  it("asks for more light before anything else", () => {
+    const dark = grayImage(240, 160, (x) => (x % 9 < 5 ? 10 : 40))
+
+    expect(assessFrame(dark, printedReceipt()).issue).toBe("too-dark")
+  })
+
+  it("flags glare from a blown-out frame", () => {
+    const glaring = grayImage(240, 160, (x, y) => (y < 100 ? 255 : x % 9 < 5 ? 30 : 225))
+
+    expect(assessFrame(glaring, glaring).issue).toBe("glare")
+  })
+
+  it("waits for a second frame and for the camera to settle", () => {
+    expect(assessFrame(printedReceipt(), null).issue).toBe("moving")
+    expect(assessFrame(printedReceipt(3), printedReceipt()).issue).toBe("moving")
+  })
+
+  it("flags a steady frame that is out of focus", () => {
+    expect(assessFrame(blurredReceipt(), blurredReceipt()).issue).toBe("blurry")
+  })
+})
+
+describe("trackSteadiness", () => {
+  const good = assessFrame(printedReceipt(), printedReceipt())
+  const shaky = assessFrame(printedReceipt(3), printedReceipt())
+
+  it("captures only after frames stay good long enough", () => {
+    const since = trackSteadiness(null, good, 1000)
+    const still = trackSteadiness(since, good, 1000 + STEADY_CAPTURE_MS / 2)
+
+    expect(still).toBe(1000)
+    expect(isReadyToCapture(still, 1000 + STEADY_CAPTURE_MS / 2)).toBe(false)
+    expect(isReadyToCapture(still, 1000 + STEADY_CAPTURE_MS)).toBe(true)
+  })
+
+  it("starts over when a frame is bad", () => {
+    expect(trackSteadiness(1000, shaky, 1500)).toBeNull()
+    expect(isReadyToCapture(null, 5000)).toBe(false)
+  })
+})
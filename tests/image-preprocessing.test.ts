@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  detectReceiptCorners,
+  estimateSkewAngle,
+  otsuThreshold,
+  rotateImage,
+  sauvolaThreshold,
+  squareToQuad,
+  straightenReceipt,
+  stretchContrast,
+  toGrayscale,
+  toRgba,
+  warpPerspective,
+  type GrayImage,
+  type Point,
+  type Quad,
+} from "../lib/image-preprocessing"
+import { grayImage } from "./fixtures/images"
+
+const pixelAt = (image: GrayImage, x: number, y: number) => image.data[y * image.width + x]
+
+/** Inside a convex quad listed clockwise on screen. */
+function isInside(quad: Quad, x: number, y: number): boolean {
+  return quad.every((corner, index) => {
+    const next = quad[(index + 1) % quad.length]
+    return (next.x - corner.x) * (y - corner.y) - (next.y - corner.y) * (x - corner.x) >= 0
+  })
+}
+
+/** Dark 3px text lines every 20px, tilted by `degrees`. */
+const textLines = (degrees: number) => (x: number, y: number) => {
+  const rowOffset = y - x * Math.tan((degrees * Math.PI) / 180)
+  return ((rowOffset % 20) + 20) % 20 < 3 ? 20 : 235
+}
+
+const RECEIPT: Quad = [
+  { x: 120, y: 40 },
+  { x: 290, y: 60 },
+  { x: 270, y: 280 },
+  { x: 100, y: 260 },
+]
+
+/** A receipt with a few printed lines, photographed on a dark table. */
+const receiptPhoto = () =>
+  grayImage(400, 300, (x, y) => {
+    if (!isInside(RECEIPT, x + 0.5, y + 0.5)) {
+      return 60
+    }
+    // Printed lines run parallel to the receipt's top edge
+    const lineOffset = y - 40 - ((x - 120) * 20) / 170
+    return lineOffset > 40 && lineOffset < 160 && lineOffset % 25 < 3 && x > 130 && x < 260 ? 30 : 235
+  })
+
+const expectNear = (actual: Point, expected: Point, tolerance: number) => {
+  expect(Math.abs(actual.x - expected.x)).toBeLessThanOrEqual(tolerance)
+  expect(Math.abs(actual.y - expected.y)).toBeLessThanOrEqual(tolerance)
+}
+
+describe("toGrayscale", () => {
+  it("weights channels by perceived brightness and round-trips through RGBA", () => {
+    const rgba = { width: 2, height: 1, data: new Uint8ClampedArray([255, 0, 0, 255, 255, 255, 255, 255]) }
+
+    const gray = toGrayscale(rgba)
+
+    expect([...gray.data]).toEqual([76, 255])
+    expect([...toRgba(gray).data]).toEqual([76, 76, 76, 255, 255, 255, 255, 255])
+  })
+})
+
+describe("otsuThreshold", () => {
+  it("splits dark print from bright paper", () => {
+    const threshold = otsuThreshold(grayImage(10, 10, (x) => (x < 5 ? 40 : 200)))
+
+    expect(threshold).toBeGreaterThanOrEqual(40)
+    expect(threshold).toBeLessThan(200)
+  })
+})
+
+describe("detectReceiptCorners", () => {
+  it("finds a tilted receipt on a dark background", () => {
+    const corners = detectReceiptCorners(receiptPhoto())
+
+    expect(corners).not.toBeNull()
+    corners?.forEach((corner, index) => expectNear(corner, RECEIPT[index], 5))
+  })
+
+  it("leaves photos without a distinct sheet alone", () => {
+    expect(detectReceiptCorners(grayImage(300, 200, () => 240))).toBeNull()
+    expect(detectReceiptCorners(grayImage(300, 200, textLines(0)))).toBeNull()
+  })
+})
+
+describe("warpPerspective", () => {
+  it("maps the unit square onto the quad's corners", () => {
+    const toQuad = squareToQuad(RECEIPT)
+
+    expectNear(toQuad(0, 0), RECEIPT[0], 1e-9)
+    expectNear(toQuad(1, 0), RECEIPT[1], 1e-9)
+    expectNear(toQuad(1, 1), RECEIPT[2], 1e-9)
+    expectNear(toQuad(0, 1), RECEIPT[3], 1e-9)
+  })
+
+  it("crops the quad into an upright image", () => {
+    const image = grayImage(60, 40, (x) => (x < 20 ? 0 : 255))
+    const quad: Quad = [
+      { x: 10, y: 10 },
+      { x: 30, y: 10 },
+      { x: 30, y: 30 },
+      { x: 10, y: 30 },
+    ]
+
+    const warped = warpPerspective(image, quad, 20, 20)
+
+    expect(pixelAt(warped, 0, 10)).toBe(0)
+    expect(pixelAt(warped, 8, 10)).toBe(0)
+    expect(pixelAt(warped, 11, 10)).toBe(255)
+    expect(pixelAt(warped, 19, 10)).toBe(255)
+  })
+})
+
+describe("estimateSkewAngle", () => {
+  it.each([3, -2, 0])("measures text tilted by %i degrees", (degrees) => {
+    const angle = estimateSkewAngle(grayImage(600, 400, textLines(degrees)))
+
+    expect(Math.abs(angle - degrees)).toBeLessThanOrEqual(0.3)
+  })
+
+  it("returns 0 for a blank page", () => {
+    expect(estimateSkewAngle(grayImage(200, 200, () => 255))).toBe(0)
+  })
+})
+
+describe("rotateImage", () => {
+  it("rotates clockwise and grows the canvas to fit", () => {
+    const image = grayImage(100, 50, (x, y) => (x < 10 && y < 10 ? 0 : 255))
+
+    const rotated = rotateImage(image, 90)
+
+    expect(rotated.width).toBe(50)
+    expect(rotated.height).toBe(100)
+    expect(pixelAt(rotated, 45, 5)).toBe(0)
+    expect(pixelAt(rotated, 5, 5)).toBe(255)
+  })
+})
+
+describe("sauvolaThreshold", () => {
+  it("keeps text black across a shadow that defeats a global threshold", () => {
+    // Lighting fades from dim on the left to bright on the right
+    const background = (x: number) => 80 + x * 0.8
+    const isStroke = (x: number, y: number) => y >= 20 && y < 40 && x % 10 < 2
+    const image = grayImage(200, 60, (x, y) => (isStroke(x, y) ? background(x) - 50 : background(x)))
+
+    const binary = sauvolaThreshold(image)
+    const globalThreshold = otsuThreshold(image)
+
+    let strokesKept = 0
+    let strokes = 0
+    let paperKept = 0
+    let paper = 0
+    let paperLostGlobally = 0
+    for (let y = 0; y < 60; y++) {
+      for (let x = 0; x < 200; x++) {
+        if (isStroke(x, y)) {
+          strokes++
+          strokesKept += pixelAt(binary, x, y) === 0 ? 1 : 0
+        } else if (y < 10 || y >= 50) {
+          paper++
+          paperKept += pixelAt(binary, x, y) === 255 ? 1 : 0
+          paperLostGlobally += pixelAt(image, x, y) <= globalThreshold ? 1 : 0
+        }
+      }
+    }
+
+    expect(strokesKept).toBe(strokes)
+    expect(paperKept / paper).toBeGreaterThan(0.95)
+    expect(paperLostGlobally / paper).toBeGreaterThan(0.2)
+  })
+})
+
+describe("stretchContrast", () => {
+  it("spreads faint print over the full range", () => {
+    const stretched = stretchContrast(grayImage(100, 1, (x) => 100 + Math.floor(x / 2)))
+
+    expect(Math.min(...stretched.data)).toBe(0)
+    expect(Math.max(...stretched.data)).toBe(255)
+  })
+})
+
+describe("straightenReceipt", () => {
+  it("crops the receipt and maps points back onto the photo", () => {
+    const photo = receiptPhoto()
+
+    const receipt = straightenReceipt(toRgba(photo), 120)
+
+    expect(receipt.corners).not.toBeNull()
+    expect(receipt.image.width).toBeLessThanOrEqual(120)
+    expect(receipt.skewAngle).toBe(0)
+    expectNear(receipt.toSource({ x: 0, y: 0 }), { x: 120 / 400, y: 40 / 300 }, 0.02)
+    expectNear(receipt.toSource({ x: 1, y: 1 }), { x: 270 / 400, y: 280 / 300 }, 0.02)
+  })
+
+  it("rotates tilted text level when the receipt fills the photo", () => {
+    const receipt = straightenReceipt(toRgba(grayImage(600, 400, textLines(4))), 600)
+
+    expect(receipt.corners).toBeNull()
+    expect(Math.abs(receipt.skewAngle - 4)).toBeLessThanOrEqual(0.3)
+    expect(Math.abs(estimateSkewAngle(receipt.image))).toBeLessThanOrEqual(0.3)
+    expectNear(receipt.toSource({ x: 0.5, y: 0.5 }), { x: 0.5, y: 0.5 }, 0.01)
+  })
+})
@@ -2,6 +2,10 @@ import { describe, expect, it } from "vitest"
 
 import {
   parseCurrencyString,
+  correctOcrAmounts,
+  parseAmountInput,
+  parseNumberInput,
+  getNumberFormatForLocale,
   detectNumberFormat,
   findAmountsInText,
   validateTotalRelationship,
@@ -28,6 +32,104 @@ describe("parseCurrencyString", () => {
   })
 })
 
+describe("correctOcrAmounts", () => {
+  it("repairs letters read for digits inside amounts", () => {
+    expect(correctOcrAmounts("TOTAL 1O.5O").text).toBe("TOTAL 10.50")
+    expect(correctOcrAmounts("TOTAL S.99").text).toBe("TOTAL 5.99")
+    expect(correctOcrAmounts("Burger l2.B0").text).toBe("Burger 12.80")
+    expect(correctOcrAmounts("TOTAL € 1.234,5O").text).toBe("TOTAL € 1.234,50")
+  })
+
+  it("rejoins line-final amounts split by spaces or a misread separator", () => {
+    expect(correctOcrAmounts("TOTAL 12 .50").text).toBe("TOTAL 12.50")
+    expect(correctOcrAmounts("TOTAL 12. 50").text).toBe("TOTAL 12.50")
+    expect(correctOcrAmounts("TOTAL $12 50").text).toBe("TOTAL $12.50")
+    expect(correctOcrAmounts("SUMME 12 50 €").text).toBe("SUMME 12.50 €")
+    expect(correctOcrAmounts("TOTAL 12;50").text).toBe("TOTAL 12,50")
+  })
+
+  it("leaves numbers split by a bare space alone without a currency symbol", () => {
+    for (const line of ["Table 12 50", "Order 4821 17", "COFFEE QTY 2 50"]) {
+      expect(correctOcrAmounts(line)).toEqual({ text: line, correctedRanges: [] })
+    }
+  })
+
+  it("records where corrections were made", () => {
+    expect(correctOcrAmounts("TOTAL 1O.5O").correctedRanges).toEqual([[6, 11]])
+  })
+
+  it("leaves words and clean amounts alone", () => {
+    for (const line of ["BOSS BURGER 9.99", "SOLD 3 ITEMS", "US$5.00", "Cappuccino 2 x 3,20 6,40", "TAX 8.25% 1.46"]) {
+      expect(correctOcrAmounts(line)).toEqual({ text: line, correctedRanges: [] })
+    }
+  })
+})
+
+describe("getNumberFormatForLocale", () => {
+  it("maps comma-decimal locales to european", () => {
+    expect(getNumberFormatForLocale("de-DE")).toBe("european")
+    expect(getNumberFormatForLocale("fr-FR")).toBe("european")
+  })
+
+  it("maps dot-decimal locales to us", () => {
+    expect(getNumberFormatForLocale("en-US")).toBe("us")
+    expect(getNumberFormatForLocale("ja-JP")).toBe("us")
+  })
+})
+
+describe("parseAmountInput", () => {
+  it("accepts comma decimals and dot grouping in european locales", () => {
+    expect(parseAmountInput("12,50", "de-DE")).toBe(12.5)
+    expect(parseAmountInput("1.234,56", "de-DE")).toBe(1234.56)
+    expect(parseAmountInput("1.234", "de-DE")).toBe(1234)
+  })
+
+  it("accepts us formatting", () => {
+    expect(parseAmountInput("1,234.56", "en-US")).toBe(1234.56)
+    expect(parseAmountInput("$ 42", "en-US")).toBe(42)
+  })
+
+  it("tolerates a comma decimal typed in a us locale", () => {
+    expect(parseAmountInput("12,50", "en-US")).toBe(12.5)
+  })
+
+  it("rejects text, negative amounts and overlong decimals", () => {
+    expect(parseAmountInput("12abc", "en-US")).toBeNull()
+    expect(parseAmountInput("-5", "en-US")).toBeNull()
+    expect(parseAmountInput("12.555", "en-US")).toBeNull()
+    expect(parseAmountInput("12,555", "de-DE")).toBeNull()
+    expect(parseAmountInput("", "en-US")).toBeNull()
+  })
+
+  it("rejects more than one decimal separator", () => {
+    expect(parseAmountInput("12..5", "en-US")).toBeNull()
+    expect(parseAmountInput("12,5,0", "de-DE")).toBeNull()
+    expect(parseAmountInput("1.234.5", "en-US")).toBeNull()
+  })
+
+  it("rejects group separators not followed by three digits", () => {
+    expect(parseAmountInput("12,5,0", "en-US")).toBeNull()
+    expect(parseAmountInput("1,23,456", "en-US")).toBeNull()
+    expect(parseAmountInput("1.2345,00", "de-DE")).toBeNull()
+    expect(parseAmountInput("1 234,56", "de-DE")).toBe(1234.56)
+  })
+})
+
+describe("parseNumberInput", () => {
+  it("reads a dot or a comma as the decimal separator in any locale", () => {
+    expect(parseNumberInput("1.5")).toBe(1.5)
+    expect(parseNumberInput("1,5")).toBe(1.5)
+    expect(parseNumberInput(" 12 ")).toBe(12)
+  })
+
+  it("rejects text, negative numbers and several separators", () => {
+    expect(parseNumberInput("")).toBeNull()
+    expect(parseNumberInput("abc")).toBeNull()
+    expect(parseNumberInput("-1")).toBeNull()
+    expect(parseNumberInput("1.2.3")).toBeNull()
+  })
+})
+
 describe("detectNumberFormat", () => {
   it("detects european-style formatting", () => {
     const text = ["SUBTOTAL 1.234,00", "TAX 12,34", "TOTAL 1.246,34"].join("\n")
@@ -52,6 +154,15 @@ describe("findAmountsInText", () => {
       lineIndex: 1,
     })
   })
+
+  it("marks amounts that needed an OCR correction", () => {
+    const amounts = findAmountsInText(["TAX 1.20", "TOTAL l3.2O"].join("\n"))
+
+    expect(amounts).toEqual([
+      { value: 1.2, context: "TAX 1.20", lineIndex: 0 },
+      { value: 13.2, context: "TOTAL 13.20", lineIndex: 1, corrected: true },
+    ])
+  })
 })
 
 describe("validateTotalRelationship", () => {
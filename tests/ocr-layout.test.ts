@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildOcrLayout,
+  findPriceColumn,
+  layoutToText,
+  locateAmount,
+  transformBox,
+  type TesseractBlockInput,
+} from "../lib/ocr-layout"
+import { extractAmountsFromText } from "../lib/receipt-ocr"
+
+const PAGE_WIDTH = 1000
+const PAGE_HEIGHT = 2000
+
+type WordSpec = [text: string, x0: number, x1: number, confidence?: number]
+
+/** One Tesseract line per row spec, printed 40px apart. */
+function blocksFor(rows: WordSpec[][], firstRow = 0): TesseractBlockInput[] {
+  return [
+    {
+      paragraphs: [
+        {
+          lines: rows.map((words, index) => {
+            const y0 = (firstRow + index) * 40
+            return {
+              words: words.map(([text, x0, x1, confidence = 95]) => ({
+                text,
+                confidence,
+                bbox: { x0, y0, x1, y1: y0 + 30 },
+              })),
+            }
+          }),
+        },
+      ],
+    },
+  ]
+}
+
+const receiptRows = (totalConfidence = 95): WordSpec[][] => [
+  [["BURGER", 100, 250], ["12.00", 800, 900]],
+  [["FRIES", 100, 220], ["4.00", 820, 900]],
+  [["SUBTOTAL", 100, 300], ["16.00", 800, 900]],
+  [["TAX", 100, 180], ["1.28", 820, 900]],
+  [["TOTAL", 100, 230], ["17.28", 800, 900, totalConfidence]],
+]
+
+describe("buildOcrLayout", () => {
+  it("scales boxes and confidences to fractions", () => {
+    const layout = buildOcrLayout(blocksFor([[["TOTAL", 100, 300], ["9.99", 800, 900, 80]]]), PAGE_WIDTH, PAGE_HEIGHT)
+
+    expect(layout.lines).toHaveLength(1)
+    expect(layout.lines[0]).toMatchObject({
+      text: "TOTAL 9.99",
+      confidence: 0.875,
+      bbox: { x0: 0.1, y0: 0, x1: 0.9, y1: 0.015 },
+    })
+    expect(layout.lines[0].words[1]).toEqual({ text: "9.99", confidence: 0.8, bbox: { x0: 0.8, y0: 0, x1: 0.9, y1: 0.015 } })
+  })
+
+  it("rejoins a label and a price Tesseract split into separate lines", () => {
+    const labels = blocksFor([[["SUBTOTAL", 100, 300]], [["TOTAL", 100, 230]]])
+    const prices = blocksFor([[["16.00", 800, 900]], [["17.28", 800, 900]]])
+
+    const layout = buildOcrLayout([...labels, ...prices], PAGE_WIDTH, PAGE_HEIGHT)
+
+    expect(layoutToText(layout)).toBe("SUBTOTAL 16.00\nTOTAL 17.28")
+  })
+
+  it("keeps rows in reading order and drops empty words", () => {
+    const blocks = [...blocksFor([[["TOTAL", 100, 230]]], 1), ...blocksFor([[["CAFE", 100, 200], [" ", 210, 220]]])]
+
+    expect(layoutToText(buildOcrLayout(blocks, PAGE_WIDTH, PAGE_HEIGHT))).toBe("CAFE\nTOTAL")
+  })
+})
+
+describe("locateAmount", () => {
+  it("finds an amount spread over several words", () => {
+    const layout = buildOcrLayout(
+      blocksFor([[["TOTAL", 100, 230], ["$", 700, 720, 90], ["12", 730, 780], [".50", 790, 850, 60]]]),
+      PAGE_WIDTH,
+      PAGE_HEIGHT
+    )
+
+    expect(locateAmount(layout.lines[0], 12.5)).toEqual({
+      bbox: { x0: 0.73, y0: 0, x1: 0.85, y1: 0.015 },
+      confidence: 0.6,
+    })
+  })
+
+  it("returns null for a missing line or amount", () => {
+    const layout = buildOcrLayout(blocksFor([[["TOTAL", 100, 230], ["9.99", 800, 900]]]), PAGE_WIDTH, PAGE_HEIGHT)
+
+    expect(locateAmount(layout.lines[0], 5)).toBeNull()
+    expect(locateAmount(layout.lines[3], 9.99)).toBeNull()
+  })
+})
+
+describe("findPriceColumn", () => {
+  it("takes the median right edge of lines ending in a number", () => {
+    const layout = buildOcrLayout(blocksFor([...receiptRows(), [["THANK", 300, 500], ["YOU", 520, 600]]]), PAGE_WIDTH, PAGE_HEIGHT)
+
+    expect(findPriceColumn(layout)).toBe(0.9)
+  })
+
+  it("needs a few priced lines", () => {
+    const layout = buildOcrLayout(blocksFor([[["TOTAL", 100, 230], ["9.99", 800, 900]]]), PAGE_WIDTH, PAGE_HEIGHT)
+
+    expect(findPriceColumn(layout)).toBeNull()
+  })
+})
+
+describe("transformBox", () => {
+  it("bounds the moved corners and keeps them on the image", () => {
+    const rotateQuarterTurn = ({ x, y }: { x: number; y: number }) => ({ x: 1 - y, y: x })
+
+    expect(transformBox({ x0: 0.1, y0: 0.2, x1: 0.3, y1: 0.6 }, rotateQuarterTurn)).toEqual({
+      x0: 0.4,
+      y0: 0.1,
+      x1: 0.8,
+      y1: 0.3,
+    })
+    expect(transformBox({ x0: 0.9, y0: 0.9, x1: 1, y1: 1 }, ({ x, y }) => ({ x: x + 0.2, y }))).toMatchObject({
+      x0: 1,
+      x1: 1,
+    })
+  })
+})
+
+describe("extractAmountsFromText with a layout", () => {
+  it("keeps where each amount was printed", () => {
+    const layout = buildOcrLayout(blocksFor(receiptRows()), PAGE_WIDTH, PAGE_HEIGHT)
+
+    const result = extractAmountsFromText(layoutToText(layout), { layout })
+
+    expect(result.amount).toBe(17.28)
+    expect(result.allAmounts.find((amount) => amount.lineIndex === 4)).toMatchObject({
+      bbox: { x0: 0.8, x1: 0.9 },
+      wordConfidence: 0.95,
+    })
+  })
+
+  it("trusts a total read with low character confidence less", () => {
+    const clear = buildOcrLayout(blocksFor(receiptRows(95)), PAGE_WIDTH, PAGE_HEIGHT)
+    const smudged = buildOcrLayout(blocksFor(receiptRows(40)), PAGE_WIDTH, PAGE_HEIGHT)
+
+    const clearResult = extractAmountsFromText(layoutToText(clear), { layout: clear })
+    const smudgedResult = extractAmountsFromText(layoutToText(smudged), { layout: smudged })
+
+    expect(smudgedResult.amount).toBe(17.28)
+    expect(smudgedResult.confidence).toBeLessThan(clearResult.confidence)
+  })
+})
@@ -0,0 +1,228 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { createWorkerPool } from "../lib/ocr-worker-pool"
+
+interface FakeWorker {
+  id: number
+  terminated: boolean
+  reportProgress: (progress: number) => void
+  terminate: () => Promise<void>
+}
+
+function fakeWorkers() {
+  const created: FakeWorker[] = []
+  const create = vi.fn(async (onProgress: (progress: number) => void) => {
+    const worker: FakeWorker = {
+      id: created.length,
+      terminated: false,
+      reportProgress: onProgress,
+      terminate: async () => {
+        worker.terminated = true
+      },
+    }
+    created.push(worker)
+    return worker
+  })
+
+  return { created, create }
+}
+
+function deferred<T>() {
+  let resolve: (value: T) => void = () => undefined
+  const promise = new Promise<T>((resolvePromise) => {
+    resolve = resolvePromise
+  })
+  return { promise, resolve }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("createWorkerPool", () => {
+  it("reuses a worker across jobs", async () => {
+    const { create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 2 })
+
+    const first = await pool.run(async (worker) => worker.id)
+    const second = await pool.run(async (worker) => worker.id)
+
+    expect([first, second]).toEqual([0, 0])
+    expect(create).toHaveBeenCalledTimes(1)
+  })
+
+  it("runs jobs in parallel up to its size and queues the rest", async () => {
+    const { create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 2 })
+    const gate = deferred<void>()
+    const started: number[] = []
+
+    const jobs = [1, 2, 3].map((job) =>
+      pool.run(async (worker) => {
+        started.push(job)
+        await gate.promise
+        return worker.id
+      })
+    )
+
+    await vi.waitFor(() => expect(started).toEqual([1, 2]))
+    gate.resolve()
+
+    expect(await Promise.all(jobs)).toEqual([0, 1, 0])
+    expect(create).toHaveBeenCalledTimes(2)
+  })
+
+  it("sends progress to the job the worker is running", async () => {
+    const { create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 1 })
+    const onProgress = vi.fn()
+
+    await pool.run(
+      async (worker) => {
+        worker.reportProgress(40)
+      },
+      { onProgress }
+    )
+    await pool.run(async (worker) => {
+      worker.reportProgress(90)
+    })
+
+    expect(onProgress).toHaveBeenCalledTimes(1)
+    expect(onProgress).toHaveBeenCalledWith(40)
+  })
+
+  it("stops the worker of an aborted job and replaces it", async () => {
+    const { created, create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 1 })
+    const controller = new AbortController()
+
+    const aborted = pool.run(() => new Promise<number>(() => undefined), { signal: controller.signal })
+    await vi.waitFor(() => expect(created).toHaveLength(1))
+    controller.abort()
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" })
+    await vi.waitFor(() => expect(created[0].terminated).toBe(true))
+    expect(await pool.run(async (worker) => worker.id)).toBe(1)
+  })
+
+  it("drops a queued job without stopping the busy worker", async () => {
+    const { created, create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 1 })
+    const gate = deferred<void>()
+    const controller = new AbortController()
+
+    const running = pool.run(async (worker) => {
+      await gate.promise
+      return worker.id
+    })
+    const queued = pool.run(async (worker) => worker.id, { signal: controller.signal })
+    controller.abort()
+    gate.resolve()
+
+    await expect(queued).rejects.toMatchObject({ name: "AbortError" })
+    expect(await running).toBe(0)
+    expect(created[0].terminated).toBe(false)
+  })
+
+  it("lets a started job finish on its worker when only its queue signal aborts", async () => {
+    const { created, create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 1 })
+    const gate = deferred<void>()
+    const controller = new AbortController()
+
+    const running = pool.run(
+      async (worker) => {
+        await gate.promise
+        return worker.id
+      },
+      { queueSignal: controller.signal }
+    )
+    const queued = pool.run(async (worker) => worker.id, { queueSignal: controller.signal })
+    await vi.waitFor(() => expect(created).toHaveLength(1))
+    controller.abort()
+    gate.resolve()
+
+    await expect(queued).rejects.toMatchObject({ name: "AbortError" })
+    expect(await running).toBe(0)
+    expect(created[0].terminated).toBe(false)
+    expect(await pool.run(async (worker) => worker.id)).toBe(0)
+  })
+
+  it("keeps other queued jobs when a rejected job's signal aborts later", async () => {
+    const { create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 1 })
+    const controller = new AbortController()
+
+    void pool.run(() => new Promise<number>(() => undefined))
+    const rejected = pool.run(async (worker) => worker.id, { signal: controller.signal })
+    await pool.terminate()
+    await expect(rejected).rejects.toMatchObject({ name: "AbortError" })
+
+    const gate = deferred<void>()
+    const running = pool.run(async (worker) => {
+      await gate.promise
+      return worker.id
+    })
+    const queued = pool.run(async (worker) => worker.id)
+    controller.abort()
+    gate.resolve()
+
+    expect(await running).toBe(1)
+    expect(await queued).toBe(1)
+  })
+
+  it("rejects at once when already aborted", async () => {
+    const { create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 1 })
+
+    await expect(pool.run(async () => 1, { signal: AbortSignal.abort() })).rejects.toMatchObject({
+      name: "AbortError",
+    })
+    expect(create).not.toHaveBeenCalled()
+  })
+
+  it("fails queued jobs when a worker can't start", async () => {
+    const create = vi.fn(async () => {
+      throw new Error("language data missing")
+    })
+    const pool = createWorkerPool({ create, size: 1 })
+
+    const jobs = [pool.run(async () => 1), pool.run(async () => 2)]
+
+    await expect(jobs[0]).rejects.toThrow("language data missing")
+    await expect(jobs[1]).rejects.toThrow("language data missing")
+  })
+
+  it("warms up workers before the first job", async () => {
+    const { created, create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 3 })
+
+    await pool.warmUp()
+    await pool.warmUp()
+    await pool.run(async (worker) => worker.id)
+
+    expect(created).toHaveLength(3)
+  })
+
+  it("stops workers left idle", async () => {
+    vi.useFakeTimers()
+    const { created, create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 1, idleTimeoutMs: 1000 })
+
+    await pool.run(async (worker) => worker.id)
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(created[0].terminated).toBe(true)
+    expect(await pool.run(async (worker) => worker.id)).toBe(1)
+  })
+
+  it("terminates every worker", async () => {
+    const { created, create } = fakeWorkers()
+    const pool = createWorkerPool({ create, size: 2 })
+
+    await pool.warmUp()
+    await pool.terminate()
+
+    expect(created.map((worker) => worker.terminated)).toEqual([true, true])
+  })
+})
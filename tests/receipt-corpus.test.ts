@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+
+import { fitConfidenceCalibration, TOTAL_CONFIDENCE_CALIBRATION } from "../lib/confidence-calibration"
+import {
+  crossValidateCorpus,
+  evaluateReceipt,
+  isTotalCorrect,
+  loadReceiptCorpus,
+  summarizeCorpus,
+  toCents,
+  withReviewThreshold,
+  type CorpusResult,
+} from "./fixtures/corpus"
+
+const corpus = loadReceiptCorpus()
+
+describe("receipt corpus", () => {
+  it("covers dozens of receipts across locales", () => {
+    expect(corpus.length).toBeGreaterThanOrEqual(30)
+    expect(new Set(corpus.map((receipt) => receipt.locale)).size).toBeGreaterThanOrEqual(10)
+  })
+
+  describe.each(corpus)("$id", (receipt) => {
+    const result = evaluateReceipt(receipt)
+
+    for (const field of result.fields) {
+      // A fixed known issue fails here so its note gets removed
+      const test = receipt.knownIssues?.[field.field] ? it.fails : it
+
+      test(`reads the ${field.field}`, () => {
+        expect(toCents(field.actual)).toBe(toCents(field.expected))
+      })
+    }
+  })
+
+  it("keeps the total confidence calibration table in sync with the corpus", () => {
+    const rawResults = corpus.map((receipt) => evaluateReceipt(receipt, { calibration: null }))
+    const refitted = fitConfidenceCalibration(
+      rawResults.map((result) => ({ confidence: result.confidence, correct: isTotalCorrect(result) }))
+    )
+
+    // Refit with `npm run benchmark -- --fit-calibration` when this fails
+    expect(TOTAL_CONFIDENCE_CALIBRATION).toEqual(refitted)
+  })
+
+  describe("on receipts left out of the calibration fit", () => {
+    const heldOut = summarizeCorpus(crossValidateCorpus(corpus))
+    const raw = summarizeCorpus(corpus.map((receipt) => evaluateReceipt(receipt, { calibration: null })))
+
+    it("stays calibrated", () => {
+      expect(heldOut.brierScore).toBeLessThanOrEqual(raw.brierScore)
+      expect(heldOut.expectedCalibrationError).toBeLessThan(0.1)
+    })
+
+    it("flags most wrong totals for review", () => {
+      expect(heldOut.review.recall).toBeGreaterThan(0.5)
+      expect(heldOut.review.flagged / corpus.length).toBeLessThan(0.5)
+    })
+  })
+})
+
+describe("summarizeCorpus", () => {
+  const result = (confidence: number, correct: boolean): CorpusResult => ({
+    receipt: corpus[0],
+    confidence,
+    needsReview: confidence < 0.8,
+    reviewReasons: confidence < 0.8 ? ["low-confidence"] : [],
+    fields: [{ field: "total", expected: 10, actual: correct ? 10 : 1, correct }],
+    correct,
+  })
+
+  it("bins the total's confidence against how often it was right", () => {
+    const summary = summarizeCorpus([result(0.9, true), result(0.9, true), result(0.7, false), result(1, true)])
+
+    expect(summary.fields.total).toEqual({ checked: 4, correct: 3 })
+    expect(summary.calibration.map((bin) => bin.receipts)).toEqual([0, 0, 0, 1, 3])
+    expect(summary.calibration[4].accuracy).toBe(1)
+    // A quarter of the receipts 0.7 off, three quarters 1/15 off
+    expect(summary.expectedCalibrationError).toBeCloseTo(0.225)
+    expect(summary.brierScore).toBeCloseTo((0.01 + 0.01 + 0.49 + 0) / 4)
+    expect(summary.review).toEqual({ flagged: 1, wrongTotals: 1, wrongTotalsFlagged: 1, precision: 1, recall: 1 })
+  })
+
+  it("re-flags results for review at another confidence threshold", () => {
+    const results = withReviewThreshold([result(0.9, true), result(0.7, false), result(0.6, true)], 0.65)
+
+    expect(results.map((flagged) => flagged.needsReview)).toEqual([false, false, true])
+    expect(summarizeCorpus(results).review).toMatchObject({ flagged: 1, precision: 0, recall: 0 })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  FULL_PHOTO,
+  MIN_CROP_SIZE,
+  cropPointToPhoto,
+  cropRegionOnPhoto,
+  isFullRegion,
+  regionFromDrag,
+  turnRegion,
+  unturnPoint,
+} from "../lib/receipt-crop"
+
+describe("unturnPoint", () => {
+  it("maps each corner of the turned photo back to where it was taken", () => {
+    // The photo's top-left corner ends up top-right after one clockwise turn
+    expect(unturnPoint({ x: 1, y: 0 }, 1)).toEqual({ x: 0, y: 0 })
+    expect(unturnPoint({ x: 1, y: 1 }, 2)).toEqual({ x: 0, y: 0 })
+    expect(unturnPoint({ x: 0, y: 1 }, 3)).toEqual({ x: 0, y: 0 })
+    expect(unturnPoint({ x: 0.25, y: 0.75 }, 4)).toEqual({ x: 0.25, y: 0.75 })
+    expect(unturnPoint({ x: 0, y: 1 }, -1)).toEqual({ x: 0, y: 0 })
+  })
+})
+
+describe("turnRegion", () => {
+  it("keeps a selection on the same part of the photo", () => {
+    const region = { x0: 0.1, y0: 0.6, x1: 0.5, y1: 0.9 }
+
+    const turned = turnRegion(region, 1)
+
+    expect(turned.x0).toBeCloseTo(0.1)
+    expect(turned.y0).toBeCloseTo(0.1)
+    expect(turned.x1).toBeCloseTo(0.4)
+    expect(turned.y1).toBeCloseTo(0.5)
+    expect(cropRegionOnPhoto({ region: turned, quarterTurns: 1 })).toEqual(region)
+    expect(turnRegion(region, -1)).toEqual(turnRegion(region, 3))
+    expect(turnRegion(region, 4)).toEqual(region)
+  })
+})
+
+describe("cropPointToPhoto", () => {
+  it("maps points on the cropped, turned image onto the photo as taken", () => {
+    const crop = { region: { x0: 0.5, y0: 0, x1: 1, y1: 0.5 }, quarterTurns: 1 }
+
+    // The crop's top-left is the turned photo's top-centre, the photo's left-middle
+    expect(cropPointToPhoto(crop, { x: 0, y: 0 })).toEqual({ x: 0, y: 0.5 })
+    expect(cropPointToPhoto(crop, { x: 1, y: 1 })).toEqual({ x: 0.5, y: 0 })
+    expect(cropRegionOnPhoto(crop)).toEqual({ x0: 0, y0: 0, x1: 0.5, y1: 0.5 })
+  })
+})
+
+describe("regionFromDrag", () => {
+  it("spans a drag in any direction and stays on the photo", () => {
+    expect(regionFromDrag({ x: 0.8, y: 0.9 }, { x: 0.2, y: 1.4 })).toEqual({ x0: 0.2, y0: 0.9, x1: 0.8, y1: 1 })
+  })
+
+  it("grows a narrow drag to the minimum size", () => {
+    const region = regionFromDrag({ x: 0.99, y: 0.2 }, { x: 1, y: 0.8 })
+
+    expect(region.x1 - region.x0).toBeCloseTo(MIN_CROP_SIZE)
+    expect(region.x1).toBeLessThanOrEqual(1)
+  })
+
+  it("recognizes the whole photo", () => {
+    expect(isFullRegion(FULL_PHOTO)).toBe(true)
+    expect(isFullRegion(turnRegion(FULL_PHOTO, 1))).toBe(true)
+    expect(isFullRegion(regionFromDrag({ x: 0, y: 0 }, { x: 0.5, y: 1 }))).toBe(false)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  cleanReceiptText,
+  hasTextLayer,
+  htmlToReceiptText,
+  pdfTextToLines,
+  type PdfTextItem,
+} from "../lib/receipt-import"
+import { extractAmountsFromText } from "../lib/receipt-ocr"
+
+const textItem = (str: string, x: number, baseline: number): PdfTextItem => ({
+  str,
+  transform: [10, 0, 0, 10, x, baseline],
+  height: 10,
+})
+
+describe("cleanReceiptText", () => {
+  it("collapses spacing and drops blank lines", () => {
+    expect(cleanReceiptText("  Burger\t\t12.00  \r\n\r\n\nTOTAL   12.00\n")).toBe("Burger 12.00\nTOTAL 12.00")
+  })
+})
+
+describe("htmlToReceiptText", () => {
+  it("keeps table cells of a row on one line", () => {
+    const html = `
+      <html><head><style>td { padding: 4px }</style></head>
+      <body>
+        <h1>Noodle&nbsp;House</h1>
+        <table>
+          <tr><td>Pad Thai</td><td align="right">$14.50</td></tr>
+          <tr><td>Spring Rolls</td><td align="right">$6.00</td></tr>
+          <tr><th>Subtotal</th><th>$20.50</th></tr>
+          <tr><td>Tax</td><td>$1.80</td></tr>
+          <tr><td><b>Total</b></td><td><b>$22.30</b></td></tr>
+        </table>
+        <p>Thanks &amp; see you soon<br>Order #48213</p>
+        <!-- tracking pixel -->
+      </body></html>
+    `
+
+    expect(htmlToReceiptText(html).split("\n")).toEqual([
+      "Noodle House",
+      "Pad Thai $14.50",
+      "Spring Rolls $6.00",
+      "Subtotal $20.50",
+      "Tax $1.80",
+      "Total $22.30",
+      "Thanks & see you soon",
+      "Order #48213",
+    ])
+  })
+
+  it("decodes numeric entities such as currency signs", () => {
+    expect(htmlToReceiptText("<div>Gesamt 18,40&#160;&#8364;</div><div>MwSt &euro;2,94</div>")).toBe(
+      "Gesamt 18,40 €\nMwSt €2,94"
+    )
+  })
+
+  it("feeds the same total detection as scanned receipts", () => {
+    const html = "<table><tr><td>Subtotal</td><td>20.50</td></tr><tr><td>Tax</td><td>1.80</td></tr>" +
+      "<tr><td>Total</td><td>22.30</td></tr><tr><td>Visa</td><td>22.30</td></tr></table>"
+
+    expect(extractAmountsFromText(htmlToReceiptText(html)).amount).toBe(22.3)
+  })
+})
+
+describe("pdfTextToLines", () => {
+  it("joins text items on the same baseline from left to right", () => {
+    const lines = pdfTextToLines([
+      textItem("12.00", 200, 700),
+      textItem("TOTAL", 20, 680),
+      textItem("Burger", 20, 700.5),
+      textItem("12.00", 200, 680),
+      textItem(" ", 100, 690),
+      textItem("Diner", 20, 740),
+    ])
+
+    expect(lines).toEqual(["Diner", "Burger 12.00", "TOTAL 12.00"])
+  })
+})
+
+describe("hasTextLayer", () => {
+  it("tells a text PDF from a scanned one", () => {
+    expect(hasTextLayer("Diner\nBurger 12.00\nTax 0.96\nTOTAL 12.96")).toBe(true)
+    expect(hasTextLayer(" . , ")).toBe(false)
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest"
+
+import { getReceiptKeywords, toTesseractLanguages, type ReceiptLanguage } from "../lib/receipt-keywords"
+import { extractAmountsFromText } from "../lib/receipt-ocr"
+
+interface LanguageCase {
+  language: ReceiptLanguage
+  text: string
+  total: number
+  subtotal: number
+  tax: number
+}
+
+const languageCases: LanguageCase[] = [
+  {
+    language: "de",
+    text: [
+      "Gasthaus zur Linde",
+      "Schnitzel 16,50",
+      "Apfelschorle 3,50",
+      "Zwischensumme 20,00",
+      "MwSt. 19% 3,80",
+      "Summe 23,80",
+      "Bar 30,00",
+      "Rückgeld 6,20",
+    ].join("\n"),
+    total: 23.8,
+    subtotal: 20,
+    tax: 3.8,
+  },
+  {
+    language: "fr",
+    text: [
+      "Brasserie du Port",
+      "Croque monsieur 9,50",
+      "Café 2,50",
+      "Sous-total 12,00",
+      "TVA 10% 1,20",
+      "Total TTC 13,20",
+      "Espèces 20,00",
+      "Rendu 6,80",
+    ].join("\n"),
+    total: 13.2,
+    subtotal: 12,
+    tax: 1.2,
+  },
+  {
+    language: "es",
+    text: [
+      "Bar La Plaza",
+      "Tortilla 8,00",
+      "Caña 2,00",
+      "Subtotal 10,00",
+      "IVA 10% 1,00",
+      "Total 11,00",
+      "Propina sugerida 10% 1,10",
+      "Efectivo 20,00",
+    ].join("\n"),
+    total: 11,
+    subtotal: 10,
+    tax: 1,
+  },
+  {
+    language: "it",
+    text: [
+      "Trattoria da Mario",
+      "Coperto 2,00",
+      "Spaghetti 12,00",
+      "Vino 6,00",
+      "Imponibile 16,36",
+      "IVA 10% 1,64",
+      "Totale 20,00",
+      "Contanti 50,00",
+      "Resto 30,00",
+    ].join("\n"),
+    total: 20,
+    subtotal: 16.36,
+    tax: 1.64,
+  },
+  {
+    language: "nl",
+    text: [
+      "Eetcafé De Hoek",
+      "Tosti 5,50",
+      "Koffie 3,00",
+      "Subtotaal 8,50",
+      "BTW 9% 0,77",
+      "Totaal 9,27",
+      "Pin 9,27",
+    ].join("\n"),
+    total: 9.27,
+    subtotal: 8.5,
+    tax: 0.77,
+  },
+  {
+    language: "ja",
+    text: [
+      "居酒屋 さくら",
+      "生ビール 600.00",
+      "焼き鳥 900.00",
+      "小計 1500.00",
+      "消費税 150.00",
+      "合計 1650.00",
+      "お預り 2000.00",
+      "お釣り 350.00",
+    ].join("\n"),
+    total: 1650,
+    subtotal: 1500,
+    tax: 150,
+  },
+]
+
+describe("extractAmountsFromText in other languages", () => {
+  it.each(languageCases)("reads a $language receipt", ({ language, text, total, subtotal, tax }) => {
+    const result = extractAmountsFromText(text, { languages: [language, "en"] })
+
+    expect(result.amount).toBe(total)
+    expect(result.receipt.subtotal?.value).toBe(subtotal)
+    expect(result.receipt.taxes.map((line) => line.amount)).toEqual([tax])
+  })
+
+  it("keeps the Italian cover charge out of the tip", () => {
+    const italian = languageCases.find((languageCase) => languageCase.language === "it")!
+
+    const result = extractAmountsFromText(italian.text, { languages: ["it"] })
+
+    expect(result.receipt.serviceCharges).toEqual([])
+  })
+
+  it("does not read labels in languages that were not selected", () => {
+    const german = languageCases.find((languageCase) => languageCase.language === "de")!
+
+    const result = extractAmountsFromText(german.text)
+
+    expect(result.receipt.subtotal).toBeNull()
+  })
+})
+
+describe("getReceiptKeywords", () => {
+  it("matches labels from every selected language", () => {
+    const keywords = getReceiptKeywords(["de", "fr"])
+
+    expect(keywords.tax.test("MwSt. 19%")).toBe(true)
+    expect(keywords.tax.test("TVA 20%")).toBe(true)
+    expect(keywords.tax.test("IVA 10%")).toBe(false)
+  })
+
+  it("matches whole words only, including accented ones", () => {
+    const keywords = getReceiptKeywords(["de"])
+
+    expect(keywords.payment.test("BAR 20,00")).toBe(true)
+    expect(keywords.payment.test("Barbecue 20,00")).toBe(false)
+    expect(keywords.payment.test("Rückgeld 1,00")).toBe(true)
+  })
+
+  it("falls back to English without languages", () => {
+    expect(getReceiptKeywords([])).toBe(getReceiptKeywords(["en"]))
+  })
+})
+
+describe("toTesseractLanguages", () => {
+  it("joins the language packs once each", () => {
+    expect(toTesseractLanguages(["de", "en", "de"])).toBe("deu+eng")
+    expect(toTesseractLanguages([])).toBe("eng")
+  })
+})
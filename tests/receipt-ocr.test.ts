@@ -1,11 +1,28 @@
 import { describe, expect, it } from "vitest"
 
 import {
+  extractAmountsFromPages,
   extractAmountsFromText,
   getNoAmountErrorMessage,
   type ExtractedData,
+  type StructuredReceipt,
 } from "../lib/receipt-ocr"
 
+const emptyReceipt: StructuredReceipt = {
+  merchant: null,
+  date: null,
+  time: null,
+  lineItems: [],
+  subtotal: null,
+  taxes: [],
+  serviceCharges: [],
+  fees: [],
+  discounts: [],
+  total: null,
+  payment: null,
+  reconciliation: null,
+}
+
 describe("extractAmountsFromText", () => {
   it("prefers a validated total over payment lines", () => {
     const text = [
@@ -23,6 +40,100 @@ describe("extractAmountsFromText", () => {
     expect(result.confidence).toBeGreaterThan(0.7)
   })
 
+  it("reports the subtotal and summed tax lines above the total", () => {
+    const text = [
+      "BURGER 18.00",
+      "SALAD 12.00",
+      "SUBTOTAL 30.00",
+      "GST 5% 1.50",
+      "PST 7% 2.10",
+      "TOTAL 33.60",
+      "VISA 33.60",
+    ].join("\n")
+
+    const result = extractAmountsFromText(text)
+
+    expect(result.amount).toBe(33.6)
+    expect(result.subtotal).toBe(30)
+    expect(result.tax).toBe(3.6)
+  })
+
+  it("suggests the currency printed on the receipt", () => {
+    const result = extractAmountsFromText(["Pizza 12,50 €", "Summe 12,50 €", "TOTAL 12,50 €"].join("\n"))
+
+    expect(result.currency).toBe("EUR")
+  })
+
+  it("lists priced lines above the subtotal as line items", () => {
+    const text = [
+      "TABLE 12",
+      "2 X IPA 14.00",
+      "FISH TACOS 16.50",
+      "SUBTOTAL 30.50",
+      "TAX 2.44",
+      "TOTAL 32.94",
+    ].join("\n")
+
+    const result = extractAmountsFromText(text)
+
+    expect(result.lineItems).toMatchObject([
+      { description: "IPA", quantity: 2, unitPrice: 7, price: 14, lineIndex: 1 },
+      { description: "FISH TACOS", quantity: 1, unitPrice: 16.5, price: 16.5, lineIndex: 2 },
+    ])
+  })
+
+  it("leaves subtotal and tax empty when the receipt has none", () => {
+    const result = extractAmountsFromText(["COFFEE 4.50", "TOTAL 4.50"].join("\n"))
+
+    expect(result.subtotal).toBeNull()
+    expect(result.tax).toBeNull()
+  })
+
+  it("reports a gratuity the restaurant already added", () => {
+    const text = [
+      "SUBTOTAL 70.00",
+      "GRATUITY 18% 12.60",
+      "TAX 5.78",
+      "TOTAL 88.38",
+      "Suggested tip 20%: 14.00",
+    ].join("\n")
+
+    const result = extractAmountsFromText(text)
+
+    expect(result.amount).toBe(88.38)
+    expect(result.serviceCharge).toBe(12.6)
+    expect(result.serviceChargePercent).toBe(18)
+  })
+
+  it("ignores tip suggestions printed below the total", () => {
+    const text = [
+      "SUBTOTAL 50.00",
+      "TAX 4.00",
+      "TOTAL 54.00",
+      "TIP GUIDE 18% 9.00",
+      "TIP GUIDE 20% 10.00",
+    ].join("\n")
+
+    const result = extractAmountsFromText(text)
+
+    expect(result.serviceCharge).toBeNull()
+    expect(result.serviceChargePercent).toBeNull()
+  })
+
+  it("reads a total with OCR digit confusions and trusts it less", () => {
+    // Calibration steps can map both onto the same value, so compare the raw confidence
+    const clean = extractAmountsFromText(["BURGER 12.00", "SUBTOTAL 12.00", "TAX 1.20", "TOTAL 13.20"].join("\n"), {
+      calibration: null,
+    })
+    const misread = extractAmountsFromText(["BURGER 12.00", "SUBTOTAL 12.00", "TAX 1.20", "TOTAL l3.2O"].join("\n"), {
+      calibration: null,
+    })
+
+    expect(misread.amount).toBe(13.2)
+    expect(misread.allAmounts.find((amount) => amount.value === 13.2)?.corrected).toBe(true)
+    expect(misread.confidence).toBeLessThan(clean.confidence)
+  })
+
   it("falls back to no amount for payment-only text", () => {
     const text = ["CASH 40.00", "CHANGE 12.50"].join("\n")
 
@@ -31,6 +142,76 @@ describe("extractAmountsFromText", () => {
     expect(result.amount).toBe(0)
     expect(result.allAmounts).toHaveLength(2)
   })
+
+  it("explains each amount's score signal by signal", () => {
+    const result = extractAmountsFromText(["SUBTOTAL 12.00", "TAX 1.20", "TOTAL 13.20", "CASH 20.00"].join("\n"))
+    const total = result.allAmounts.find((amount) => amount.value === 13.2)
+    const cash = result.allAmounts.find((amount) => amount.value === 20)
+
+    expect(total?.scoring?.contributions.map((contribution) => contribution.signal)).toEqual(
+      expect.arrayContaining(["totalLabel", "addsUp", "reconciles"])
+    )
+    expect(cash?.scoring?.contributions.map((contribution) => contribution.signal)).toContain("paymentLine")
+    expect(total?.scoring?.score).toBeCloseTo(
+      total?.scoring?.contributions.reduce((sum, contribution) => sum + contribution.points, 0) ?? 0
+    )
+  })
+
+  it("asks for review when the total doesn't add up or is uncertain", () => {
+    const checked = extractAmountsFromText(["SUBTOTAL 12.00", "TAX 1.20", "TOTAL 13.20"].join("\n"))
+    const mismatched = extractAmountsFromText(["SUBTOTAL 12.00", "TAX 1.20", "TOTAL 25.20"].join("\n"))
+    const uncertain = extractAmountsFromText(["BURGER 9.50", "FRIES 3.00"].join("\n"))
+
+    expect(checked.reviewReasons).toEqual([])
+    expect(mismatched.amount).toBe(25.2)
+    expect(mismatched.reviewReasons).toContain("does-not-add-up")
+    expect(uncertain.reviewReasons).toContain("low-confidence")
+  })
+
+  it("calibrates the total's confidence unless asked for the raw score", () => {
+    const text = ["BURGER 9.50", "FRIES 3.00", "TOTAL 12.50"].join("\n")
+
+    expect(extractAmountsFromText(text).confidence).not.toBe(
+      extractAmountsFromText(text, { calibration: null }).confidence
+    )
+  })
+
+  it("scores with overridden weights", () => {
+    const text = ["SUBTOTAL 12.00", "TAX 1.20", "TOTAL 13.20"].join("\n")
+
+    expect(extractAmountsFromText(text, { weights: { minimumScore: 100 } }).amount).toBe(0)
+    expect(
+      extractAmountsFromText(text, { weights: { totalLabel: 0 } }).allAmounts.find((amount) => amount.value === 13.2)
+        ?.scoring?.contributions.map((contribution) => contribution.signal)
+    ).not.toContain("totalLabel")
+  })
+})
+
+describe("extractAmountsFromPages", () => {
+  const topPhoto = ["TRATTORIA ROMA", "2 Pasta 24.00", "1 Salad 9.50", "2 Wine 18.00"].join("\n")
+  const bottomPhoto = ["1 Salad 9.50", "2 Wine 18.00", "SUBTOTAL 51.50", "TAX 4.12", "TOTAL 55.62"].join("\n")
+
+  it("reads overlapping photos as one receipt that adds up", () => {
+    const result = extractAmountsFromPages([
+      { text: topPhoto, layout: null },
+      { text: bottomPhoto, layout: null },
+    ])
+
+    expect(result.rawText.split("\n")).toHaveLength(7)
+    expect(result.amount).toBe(55.62)
+    expect(result.lineItems.map((item) => item.description)).toEqual(["Pasta", "Salad", "Wine"])
+    expect(result.receipt.reconciliation?.totalMatches).toBe(true)
+  })
+
+  it("records which photo each amount was read from", () => {
+    const result = extractAmountsFromPages([
+      { text: topPhoto, layout: null },
+      { text: bottomPhoto, layout: null },
+    ])
+
+    expect(result.allAmounts.find((amount) => amount.value === 24)?.page).toBe(0)
+    expect(result.allAmounts.find((amount) => amount.value === 55.62)?.page).toBe(1)
+  })
 })
 
 describe("getNoAmountErrorMessage", () => {
@@ -38,6 +219,13 @@ describe("getNoAmountErrorMessage", () => {
     const data: ExtractedData = {
       amount: 0,
       confidence: 0.3,
+      subtotal: null,
+      tax: null,
+      serviceCharge: null,
+      serviceChargePercent: null,
+      lineItems: [],
+      currency: null,
+      receipt: emptyReceipt,
       allAmounts: [
         {
           value: 12.34,
@@ -46,6 +234,7 @@ describe("getNoAmountErrorMessage", () => {
         },
       ],
       rawText: "ITEM 12.34",
+      reviewReasons: [],
     }
 
     const message = getNoAmountErrorMessage(data)
@@ -53,12 +242,39 @@ describe("getNoAmountErrorMessage", () => {
     expect(message).toContain("Found $12.34")
   })
 
+  it("formats the amount in the requested currency", () => {
+    const data: ExtractedData = {
+      amount: 0,
+      confidence: 0.3,
+      subtotal: null,
+      tax: null,
+      serviceCharge: null,
+      serviceChargePercent: null,
+      lineItems: [],
+      currency: "EUR",
+      receipt: emptyReceipt,
+      allAmounts: [{ value: 12.34, context: "ITEM 12,34", lineIndex: 0 }],
+      rawText: "ITEM 12,34",
+      reviewReasons: [],
+    }
+
+    expect(getNoAmountErrorMessage(data, "EUR", "de-DE")).toMatch(/Found 12,34\s€/)
+  })
+
   it("returns null when a total amount is present", () => {
     const data: ExtractedData = {
       amount: 42,
       confidence: 0.9,
+      subtotal: null,
+      tax: null,
+      serviceCharge: null,
+      serviceChargePercent: null,
+      lineItems: [],
+      currency: null,
+      receipt: emptyReceipt,
       allAmounts: [],
       rawText: "TOTAL 42.00",
+      reviewReasons: [],
     }
 
     expect(getNoAmountErrorMessage(data)).toBeNull()
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest"
+
+import { classifyMisread, reconcileReceipt, type ReconciliationLine } from "../lib/receipt-reconciliation"
+
+const line = (value: number, lineIndex: number): ReconciliationLine => ({ value, lineIndex })
+
+describe("classifyMisread", () => {
+  it("recognizes a single wrong digit", () => {
+    expect(classifyMisread(1788, 1728)).toBe("digit")
+    expect(classifyMisread(900, 800)).toBe("digit")
+  })
+
+  it("recognizes swapped neighbouring digits", () => {
+    expect(classifyMisread(1243, 1234)).toBe("transposition")
+  })
+
+  it("recognizes a lost decimal separator", () => {
+    expect(classifyMisread(123400, 1234)).toBe("decimal-point")
+  })
+
+  it("rejects differences no single misread explains", () => {
+    expect(classifyMisread(1799, 1728)).toBeNull()
+    expect(classifyMisread(1234, 1234)).toBeNull()
+    expect(classifyMisread(3214, 1234)).toBeNull()
+  })
+})
+
+describe("reconcileReceipt", () => {
+  it("confirms a receipt that adds up to the cent", () => {
+    const result = reconcileReceipt({
+      items: [line(3.49, 0), line(2.99, 1)],
+      subtotal: line(5.48, 3),
+      taxes: [line(0.44, 5)],
+      fees: [line(0.1, 4)],
+      discounts: [line(1, 2)],
+      total: line(6.02, 6),
+    })
+
+    expect(result).toEqual({
+      itemsMatchSubtotal: true,
+      itemsDifferenceCents: 0,
+      totalMatches: true,
+      totalDifferenceCents: 0,
+      misreads: [],
+    })
+  })
+
+  it("subtracts discounts below the subtotal from the total", () => {
+    const result = reconcileReceipt({
+      items: [],
+      subtotal: line(50, 0),
+      taxes: [line(4, 2)],
+      fees: [],
+      discounts: [line(5, 1)],
+      total: line(49, 3),
+    })
+
+    expect(result.totalMatches).toBe(true)
+    expect(result.itemsMatchSubtotal).toBeNull()
+  })
+
+  it("flags the total when items and subtotal agree but the total is one digit off", () => {
+    const result = reconcileReceipt({
+      items: [line(12, 0), line(4, 1)],
+      subtotal: line(16, 2),
+      taxes: [line(1.28, 3)],
+      fees: [],
+      discounts: [],
+      total: line(17.88, 4),
+    })
+
+    expect(result.totalMatches).toBe(false)
+    expect(result.totalDifferenceCents).toBe(-60)
+    expect(result.misreads).toContainEqual({ lineIndex: 4, readValue: 17.88, correctedValue: 17.28, kind: "digit" })
+    expect(result.misreads.map((misread) => misread.lineIndex)).not.toContain(2)
+  })
+
+  it("flags an item when the subtotal is confirmed by the total", () => {
+    const result = reconcileReceipt({
+      items: [line(12, 0), line(9, 1)],
+      subtotal: line(16, 2),
+      taxes: [line(1.28, 3)],
+      fees: [],
+      discounts: [],
+      total: line(17.28, 4),
+    })
+
+    expect(result.itemsMatchSubtotal).toBe(false)
+    expect(result.misreads).toEqual([{ lineIndex: 1, readValue: 9, correctedValue: 4, kind: "digit" }])
+  })
+
+  it("has nothing to check without a subtotal or items", () => {
+    const result = reconcileReceipt({ items: [], subtotal: null, taxes: [], fees: [], discounts: [], total: line(10, 0) })
+
+    expect(result.totalMatches).toBeNull()
+    expect(result.misreads).toEqual([])
+  })
+})
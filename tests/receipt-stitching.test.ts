@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+
+import { findPageOverlap, lineSimilarity, stitchPages } from "../lib/receipt-stitching"
+
+describe("lineSimilarity", () => {
+  it("ignores spacing, case and decimal marks but not different text", () => {
+    expect(lineSimilarity("Caesar Salad  12.50", "CAESAR SALAD 12,50")).toBe(1)
+    expect(lineSimilarity("Caesar Salad 12.50", "Caesar Sa1ad 12.50")).toBeGreaterThan(0.9)
+    expect(lineSimilarity("Caesar Salad 12.50", "Ribeye Steak 38.00")).toBeLessThan(0.5)
+  })
+})
+
+describe("findPageOverlap", () => {
+  it("finds the lines both photos show", () => {
+    const previous = ["GROCER", "Milk 2.49", "Bread 3.10", "Eggs 4.20"]
+    const next = ["Bread 3.1O", "Eggs 4.20", "Apples 5.00", "TOTAL 14.79"]
+
+    expect(findPageOverlap(previous, next)).toEqual({ previousEnd: 4, nextStart: 2, lines: 2 })
+  })
+
+  it("skips a line cut off at either photo's edge", () => {
+    const previous = ["Milk 2.49", "Bread 3.10", "Eggs 4.20", "Ap;;l"]
+    const next = ["~~ 2.4", "Bread 3.10", "Eggs 4.20", "Apples 5.00"]
+
+    expect(findPageOverlap(previous, next)).toEqual({ previousEnd: 3, nextStart: 3, lines: 2 })
+  })
+
+  it("does not treat a single repeated item or separators as overlap", () => {
+    expect(findPageOverlap(["Milk 2.49", "Beer 5.00"], ["Beer 5.00", "Fries 4.00"])).toBeNull()
+    expect(findPageOverlap(["Beer 5.00", "--------"], ["--------", "TOTAL 10.00"])).toBeNull()
+  })
+})
+
+describe("stitchPages", () => {
+  it("joins photos in order, keeping the overlap once", () => {
+    const stitched = stitchPages([
+      ["GROCER", "Milk 2.49", "Bread 3.10"],
+      ["Milk 2.49", "Bread 3.10", "Eggs 4.20", "Apples 5.00"],
+      ["Eggs 4.20", "Apples 5.00", "TOTAL 14.79"],
+    ])
+
+    expect(stitched.map((line) => line.text)).toEqual([
+      "GROCER",
+      "Milk 2.49",
+      "Bread 3.10",
+      "Eggs 4.20",
+      "Apples 5.00",
+      "TOTAL 14.79",
+    ])
+    expect(stitched.map((line) => [line.page, line.index])).toEqual([
+      [0, 0],
+      [0, 1],
+      [0, 2],
+      [1, 2],
+      [1, 3],
+      [2, 2],
+    ])
+  })
+
+  it("appends photos that don't overlap", () => {
+    expect(stitchPages([["Milk 2.49"], ["TOTAL 2.49"]]).map((line) => line.text)).toEqual(["Milk 2.49", "TOTAL 2.49"])
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest"
+
+import { extractAmountsFromText } from "../lib/receipt-ocr"
+import {
+  findMerchant,
+  findPaymentMethod,
+  findTransactionDate,
+  findTransactionTime,
+  parseItemText,
+} from "../lib/receipt-structure"
+import { RECEIPT_FIXTURES } from "./fixtures/receipts"
+
+describe("extractAmountsFromText receipt structure", () => {
+  it.each(RECEIPT_FIXTURES)("parses $name", ({ text, expected }) => {
+    const { receipt } = extractAmountsFromText(text)
+
+    expect(receipt).toMatchObject(expected)
+  })
+
+  it("scores every field between 0 and 1", () => {
+    for (const { text } of RECEIPT_FIXTURES) {
+      const { receipt } = extractAmountsFromText(text)
+      const fields = [
+        receipt.merchant,
+        receipt.date,
+        receipt.time,
+        receipt.subtotal,
+        receipt.total,
+        receipt.payment,
+        ...receipt.lineItems,
+        ...receipt.taxes,
+        ...receipt.serviceCharges,
+      ]
+
+      for (const field of fields) {
+        if (field) {
+          expect(field.confidence).toBeGreaterThan(0)
+          expect(field.confidence).toBeLessThanOrEqual(1)
+        }
+      }
+    }
+  })
+
+  it("trusts amounts that add up to the total more", () => {
+    const { receipt: balanced } = extractAmountsFromText(["SUBTOTAL 30.00", "TAX 2.40", "TOTAL 32.40"].join("\n"))
+    const { receipt: unbalanced } = extractAmountsFromText(["SUBTOTAL 30.00", "TAX 2.40", "TOTAL 35.40"].join("\n"))
+
+    expect(balanced.subtotal?.confidence).toBeGreaterThan(unbalanced.subtotal?.confidence ?? 1)
+    expect(balanced.taxes[0].confidence).toBeGreaterThan(unbalanced.taxes[0].confidence)
+  })
+
+  it("picks an unlabelled total the other lines add up to", () => {
+    const text = ["SALAD 9.50", "SOUP 6.25", "SUBTOTAL 15.75", "TAX 1.26", "T0TAL 17.01", "CASH 20.00", "CHANGE 2.99"]
+
+    const result = extractAmountsFromText(text.join("\n"))
+
+    expect(result.amount).toBe(17.01)
+    expect(result.receipt.reconciliation?.totalMatches).toBe(true)
+  })
+
+  it("flags a misread total and trusts it less", () => {
+    const text = ["BURGER 12.00", "FRIES 4.00", "SUBTOTAL 16.00", "TAX 1.28", "TOTAL 17.88"].join("\n")
+
+    const { receipt } = extractAmountsFromText(text)
+
+    expect(receipt.reconciliation?.misreads).toContainEqual(
+      expect.objectContaining({ lineIndex: 4, correctedValue: 17.28 })
+    )
+    expect(receipt.subtotal?.confidence).toBeGreaterThan(receipt.total?.confidence ?? 1)
+  })
+
+  it("keeps merchant and date when no total is found", () => {
+    const result = extractAmountsFromText(["CORNER CAFE", "2024-02-29"].join("\n"))
+
+    expect(result.amount).toBe(0)
+    expect(result.receipt.merchant?.value).toBe("CORNER CAFE")
+    expect(result.receipt.date?.value).toBe("2024-02-29")
+    expect(result.receipt.total).toBeNull()
+  })
+
+  it("does not list a date line as an item", () => {
+    const { receipt } = extractAmountsFromText(["BAKERY", "Date 05.12.24", "Bread 3.50", "TOTAL 3.50"].join("\n"))
+
+    expect(receipt.lineItems.map((item) => item.description)).toEqual(["Bread"])
+  })
+})
+
+describe("findMerchant", () => {
+  it("skips headings and addresses and trusts later lines less", () => {
+    const merchant = findMerchant(["RECEIPT", "42 Harbour Rd", "Sea Breeze Grill"])
+
+    expect(merchant).toMatchObject({ value: "Sea Breeze Grill", lineIndex: 2 })
+    expect(merchant?.confidence).toBeLessThan(findMerchant(["Sea Breeze Grill"])?.confidence ?? 0)
+  })
+
+  it("returns null when the top lines hold no name", () => {
+    expect(findMerchant(["12/01/2024", "ORDER #12"])).toBeNull()
+  })
+})
+
+describe("findTransactionDate", () => {
+  it("reads day-first dates when month-first is impossible", () => {
+    expect(findTransactionDate(["25/12/2023"])?.value).toBe("2023-12-25")
+  })
+
+  it("lowers confidence for ambiguous numeric dates", () => {
+    const ambiguous = findTransactionDate(["04/05/2024"])
+    const unambiguous = findTransactionDate(["2024-05-04"])
+
+    expect(ambiguous?.value).toBe("2024-04-05")
+    expect(ambiguous?.confidence).toBeLessThan(unambiguous?.confidence ?? 0)
+  })
+
+  it("rejects impossible dates", () => {
+    expect(findTransactionDate(["31.02.2024"])).toBeNull()
+  })
+})
+
+describe("findTransactionTime", () => {
+  it("converts 12-hour times", () => {
+    expect(findTransactionTime(["12:05 AM"])?.value).toBe("00:05")
+    expect(findTransactionTime(["1:30 pm"])?.value).toBe("13:30")
+  })
+})
+
+describe("findPaymentMethod", () => {
+  it("prefers tenders printed below the total", () => {
+    const lines = ["CARD SURCHARGE FREE", "TOTAL 10.00", "CASH 10.00"]
+
+    expect(findPaymentMethod(lines, 1)).toMatchObject({ value: "cash", lineIndex: 2 })
+  })
+})
+
+describe("parseItemText", () => {
+  it("reads a leading quantity", () => {
+    expect(parseItemText("3x Lemonade 7.50", 7.5)).toEqual({
+      description: "Lemonade",
+      quantity: 3,
+      unitPrice: 2.5,
+      unitPriceConfirmed: false,
+    })
+  })
+
+  it("confirms a printed unit price against the line price", () => {
+    expect(parseItemText("Lemonade 3 @ 2.50 7.50", 7.5)).toMatchObject({ quantity: 3, unitPriceConfirmed: true })
+  })
+
+  it("treats a plain line as a single item", () => {
+    expect(parseItemText("Veggie Burger 11.00", 11)).toMatchObject({ description: "Veggie Burger", quantity: 1 })
+  })
+})
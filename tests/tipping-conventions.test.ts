@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+
+import { isCurrencyCode } from "../lib/currency"
+import {
+  DEFAULT_REGION,
+  isRegionCode,
+  MAX_TIP_PRESETS,
+  parseTipPresets,
+  sanitizeTipPresets,
+  TIPPING_CONVENTIONS,
+} from "../lib/tipping-conventions"
+
+describe("TIPPING_CONVENTIONS", () => {
+  it("offers each region's default tip as a preset", () => {
+    for (const convention of Object.values(TIPPING_CONVENTIONS)) {
+      expect(convention.presets).toContain(convention.defaultTip)
+      expect(sanitizeTipPresets(convention.presets)).toEqual(convention.presets)
+      expect(isCurrencyCode(convention.currency)).toBe(true)
+    }
+  })
+
+  it("keeps the original presets for the default region", () => {
+    expect(TIPPING_CONVENTIONS[DEFAULT_REGION].presets).toEqual([10, 15, 18, 20, 25])
+    expect(TIPPING_CONVENTIONS[DEFAULT_REGION].defaultTip).toBe(15)
+  })
+})
+
+describe("isRegionCode", () => {
+  it("accepts known regions only", () => {
+    expect(isRegionCode("JP")).toBe(true)
+    expect(isRegionCode("XX")).toBe(false)
+    expect(isRegionCode("toString")).toBe(false)
+    expect(isRegionCode(null)).toBe(false)
+  })
+})
+
+describe("sanitizeTipPresets", () => {
+  it("sorts, deduplicates and drops out-of-range values", () => {
+    expect(sanitizeTipPresets([20, 10, 10, -5, 150, "15", Number.NaN])).toEqual([10, 20])
+  })
+
+  it("rejects empty and oversized lists", () => {
+    expect(sanitizeTipPresets([])).toBeNull()
+    expect(sanitizeTipPresets(Array.from({ length: MAX_TIP_PRESETS + 1 }, (_, i) => i))).toBeNull()
+  })
+})
+
+describe("parseTipPresets", () => {
+  it("parses comma or space separated percentages", () => {
+    expect(parseTipPresets("10, 12.5, 15%")).toEqual([10, 12.5, 15])
+    expect(parseTipPresets("0 5 10")).toEqual([0, 5, 10])
+  })
+
+  it("rejects text that is not a list of numbers", () => {
+    expect(parseTipPresets("")).toBeNull()
+    expect(parseTipPresets("10, abc")).toBeNull()
+    expect(parseTipPresets("-5, 10")).toBeNull()
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  DEFAULT_TOTAL_SCORING_WEIGHTS,
+  addScoreContribution,
+  resolveTotalScoringWeights,
+  scoreTotalCandidate,
+  type TotalCandidateSignals,
+} from "../lib/total-scoring"
+
+const noSignals: TotalCandidateSignals = {
+  grandTotalLabel: false,
+  totalLabel: false,
+  misleadingTotalLabel: false,
+  paymentLine: false,
+  category: "unknown",
+  addsUp: null,
+  hasRelationshipAnchors: false,
+  relativeValue: 0,
+  largestValues: false,
+  linePosition: 0,
+  underOneUnit: false,
+  correctedDigits: false,
+  wordConfidence: null,
+  priceColumn: false,
+}
+
+describe("scoreTotalCandidate", () => {
+  it("traces only the signals that fired", () => {
+    const scoring = scoreTotalCandidate({ ...noSignals, grandTotalLabel: true, category: "total", linePosition: 0.5 })
+
+    expect(scoring.contributions).toEqual([
+      { signal: "grandTotalLabel", points: 4.2 },
+      { signal: "totalCategory", points: 1.4 },
+      { signal: "linePosition", points: 0.8 },
+    ])
+    expect(scoring.score).toBeCloseTo(6.4)
+  })
+
+  it("scales measured signals by their weight", () => {
+    const scoring = scoreTotalCandidate({ ...noSignals, addsUp: 0.5, wordConfidence: 0.75 })
+
+    expect(scoring.contributions).toEqual([
+      { signal: "addsUp", points: 1.2 },
+      { signal: "lowWordConfidence", points: -0.3 },
+    ])
+  })
+
+  it("penalizes amounts the receipt's subtotal and tax don't add up to", () => {
+    expect(scoreTotalCandidate({ ...noSignals, hasRelationshipAnchors: true }).contributions).toEqual([
+      { signal: "doesNotAddUp", points: -0.6 },
+    ])
+    expect(scoreTotalCandidate({ ...noSignals, hasRelationshipAnchors: true, addsUp: 0 }).contributions).toEqual([])
+  })
+
+  it("uses overridden weights", () => {
+    const weights = resolveTotalScoringWeights({ paymentLine: -5 })
+    const scoring = scoreTotalCandidate({ ...noSignals, category: "payment" }, weights)
+
+    expect(weights.totalLabel).toBe(DEFAULT_TOTAL_SCORING_WEIGHTS.totalLabel)
+    expect(scoring).toEqual({ score: -5, contributions: [{ signal: "paymentLine", points: -5 }] })
+  })
+})
+
+describe("addScoreContribution", () => {
+  it("adds a signal's points to the score and trace", () => {
+    const scoring = addScoreContribution({ score: 2, contributions: [] }, "reconciles", 3)
+
+    expect(scoring).toEqual({ score: 5, contributions: [{ signal: "reconciles", points: 3 }] })
+    expect(addScoreContribution(scoring, "priceColumn", 0)).toBe(scoring)
+  })
+})